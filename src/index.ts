@@ -6,6 +6,9 @@
  * - 加载配置文件并初始化所有中间件和路由
  * - 支持优雅关闭（SIGTERM/SIGINT），确保资源正确释放
  * - 配置 body-parser 保存原始请求体用于 HMAC 验证
+ * - 按来源应用认证策略：Telegram Secret Token、GitHub 签名、通用 API HMAC
+ * - 启动时创建唯一的分发器（服务容器），注入到所有路由
+ * - telegram.mode 为 polling 时启动 getUpdates 长轮询，替代 Webhook 接收 Telegram 消息
  * 
  * 选型理由：
  * - Express：Node.js 最成熟的 Web 框架，生态丰富，文档完善
@@ -17,28 +20,48 @@ import * as bodyParser from 'body-parser';
 import { ConfigLoader } from './config/loader';
 import { Config } from './types';
 import { logger } from './utils/logger';
-import { hmacMiddleware } from './middlewares/hmac';
+import { apiAuthMiddleware } from './middlewares/auth';
 import { rateLimitMiddleware } from './middlewares/rateLimit';
 import { ipWhitelistMiddleware } from './middlewares/ipWhitelist';
-import telegramRouter from './routers/telegram.router';
-import githubRouter from './routers/github.router';
-import apiRouter from './routers/api.router';
-import { TelegramService } from './services/telegram.service';
-import { GitHubService } from './services/github.service';
-import { MailService } from './services/mail.service';
-import { MemoryQueue } from './queue/memoryQueue';
+import { createTelegramRouter } from './routers/telegram.router';
+import { createGitHubRouter } from './routers/github.router';
+import { createApiRouter } from './routers/api.router';
+import { createMediaRouter } from './routers/media.router';
+import { Dispatcher } from './services/dispatcher';
+import { TelegramPoller } from './services/telegramPoller';
+import { MailReceiver } from './services/mailReceiver';
 import { MessageSanitizer } from './services/sanitizer';
 
 // 加载配置
 let config: Config;
 try {
   config = ConfigLoader.load();
+  // 敏感信息检测器在启动时构建，配置错误不会等到第一条消息才暴露
+  MessageSanitizer.loadScanner(config);
   logger.info('[GSMRS] 配置加载成功');
 } catch (error: any) {
   logger.error('[GSMRS] 配置加载失败', { error: error.message });
   process.exit(1);
 }
 
+// 应用级唯一的分发器：每个平台一个出站客户端，所有路由共享同一个队列
+// 路由规则和消息模板在创建时校验，配置错误时直接退出
+let dispatcher: Dispatcher;
+try {
+  dispatcher = new Dispatcher();
+} catch (error: any) {
+  logger.error('[GSMRS] 初始化服务失败', { error: error.message });
+  process.exit(1);
+}
+
+// 内网部署没有公网 HTTPS 地址时使用长轮询
+const telegramPoller = config.telegram?.enable && config.telegram.mode === 'polling'
+  ? new TelegramPoller(dispatcher)
+  : undefined;
+
+// 入站邮件：内置 SMTP 监听，与出站邮件（mail.enable）相互独立
+const mailReceiver = config.mail?.inbound?.enable ? new MailReceiver(dispatcher) : undefined;
+
 const app: Express = express();
 const port = config.server.port || 3000;
 
@@ -68,10 +91,11 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 });
 
 // Routes
-// 注意：健康检查端点不需要 HMAC 验证，Webhook 端点在路由内部应用 HMAC
-app.use('/telegram', telegramRouter);
-app.use('/github', githubRouter);
-app.use('/api', apiRouter);
+// 注意：健康检查端点不需要认证，Webhook 端点在路由内部按来源应用认证策略
+app.use('/telegram', createTelegramRouter(dispatcher, telegramPoller));
+app.use('/github', createGitHubRouter(dispatcher));
+app.use('/api', apiAuthMiddleware, createApiRouter(dispatcher, mailReceiver));
+app.use('/media', createMediaRouter(dispatcher));
 
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
@@ -104,28 +128,24 @@ app.listen(port, async () => {
     port,
     https: config.server.https,
     environment: process.env.NODE_ENV || 'development',
+    telegramMode: telegramPoller ? 'polling' : 'webhook',
   });
 
+  if (telegramPoller) {
+    await telegramPoller.start();
+  }
+
+  if (mailReceiver) {
+    try {
+      await mailReceiver.start();
+    } catch (error: any) {
+      logger.error('[GSMRS] 入站邮件 SMTP 监听启动失败', { error: error.message });
+    }
+  }
+
   // 服务启动成功后发送测试消息
   try {
     logger.info('[GSMRS] 正在发送启动测试消息...');
-    
-    // 初始化服务
-    const telegramService = new TelegramService();
-    const githubService = new GitHubService();
-    const mailService = new MailService();
-    const messageQueue = new MemoryQueue();
-
-    // 注册队列处理器
-    messageQueue.registerHandler('telegram', async (job) => {
-      return telegramService.sendMessage(job.message);
-    });
-    messageQueue.registerHandler('github', async (job) => {
-      return githubService.postComment(job.message);
-    });
-    messageQueue.registerHandler('mail', async (job) => {
-      return mailService.sendEmail(job.message);
-    });
 
     // 创建测试消息
     const testMessage = MessageSanitizer.normalize('internal', {
@@ -153,15 +173,10 @@ ${config.mail?.enable ? '- 邮件服务' : ''}
     );
 
     // 发送到所有启用的目标
-    const targets: Array<'telegram' | 'github' | 'mail'> = [];
-    if (config.telegram?.enable) targets.push('telegram');
-    if (config.github?.enable) targets.push('github');
-    if (config.mail?.enable) targets.push('mail');
+    const targets = dispatcher.getEnabledTargets();
 
     if (targets.length > 0) {
-      for (const target of targets) {
-        messageQueue.enqueue(sanitized, target);
-      }
+      dispatcher.dispatch(sanitized, targets);
       logger.info(`[GSMRS] 启动测试消息已发送到 ${targets.length} 个目标`, { targets });
     } else {
       logger.warn('[GSMRS] 未启用任何服务，跳过测试消息发送');
@@ -174,11 +189,15 @@ ${config.mail?.enable ? '- 邮件服务' : ''}
 // 优雅关闭
 process.on('SIGTERM', () => {
   logger.info('[GSMRS] 收到 SIGTERM 信号，正在优雅关闭');
+  telegramPoller?.stop();
+  mailReceiver?.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   logger.info('[GSMRS] 收到 SIGINT 信号，正在优雅关闭');
+  telegramPoller?.stop();
+  mailReceiver?.stop();
   process.exit(0);
 });
 
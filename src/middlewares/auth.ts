@@ -0,0 +1,138 @@
+/**
+ * 按来源的 Webhook 认证中间件
+ *
+ * 原理：
+ * - Telegram：Telegram 不会对 Webhook 签名，只会在 X-Telegram-Bot-Api-Secret-Token 头中回传 setWebhook 时设置的 secret_token，这里做常量时间比较
+ * - GitHub：校验 X-Hub-Signature-256（HMAC-SHA256），可使用独立密钥
+ * - 通用 API（/api/*）：校验可配置签名头中的 HMAC-SHA256 签名，健康检查端点除外
+ * - 管理接口（死信队列、等待中任务、隔离区）始终需要认证：配置 admin.token 时校验 Bearer 令牌，
+ *   否则要求启用 API 签名验证；两者都未配置时拒绝访问，避免默认配置下任何人都能放行或清空消息
+ * - 每种策略在 security.auth 下独立配置；未配置时 GitHub 沿用全局 enable_hmac / hmac_secret
+ * - 认证失败返回 401，并在 reason 字段说明原因
+ *
+ * 选型理由：
+ * - 按来源区分：不同平台的认证机制不同，统一的 HMAC 无法适配 Telegram
+ * - 向后兼容：旧配置无需修改即可继续验证 GitHub Webhook
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+import { createHmacMiddleware, safeCompare } from './hmac';
+
+const TELEGRAM_SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * Telegram secret token verification
+ */
+export function telegramAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const config = ConfigLoader.getConfig();
+  const auth = config.security.auth?.telegram;
+
+  if (!auth || auth.enable === false) {
+    return next();
+  }
+
+  if (!auth.secret_token) {
+    logger.error('[GSMRS] Telegram 认证已启用但未配置 secret_token');
+    res.status(401).json({ error: 'Unauthorized', reason: 'Telegram secret token is not configured on the server' });
+    return;
+  }
+
+  const header = req.headers[TELEGRAM_SECRET_HEADER];
+  const provided = Array.isArray(header) ? header[0] : header;
+
+  if (!provided) {
+    logger.warn('[GSMRS] Telegram 认证失败：缺少 Secret Token', { ip: req.ip });
+    res.status(401).json({ error: 'Unauthorized', reason: 'Missing X-Telegram-Bot-Api-Secret-Token header' });
+    return;
+  }
+
+  if (!safeCompare(auth.secret_token, provided)) {
+    logger.warn('[GSMRS] Telegram 认证失败：Secret Token 不匹配', { ip: req.ip });
+    res.status(401).json({ error: 'Unauthorized', reason: 'Invalid secret token' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * GitHub X-Hub-Signature-256 verification
+ */
+export const githubAuthMiddleware = createHmacMiddleware({
+  name: 'GitHub',
+  resolve: () => {
+    const security = ConfigLoader.getConfig().security;
+    const auth = security.auth?.github;
+    const enabled = auth?.enable ?? security.enable_hmac;
+    if (!enabled) {
+      return undefined;
+    }
+    return {
+      secret: auth?.secret || security.hmac_secret,
+      headers: ['x-hub-signature-256'],
+    };
+  },
+});
+
+const apiHmacMiddleware = createHmacMiddleware({
+  name: 'API',
+  resolve: () => {
+    const security = ConfigLoader.getConfig().security;
+    const auth = security.auth?.api;
+    if (!auth?.enable) {
+      return undefined;
+    }
+    return {
+      secret: auth.secret || security.hmac_secret,
+      headers: [(auth.header || 'x-signature').toLowerCase()],
+    };
+  },
+});
+
+/**
+ * Generic HMAC verification for /api/*, health check excluded
+ */
+export function apiAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
+  if (req.method === 'GET' && req.path === '/health') {
+    return next();
+  }
+  apiHmacMiddleware(req, res, next);
+}
+
+/**
+ * Admin token or API signature required for queue and quarantine management
+ */
+export function adminAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const auth = ConfigLoader.getConfig().security.auth;
+  const token = auth?.admin?.token;
+
+  if (!token) {
+    // apiAuthMiddleware 已在 /api 上验证过签名
+    if (auth?.api?.enable) {
+      return next();
+    }
+    logger.warn('[GSMRS] 管理接口未配置认证，已拒绝访问', { ip: req.ip, path: req.path });
+    res.status(403).json({
+      error: 'Forbidden',
+      reason: 'Admin endpoints require security.auth.admin.token or security.auth.api',
+    });
+    return;
+  }
+
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith(BEARER_PREFIX)) {
+    logger.warn('[GSMRS] 管理接口认证失败：缺少令牌', { ip: req.ip, path: req.path });
+    res.status(401).json({ error: 'Unauthorized', reason: 'Missing Authorization: Bearer <token> header' });
+    return;
+  }
+
+  if (!safeCompare(token, header.slice(BEARER_PREFIX.length))) {
+    logger.warn('[GSMRS] 管理接口认证失败：令牌不匹配', { ip: req.ip, path: req.path });
+    res.status(401).json({ error: 'Unauthorized', reason: 'Invalid admin token' });
+    return;
+  }
+
+  next();
+}
@@ -1,62 +1,103 @@
 /**
  * HMAC 签名验证中间件
- * 
+ *
  * 原理：
  * - 使用 HMAC-SHA256 算法验证 Webhook 请求的完整性
  * - 从请求头获取签名，使用配置的密钥计算期望签名
- * - 使用 timingSafeEqual 进行常量时间比较，防止时序攻击
- * - 支持 GitHub (x-hub-signature-256) 和自定义 (x-signature) 签名头
- * 
+ * - 比较前先对两边做 SHA-256 摘要，长度固定后再用 timingSafeEqual 比较，签名长度不一致时不会抛异常
+ * - 签名格式为 sha256=<hex>，与 GitHub (x-hub-signature-256) 一致
+ *
  * 选型理由：
- * - HMAC-SHA256：行业标准，安全性高，GitHub/Telegram 等平台都支持
+ * - HMAC-SHA256：行业标准，安全性高，GitHub 等平台都支持
  * - crypto.timingSafeEqual：防止时序攻击，提高安全性
- * - 中间件模式：可配置启用/禁用，不影响其他功能
+ * - 中间件工厂：每个路由可以使用独立的密钥和签名头
  */
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import * as crypto from 'crypto';
-import { ConfigLoader } from '../config/loader';
 import { logger } from '../utils/logger';
 
-export function hmacMiddleware(req: Request, res: Response, next: NextFunction): void {
-  const config = ConfigLoader.getConfig();
-
-  if (!config.security.enable_hmac) {
-    return next();
-  }
-
-  const signature = req.headers['x-hub-signature-256'] || req.headers['x-signature'];
-  const secret = config.security.hmac_secret;
-
-  if (!signature || !secret) {
-    logger.warn('[GSMRS] HMAC 验证失败：缺少签名或密钥');
-    res.status(401).json({ error: 'Unauthorized: HMAC signature required' });
-    return;
-  }
-
-  // Get raw body (should be available if body-parser is configured with verify)
-  const rawBody = (req as any).rawBody || JSON.stringify(req.body);
-  
-  // Calculate expected signature
-  const hmac = crypto.createHmac('sha256', secret);
-  hmac.update(rawBody);
-  const expectedSignature = 'sha256=' + hmac.digest('hex');
-
-  // Compare signatures
-  const providedSignature = Array.isArray(signature) ? signature[0] : signature;
-  
-  if (!crypto.timingSafeEqual(
-    Buffer.from(expectedSignature),
-    Buffer.from(providedSignature)
-  )) {
-    logger.warn('[GSMRS] HMAC 验证失败：签名不匹配', {
-      ip: req.ip,
-      path: req.path,
-    });
-    res.status(401).json({ error: 'Unauthorized: Invalid HMAC signature' });
-    return;
-  }
-
-  logger.debug('[GSMRS] HMAC 验证通过');
-  next();
+/**
+ * Compute "sha256=<hex>" signature of payload
+ */
+export function computeHmacSignature(secret: string, payload: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Constant-time string comparison that tolerates different lengths
+ */
+export function safeCompare(expected: string, provided: string): boolean {
+  const a = crypto.createHash('sha256').update(expected).digest();
+  const b = crypto.createHash('sha256').update(provided).digest();
+  return crypto.timingSafeEqual(a, b) && expected.length === provided.length;
+}
+
+export interface HmacSettings {
+  secret: string;
+  headers: string[];
+}
+
+export interface HmacOptions {
+  name: string;
+  // 每次请求时读取配置，返回 undefined 表示该路由未启用验证
+  resolve: () => HmacSettings | undefined;
 }
 
+/**
+ * Create HMAC verification middleware
+ */
+export function createHmacMiddleware(options: HmacOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const settings = options.resolve();
+    if (!settings) {
+      return next();
+    }
+
+    if (!settings.secret) {
+      logger.error(`[GSMRS] ${options.name} HMAC 验证已启用但未配置密钥`);
+      res.status(401).json({ error: 'Unauthorized', reason: 'HMAC secret is not configured on the server' });
+      return;
+    }
+
+    const header = settings.headers.find(name => req.headers[name]);
+    const signature = header ? req.headers[header] : undefined;
+
+    if (!signature) {
+      logger.warn(`[GSMRS] ${options.name} HMAC 验证失败：缺少签名`, {
+        ip: req.ip,
+        path: req.path,
+      });
+      res.status(401).json({
+        error: 'Unauthorized',
+        reason: `Missing signature header (${settings.headers.join(' or ')})`,
+      });
+      return;
+    }
+
+    const providedSignature = Array.isArray(signature) ? signature[0] : signature;
+    if (!providedSignature.startsWith('sha256=')) {
+      logger.warn(`[GSMRS] ${options.name} HMAC 验证失败：签名格式错误`, {
+        ip: req.ip,
+        path: req.path,
+      });
+      res.status(401).json({ error: 'Unauthorized', reason: 'Malformed signature, expected sha256=<hex>' });
+      return;
+    }
+
+    // Get raw body (should be available if body-parser is configured with verify)
+    const rawBody = (req as any).rawBody || JSON.stringify(req.body);
+    const expectedSignature = computeHmacSignature(settings.secret, rawBody);
+
+    if (!safeCompare(expectedSignature, providedSignature)) {
+      logger.warn(`[GSMRS] ${options.name} HMAC 验证失败：签名不匹配`, {
+        ip: req.ip,
+        path: req.path,
+      });
+      res.status(401).json({ error: 'Unauthorized', reason: 'Invalid signature' });
+      return;
+    }
+
+    logger.debug(`[GSMRS] ${options.name} HMAC 验证通过`);
+    next();
+  };
+}
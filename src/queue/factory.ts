@@ -0,0 +1,32 @@
+/**
+ * 队列工厂模块
+ *
+ * 原理：
+ * - 根据配置中的 queue.type 选择队列实现（memory 或 file）
+ * - 未配置时默认使用内存队列，保持原有行为
+ * - 文件队列按名称区分日志文件，互不干扰
+ *
+ * 选型理由：
+ * - 工厂函数：调用方只依赖 MemoryQueue 公共接口，无需关心具体实现
+ */
+import * as path from 'path';
+import { ConfigLoader } from '../config/loader';
+import { MemoryQueue } from './memoryQueue';
+import { FileQueue } from './fileQueue';
+import { logger } from '../utils/logger';
+
+const DEFAULT_QUEUE_PATH = './data/queue';
+
+export function createQueue(name: string): MemoryQueue {
+  const config = ConfigLoader.getConfig();
+  const queueConfig = config.queue;
+
+  if (queueConfig?.type === 'file') {
+    const dir = path.resolve(process.cwd(), queueConfig.path || DEFAULT_QUEUE_PATH);
+    const filePath = path.join(dir, `${name}.journal`);
+    logger.info('[GSMRS] 使用持久化文件队列', { name, file: filePath });
+    return new FileQueue(filePath);
+  }
+
+  return new MemoryQueue();
+}
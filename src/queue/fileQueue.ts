@@ -0,0 +1,225 @@
+/**
+ * 持久化文件队列模块
+ *
+ * 原理：
+ * - 继承 MemoryQueue，处理逻辑完全一致，只在任务生命周期钩子中写入追加式日志（journal）
+ * - 每条日志一行 JSON（入队/重试/完成/取消/死信/重新入队/删除死信），使用同步追加写入，进程崩溃或直接退出也不会丢失已确认的状态
+ * - 启动时重放日志，恢复未完成任务（包括重试次数和计划的退避时间）以及死信队列
+ * - 重放后及写入一定条数后压缩日志，只保留当前仍有效的任务，防止文件无限增长
+ *
+ * 选型理由：
+ * - 追加式日志：实现简单，无需引入 SQLite 等原生依赖，Windows/Linux 均可直接使用
+ * - 同步写入：队列吞吐量较低，换取崩溃安全性是值得的
+ * - 继承而非重写：重试、退避、死信等行为与内存队列保持一致
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { QueueJob, JobFailure } from '../types';
+import { MemoryQueue } from './memoryQueue';
+import { logger } from '../utils/logger';
+
+type JournalEntry =
+  | { op: 'enqueue'; job: QueueJob }
+  | {
+      op: 'retry';
+      id: string;
+      retries: number;
+      rateLimited?: number;
+      nextAttemptAt?: number;
+      failures?: JobFailure[];
+      partsDelivered?: number;
+      firstMessageId?: number;
+    }
+  | { op: 'complete'; id: string }
+  | { op: 'cancel'; id: string }
+  | { op: 'dead'; job: QueueJob }
+  | { op: 'requeue'; job: QueueJob }
+  | { op: 'dlq_remove'; id: string }
+  | { op: 'clear_dlq' };
+
+export class FileQueue extends MemoryQueue {
+  private readonly filePath: string;
+  private pending: Map<string, QueueJob> = new Map();
+  private writesSinceCompaction: number = 0;
+  private readonly compactThreshold: number = 500;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.replay();
+    this.compact();
+    this.resumePending();
+  }
+
+  /**
+   * Rebuild pending jobs and DLQ from the journal
+   */
+  private replay(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // 崩溃时最后一行可能只写了一半
+        skipped++;
+        continue;
+      }
+
+      switch (entry.op) {
+        case 'enqueue':
+          this.pending.set(entry.job.id, entry.job);
+          break;
+        case 'retry': {
+          const job = this.pending.get(entry.id);
+          if (job) {
+            job.retries = entry.retries;
+            job.rateLimited = entry.rateLimited;
+            job.nextAttemptAt = entry.nextAttemptAt;
+            job.failures = entry.failures;
+            job.partsDelivered = entry.partsDelivered;
+            job.firstMessageId = entry.firstMessageId;
+          }
+          break;
+        }
+        case 'complete':
+        case 'cancel':
+          this.pending.delete(entry.id);
+          break;
+        case 'dead':
+          this.pending.delete(entry.job.id);
+          this.dlq.push(entry.job);
+          break;
+        case 'requeue':
+          this.dlq = this.dlq.filter(job => job.id !== entry.job.id);
+          this.pending.set(entry.job.id, entry.job);
+          break;
+        case 'dlq_remove': {
+          const id = entry.id;
+          this.dlq = this.dlq.filter(job => job.id !== id);
+          break;
+        }
+        case 'clear_dlq':
+          this.dlq = [];
+          break;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn('[GSMRS] 队列日志中存在无法解析的记录，已跳过', {
+        file: this.filePath,
+        skipped,
+      });
+    }
+
+    logger.info('[GSMRS] 队列日志重放完成', {
+      file: this.filePath,
+      pending: this.pending.size,
+      dlq: this.dlq.length,
+    });
+  }
+
+  /**
+   * Schedule recovered jobs, honoring their original backoff time
+   */
+  private resumePending(): void {
+    const now = Date.now();
+    for (const job of this.pending.values()) {
+      // Handlers are registered after construction, so always defer
+      const delay = Math.max(0, (job.nextAttemptAt || now) - now);
+      this.schedule(job, delay);
+    }
+  }
+
+  /**
+   * Rewrite the journal with only live state
+   */
+  private compact(): void {
+    const entries: JournalEntry[] = [
+      ...Array.from(this.pending.values()).map(job => ({ op: 'enqueue' as const, job })),
+      ...this.dlq.map(job => ({ op: 'dead' as const, job })),
+    ];
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, entries.map(e => JSON.stringify(e) + '\n').join(''), 'utf8');
+    fs.renameSync(tmpPath, this.filePath);
+    this.writesSinceCompaction = 0;
+  }
+
+  private append(entry: JournalEntry): void {
+    try {
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+      this.writesSinceCompaction++;
+      if (this.writesSinceCompaction >= this.compactThreshold) {
+        this.compact();
+      }
+    } catch (error: any) {
+      logger.error('[GSMRS] 写入队列日志失败', {
+        file: this.filePath,
+        error: error.message,
+      });
+    }
+  }
+
+  protected onEnqueue(job: QueueJob): void {
+    this.pending.set(job.id, job);
+    this.append({ op: 'enqueue', job });
+  }
+
+  protected onRetry(job: QueueJob): void {
+    this.append({
+      op: 'retry',
+      id: job.id,
+      retries: job.retries,
+      rateLimited: job.rateLimited,
+      nextAttemptAt: job.nextAttemptAt,
+      failures: job.failures,
+      partsDelivered: job.partsDelivered,
+      firstMessageId: job.firstMessageId,
+    });
+  }
+
+  protected onComplete(job: QueueJob): void {
+    this.pending.delete(job.id);
+    this.append({ op: 'complete', id: job.id });
+  }
+
+  protected onDead(job: QueueJob): void {
+    this.pending.delete(job.id);
+    this.append({ op: 'dead', job });
+  }
+
+  protected onCancel(job: QueueJob): void {
+    this.pending.delete(job.id);
+    this.append({ op: 'cancel', id: job.id });
+  }
+
+  protected onRequeue(job: QueueJob): void {
+    this.pending.set(job.id, job);
+    this.append({ op: 'requeue', job });
+  }
+
+  protected onRemoveDLQ(job: QueueJob): void {
+    this.append({ op: 'dlq_remove', id: job.id });
+  }
+
+  protected onClearDLQ(): void {
+    this.append({ op: 'clear_dlq' });
+  }
+}
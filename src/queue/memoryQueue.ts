@@ -1,50 +1,63 @@
 /**
  * 内存队列模块
- * 
+ *
  * 原理：
  * - 使用数组实现 FIFO 队列，按顺序处理消息
  * - 支持指数退避重试机制（1s, 2s, 4s...），提高成功率
+ * - 目标平台要求等待时（DeliveryResult.retryAfterMs，如 429），按该延迟重新调度，不消耗重试次数；
+ *   这类重新调度单独计数，超过上限后移入死信队列，避免一直被限流的任务永远留在队列中
  * - 实现死信队列（DLQ），存储超过最大重试次数的失败任务
  * - 使用 Map 存储处理器，支持不同目标类型的自定义处理逻辑
- * 
+ * - 任务生命周期（入队/重试/完成/死信）提供受保护的钩子，供持久化实现覆盖
+ * - 每次失败记录原因，死信任务支持查看、重新入队、删除，等待中的任务支持取消
+ * - 可按目标暂停投递，暂停期间该目标的任务被搁置，恢复后按原顺序重新入队；可指定时长，到期自动恢复（如 API 配额耗尽）
+ *
  * 选型理由：
  * - 内存实现：简单高效，适合单机部署，延迟低
  * - 指数退避：避免频繁重试导致资源浪费，提高成功率
  * - 死信队列：便于问题排查和手动重试
  * - 可扩展：未来可替换为 Redis 等分布式队列
  */
-import { QueueJob, NormalizedMessage } from '../types';
+import { QueueJob, NormalizedMessage, TargetType, DeliveryResult } from '../types';
 import { logger } from '../utils/logger';
 
-type JobHandler = (job: QueueJob) => Promise<boolean>;
+type JobHandler = (job: QueueJob) => Promise<boolean | DeliveryResult>;
 
 export class MemoryQueue {
-  private queue: QueueJob[] = [];
+  protected queue: QueueJob[] = [];
   private processing: boolean = false;
   private handlers: Map<string, JobHandler> = new Map();
-  private maxRetries: number = 3;
-  private retryDelay: number = 1000; // Initial delay in ms
-  private dlq: QueueJob[] = []; // Dead Letter Queue
+  protected maxRetries: number = 3;
+  protected retryDelay: number = 1000; // Initial delay in ms
+  protected maxRateLimited: number = 20; // Reschedules requested by the target, on top of maxRetries
+  protected dlq: QueueJob[] = []; // Dead Letter Queue
+  private scheduled: Map<string, { job: QueueJob; timer: NodeJS.Timeout }> = new Map();
+  private paused: Set<TargetType> = new Set();
+  private pauseTimers: Map<TargetType, { until: number; timer: NodeJS.Timeout }> = new Map();
+  private held: QueueJob[] = []; // Jobs of paused targets
 
   /**
    * Add job to queue
    */
   enqueue(
     message: NormalizedMessage,
-    target: 'telegram' | 'github' | 'mail' | 'api',
+    target: TargetType,
+    channel?: string,
     maxRetries: number = this.maxRetries
   ): string {
     const job: QueueJob = {
       id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       message,
       target,
+      channel,
       retries: 0,
       maxRetries,
       createdAt: Date.now(),
     };
 
+    this.onEnqueue(job);
     this.queue.push(job);
-    logger.debug('[GSMRS] 任务已入队', { jobId: job.id, target });
+    logger.debug('[GSMRS] 任务已入队', { jobId: job.id, target, channel });
 
     // Start processing if not already running
     if (!this.processing) {
@@ -61,6 +74,20 @@ export class MemoryQueue {
     this.handlers.set(target, handler);
   }
 
+  /**
+   * Put job back into the queue after delay
+   */
+  protected schedule(job: QueueJob, delay: number): void {
+    const timer = setTimeout(() => {
+      this.scheduled.delete(job.id);
+      this.queue.push(job);
+      if (!this.processing) {
+        this.process();
+      }
+    }, delay);
+    this.scheduled.set(job.id, { job, timer });
+  }
+
   /**
    * Process queue
    */
@@ -77,6 +104,11 @@ export class MemoryQueue {
         break;
       }
 
+      if (this.paused.has(job.target)) {
+        this.held.push(job);
+        continue;
+      }
+
       try {
         const handler = this.handlers.get(job.target);
         if (!handler) {
@@ -84,86 +116,261 @@ export class MemoryQueue {
             jobId: job.id,
             target: job.target,
           });
-          this.dlq.push(job);
+          this.recordFailure(job, `No handler registered for target: ${job.target}`);
+          this.moveToDLQ(job);
           continue;
         }
 
-        const success = await handler(job);
-
-        if (!success) {
-          // Retry logic
-          if (job.retries < job.maxRetries) {
-            job.retries++;
-            const delay = this.retryDelay * Math.pow(2, job.retries - 1); // Exponential backoff
-            
-            logger.info('[GSMRS] 任务失败，将重试', {
-              jobId: job.id,
-              retries: job.retries,
-              maxRetries: job.maxRetries,
-              delay,
-            });
-
-            // Re-queue with delay
-            setTimeout(() => {
-              this.queue.push(job);
-              if (!this.processing) {
-                this.process();
-              }
-            }, delay);
-          } else {
-            // Max retries reached, move to DLQ
-            logger.error('[GSMRS] 任务超过最大重试次数，移至死信队列', {
-              jobId: job.id,
-              target: job.target,
-              retries: job.retries,
-            });
-            this.dlq.push(job);
-          }
+        const raw = await handler(job);
+        const result: DeliveryResult = typeof raw === 'boolean' ? { success: raw } : raw;
+        if (result.partsDelivered !== undefined) {
+          job.partsDelivered = result.partsDelivered;
+          job.firstMessageId = result.messageId ?? job.firstMessageId;
+        }
+
+        if (!result.success) {
+          this.handleFailure(job, result.error || 'Delivery failed', result.retryAfterMs);
         } else {
           logger.debug('[GSMRS] 任务处理成功', {
             jobId: job.id,
             target: job.target,
           });
+          this.onComplete(job);
         }
       } catch (error: any) {
         logger.error('[GSMRS] 处理任务时出错', {
           jobId: job.id,
           error: error.message,
         });
-
-        if (job.retries < job.maxRetries) {
-          job.retries++;
-          const delay = this.retryDelay * Math.pow(2, job.retries - 1);
-          setTimeout(() => {
-            this.queue.push(job);
-            if (!this.processing) {
-              this.process();
-            }
-          }, delay);
-        } else {
-          this.dlq.push(job);
-        }
+        this.handleFailure(job, error.message);
       }
     }
 
     this.processing = false;
   }
 
+  private recordFailure(job: QueueJob, error: string): void {
+    job.failures = job.failures || [];
+    job.failures.push({
+      attempt: job.failures.length + 1,
+      at: Date.now(),
+      error,
+    });
+  }
+
+  /**
+   * Retry with exponential backoff or move to DLQ
+   */
+  private handleFailure(job: QueueJob, error: string, retryAfterMs?: number): void {
+    this.recordFailure(job, error);
+
+    if (retryAfterMs !== undefined) {
+      if ((job.rateLimited || 0) >= this.maxRateLimited) {
+        logger.error('[GSMRS] 任务被限流的次数超过上限，移至死信队列', {
+          jobId: job.id,
+          target: job.target,
+          rateLimited: job.rateLimited,
+          error,
+        });
+        this.moveToDLQ(job);
+        return;
+      }
+
+      job.rateLimited = (job.rateLimited || 0) + 1;
+      job.nextAttemptAt = Date.now() + retryAfterMs;
+      logger.warn('[GSMRS] 目标要求等待，按指定延迟重新调度', {
+        jobId: job.id,
+        target: job.target,
+        delay: retryAfterMs,
+        rateLimited: job.rateLimited,
+      });
+      this.onRetry(job);
+      this.schedule(job, retryAfterMs);
+      return;
+    }
+
+    if (job.retries < job.maxRetries) {
+      job.retries++;
+      const delay = this.retryDelay * Math.pow(2, job.retries - 1); // Exponential backoff
+      job.nextAttemptAt = Date.now() + delay;
+
+      logger.info('[GSMRS] 任务失败，将重试', {
+        jobId: job.id,
+        retries: job.retries,
+        maxRetries: job.maxRetries,
+        delay,
+        error,
+      });
+
+      this.onRetry(job);
+      this.schedule(job, delay);
+    } else {
+      // Max retries reached, move to DLQ
+      logger.error('[GSMRS] 任务超过最大重试次数，移至死信队列', {
+        jobId: job.id,
+        target: job.target,
+        retries: job.retries,
+        error,
+      });
+      this.moveToDLQ(job);
+    }
+  }
+
+  private moveToDLQ(job: QueueJob): void {
+    job.nextAttemptAt = undefined;
+    this.dlq.push(job);
+    this.onDead(job);
+  }
+
+  /**
+   * Lifecycle hooks, no-op for the in-memory implementation
+   */
+  protected onEnqueue(job: QueueJob): void {}
+
+  protected onRetry(job: QueueJob): void {}
+
+  protected onComplete(job: QueueJob): void {}
+
+  protected onDead(job: QueueJob): void {}
+
+  protected onCancel(job: QueueJob): void {}
+
+  protected onRequeue(job: QueueJob): void {}
+
+  protected onRemoveDLQ(job: QueueJob): void {}
+
+  protected onClearDLQ(): void {}
+
+  /**
+   * Stop delivering jobs of a target until resumed, or for a duration
+   */
+  pause(target: TargetType, durationMs?: number): void {
+    if (durationMs === undefined) {
+      this.clearPauseTimer(target);
+      this.paused.add(target);
+      logger.info('[GSMRS] 目标已暂停投递', { target });
+      return;
+    }
+
+    // 手动暂停不设到期时间，不会被定时暂停自动恢复；定时暂停只会延长
+    const until = Date.now() + durationMs;
+    const existing = this.pauseTimers.get(target);
+    if ((this.paused.has(target) && !existing) || (existing && existing.until >= until)) {
+      return;
+    }
+
+    this.clearPauseTimer(target);
+    this.paused.add(target);
+    const timer = setTimeout(() => {
+      this.pauseTimers.delete(target);
+      this.resume(target);
+    }, durationMs);
+    this.pauseTimers.set(target, { until, timer });
+    logger.info('[GSMRS] 目标已暂停投递，到期自动恢复', {
+      target,
+      until: new Date(until).toISOString(),
+    });
+  }
+
+  private clearPauseTimer(target: TargetType): void {
+    const existing = this.pauseTimers.get(target);
+    if (existing) {
+      clearTimeout(existing.timer);
+      this.pauseTimers.delete(target);
+    }
+  }
+
+  /**
+   * Resume a paused target and requeue its held jobs
+   */
+  resume(target: TargetType): number {
+    this.clearPauseTimer(target);
+    if (!this.paused.delete(target)) {
+      return 0;
+    }
+
+    const jobs = this.held.filter(job => job.target === target);
+    this.held = this.held.filter(job => job.target !== target);
+    this.queue.push(...jobs);
+    logger.info('[GSMRS] 目标已恢复投递', { target, requeued: jobs.length });
+
+    if (!this.processing) {
+      this.process();
+    }
+    return jobs.length;
+  }
+
+  isPaused(target: TargetType): boolean {
+    return this.paused.has(target);
+  }
+
   /**
    * Get queue stats
    */
   getStats(): {
     queueLength: number;
+    scheduledLength: number;
+    heldLength: number;
     dlqLength: number;
     processing: boolean;
+    paused: TargetType[];
+    pausedUntil: Partial<Record<TargetType, string>>;
   } {
     return {
       queueLength: this.queue.length,
+      scheduledLength: this.scheduled.size,
+      heldLength: this.held.length,
       dlqLength: this.dlq.length,
       processing: this.processing,
+      paused: Array.from(this.paused),
+      pausedUntil: Object.fromEntries(
+        Array.from(this.pauseTimers.entries()).map(([target, { until }]) => [target, new Date(until).toISOString()])
+      ),
     };
   }
 
+  /**
+   * Get jobs waiting in the queue or for a retry
+   */
+  getPending(): QueueJob[] {
+    return [
+      ...this.queue,
+      ...this.held,
+      ...Array.from(this.scheduled.values()).map(entry => entry.job),
+    ];
+  }
+
+  /**
+   * Find a pending or dead job by ID
+   */
+  getJob(jobId: string): QueueJob | undefined {
+    return this.getPending().find(job => job.id === jobId) ||
+      this.dlq.find(job => job.id === jobId);
+  }
+
+  /**
+   * Cancel a pending job
+   */
+  cancel(jobId: string): boolean {
+    const scheduled = this.scheduled.get(jobId);
+    if (scheduled) {
+      clearTimeout(scheduled.timer);
+      this.scheduled.delete(jobId);
+      this.onCancel(scheduled.job);
+      return true;
+    }
+
+    for (const list of [this.queue, this.held]) {
+      const index = list.findIndex(job => job.id === jobId);
+      if (index !== -1) {
+        const [job] = list.splice(index, 1);
+        this.onCancel(job);
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Get DLQ jobs
    */
@@ -171,11 +378,57 @@ export class MemoryQueue {
     return [...this.dlq];
   }
 
+  /**
+   * Move a dead job back into the queue with a fresh retry budget
+   */
+  retryDLQ(jobId: string): boolean {
+    const index = this.dlq.findIndex(job => job.id === jobId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [job] = this.dlq.splice(index, 1);
+    job.retries = 0;
+    job.rateLimited = undefined;
+    job.nextAttemptAt = undefined;
+    this.onRequeue(job);
+    this.queue.push(job);
+    logger.info('[GSMRS] 死信任务已重新入队', { jobId: job.id, target: job.target });
+
+    if (!this.processing) {
+      this.process();
+    }
+    return true;
+  }
+
+  /**
+   * Requeue all dead jobs, optionally only for one target
+   */
+  retryDLQByTarget(target?: TargetType): number {
+    const jobIds = this.dlq
+      .filter(job => !target || job.target === target)
+      .map(job => job.id);
+    return jobIds.filter(id => this.retryDLQ(id)).length;
+  }
+
+  /**
+   * Delete a single DLQ entry
+   */
+  removeDLQ(jobId: string): boolean {
+    const index = this.dlq.findIndex(job => job.id === jobId);
+    if (index === -1) {
+      return false;
+    }
+    const [job] = this.dlq.splice(index, 1);
+    this.onRemoveDLQ(job);
+    return true;
+  }
+
   /**
    * Clear DLQ
    */
   clearDLQ(): void {
     this.dlq = [];
+    this.onClearDLQ();
   }
 }
-
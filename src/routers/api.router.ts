@@ -3,9 +3,13 @@
  * 
  * 原理：
  * - 提供统一的 HTTP API 接口，支持手动发送消息
- * - 支持指定单个目标或发送到所有启用的目标
+ * - 支持指定单个目标，或按路由规则选择目标
  * - 提供队列统计和死信队列查询接口
- * - 提供综合健康检查，检查所有服务的状态
+ * - 提供死信队列管理接口：查看详情、单个/批量重试、删除、清空，以及等待中任务的查询和取消
+ * - 提供隔离区管理接口：查看被扣留的疑似垃圾消息，放行到原目标或丢弃
+ * - 提供综合健康检查，检查所有服务的状态（启用入站邮件时包含 SMTP 监听状态）
+ * - 服务和队列由启动时创建的分发器注入，统计和死信队列覆盖所有来源的消息
+ * - 死信队列、等待中任务和隔离区接口会暴露完整消息并可放行或删除消息，始终经过管理认证
  * 
  * 选型理由：
  * - RESTful API：标准 HTTP 接口，易于集成
@@ -13,184 +17,324 @@
  * - 监控接口：便于运维和问题排查
  */
 import { Router, Request, Response } from 'express';
-import { NormalizedMessage } from '../types';
+import { QueueJob, TargetRef, TargetType } from '../types';
 import { MessageSanitizer } from '../services/sanitizer';
-import { TelegramService } from '../services/telegram.service';
-import { GitHubService } from '../services/github.service';
-import { MailService } from '../services/mail.service';
-import { MemoryQueue } from '../queue/memoryQueue';
+import { Dispatcher } from '../services/dispatcher';
+import { MailReceiver } from '../services/mailReceiver';
+import { TARGET_TYPES, parseTargetRef } from '../services/routing';
 import { ConfigLoader } from '../config/loader';
+import { adminAuthMiddleware } from '../middlewares/auth';
 import { logger } from '../utils/logger';
 
-const router = Router();
+/**
+ * Summary of a job for list endpoints
+ */
+function summarizeJob(job: QueueJob) {
+  const lastFailure = job.failures?.[job.failures.length - 1];
+  return {
+    id: job.id,
+    target: job.target,
+    channel: job.channel,
+    retries: job.retries,
+    maxRetries: job.maxRetries,
+    createdAt: job.createdAt,
+    nextAttemptAt: job.nextAttemptAt,
+    messageId: job.message.id,
+    lastError: lastFailure?.error,
+  };
+}
 
-let telegramService: TelegramService;
-let githubService: GitHubService;
-let mailService: MailService;
-let messageQueue: MemoryQueue;
+export function createApiRouter(dispatcher: Dispatcher, mailReceiver?: MailReceiver): Router {
+  const router = Router();
 
-// Initialize services
-function initializeServices(): void {
-  telegramService = new TelegramService();
-  githubService = new GitHubService();
-  mailService = new MailService();
-  messageQueue = new MemoryQueue();
+  // 管理接口：未配置管理令牌且未启用 API 签名验证时拒绝访问
+  router.use(['/queue/dlq', '/queue/pending', '/quarantine'], adminAuthMiddleware);
+  const auth = ConfigLoader.getConfig().security.auth;
+  if (!auth?.admin?.token && !auth?.api?.enable) {
+    logger.warn('[GSMRS] 未配置 security.auth.admin.token 或 security.auth.api，死信队列和隔离区管理接口不可用');
+  }
 
-  // Register queue handlers
-  messageQueue.registerHandler('telegram', async (job) => {
-    return telegramService.sendMessage(job.message);
-  });
+  /**
+   * Generic API endpoint to send messages to any target
+   */
+  router.post('/send', async (req: Request, res: Response) => {
+    try {
+      const { title, content, format, author, target, metadata } = req.body;
 
-  messageQueue.registerHandler('github', async (job) => {
-    return githubService.postComment(job.message);
-  });
+      if (!content) {
+        return res.status(400).json({ error: 'Content is required' });
+      }
+      if (target !== undefined && typeof target !== 'string') {
+        return res.status(400).json({ error: 'Target must be a string' });
+      }
 
-  messageQueue.registerHandler('mail', async (job) => {
-    return mailService.sendEmail(job.message);
-  });
-}
+      // Normalize message
+      const normalized = MessageSanitizer.normalize('api', {
+        title,
+        content,
+        format,
+        author,
+        metadata,
+      });
 
-initializeServices();
+      // Sanitize
+      const config = ConfigLoader.getConfig();
+      const sanitized = MessageSanitizer.sanitizeMessage(
+        normalized,
+        config.security.hide_sensitive
+      );
 
-/**
- * Generic API endpoint to send messages to any target
- */
-router.post('/send', async (req: Request, res: Response) => {
-  try {
-    const { title, content, author, target, metadata } = req.body;
+      // Determine targets
+      const targets: TargetRef[] = [];
+    
+      if (target) {
+        // Single target or named channel specified, e.g. "telegram" or "telegram:ops"
+        const { target: platform } = parseTargetRef(target);
+        if (TARGET_TYPES.includes(platform) && dispatcher.routing.isKnownTarget(target)) {
+          targets.push(target as TargetRef);
+        } else {
+          return res.status(400).json({ error: 'Invalid target' });
+        }
+      } else {
+        // Resolve targets with routing rules
+        targets.push(...dispatcher.routing.resolve(sanitized));
+      }
+
+      if (targets.length === 0) {
+        return res.status(400).json({ error: 'No enabled targets matched' });
+      }
 
-    if (!content) {
-      return res.status(400).json({ error: 'Content is required' });
+      // Screen and queue messages
+      const queued = dispatcher.route(sanitized, targets);
+      const quarantined = dispatcher.quarantine?.get(sanitized.id)?.targets || [];
+
+      logger.info('[GSMRS] API 消息已入队', {
+        messageId: sanitized.id,
+        targets: queued,
+        quarantined,
+      });
+
+      res.json({
+        success: true,
+        messageId: sanitized.id,
+        targets: queued,
+        ...(quarantined.length > 0 ? { quarantined } : {}),
+      });
+    } catch (error: any) {
+      logger.error('[GSMRS] 处理 API 请求时出错', {
+        error: error.message,
+        stack: error.stack,
+      });
+      res.status(500).json({ error: 'Internal server error' });
     }
+  });
 
-    // Normalize message
-    const normalized = MessageSanitizer.normalize('api', {
-      title,
-      content,
-      author,
-      metadata,
-    });
+  /**
+   * 获取队列统计信息
+   */
+  router.get('/queue/stats', (req: Request, res: Response) => {
+    try {
+      const stats = dispatcher.getStats();
+      res.json(stats);
+    } catch (error: any) {
+      logger.error('[GSMRS] 获取队列统计时出错', { error: error.message });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
 
-    // Sanitize
-    const config = ConfigLoader.getConfig();
-    const sanitized = MessageSanitizer.sanitizeMessage(
-      normalized,
-      config.security.hide_sensitive
-    );
+  /**
+   * 获取死信队列（DLQ）
+   */
+  router.get('/queue/dlq', (req: Request, res: Response) => {
+    try {
+      const dlq = dispatcher.queue.getDLQ();
+      res.json({
+        count: dlq.length,
+        jobs: dlq.map(summarizeJob),
+      });
+    } catch (error: any) {
+      logger.error('[GSMRS] 获取死信队列时出错', { error: error.message });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
 
-    // Determine targets
-    const targets: Array<'telegram' | 'github' | 'mail'> = [];
-    
-    if (target) {
-      // Single target specified
-      if (['telegram', 'github', 'mail'].includes(target)) {
-        targets.push(target as 'telegram' | 'github' | 'mail');
-      } else {
+  /**
+   * 重试死信队列中的全部任务（可按目标过滤）
+   */
+  router.post('/queue/dlq/retry', (req: Request, res: Response) => {
+    try {
+      const { target } = req.body || {};
+      if (target && !TARGET_TYPES.includes(target)) {
         return res.status(400).json({ error: 'Invalid target' });
       }
-    } else {
-      // Send to all enabled targets
-      const config = ConfigLoader.getConfig();
-      if (config.telegram?.enable) targets.push('telegram');
-      if (config.github?.enable) targets.push('github');
-      if (config.mail?.enable) targets.push('mail');
+
+      const retried = dispatcher.queue.retryDLQByTarget(target as TargetType | undefined);
+      logger.info('[GSMRS] 死信任务已批量重新入队', { target: target || 'all', retried });
+      res.json({ success: true, retried });
+    } catch (error: any) {
+      logger.error('[GSMRS] 批量重试死信任务时出错', { error: error.message });
+      res.status(500).json({ error: 'Internal server error' });
     }
+  });
 
-    if (targets.length === 0) {
-      return res.status(400).json({ error: 'No enabled targets' });
+  /**
+   * 清空死信队列
+   */
+  router.delete('/queue/dlq', (req: Request, res: Response) => {
+    try {
+      const count = dispatcher.queue.getDLQ().length;
+      dispatcher.queue.clearDLQ();
+      logger.info('[GSMRS] 死信队列已清空', { count });
+      res.json({ success: true, removed: count });
+    } catch (error: any) {
+      logger.error('[GSMRS] 清空死信队列时出错', { error: error.message });
+      res.status(500).json({ error: 'Internal server error' });
     }
+  });
 
-    // Queue messages
-    for (const t of targets) {
-      messageQueue.enqueue(sanitized, t);
+  /**
+   * 查看单个死信任务（完整消息和每次失败原因）
+   */
+  router.get('/queue/dlq/:id', (req: Request, res: Response) => {
+    const job = dispatcher.queue.getDLQ().find(j => j.id === req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found in DLQ' });
     }
+    res.json(job);
+  });
 
-    logger.info('[GSMRS] API 消息已入队', {
-      messageId: sanitized.id,
-      targets,
-    });
+  /**
+   * 重试单个死信任务
+   */
+  router.post('/queue/dlq/:id/retry', (req: Request, res: Response) => {
+    if (!dispatcher.queue.retryDLQ(req.params.id)) {
+      return res.status(404).json({ error: 'Job not found in DLQ' });
+    }
+    res.json({ success: true, jobId: req.params.id });
+  });
 
-    res.json({
-      success: true,
-      messageId: sanitized.id,
-      targets,
-    });
-  } catch (error: any) {
-    logger.error('[GSMRS] 处理 API 请求时出错', {
-      error: error.message,
-      stack: error.stack,
-    });
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  /**
+   * 删除单个死信任务
+   */
+  router.delete('/queue/dlq/:id', (req: Request, res: Response) => {
+    if (!dispatcher.queue.removeDLQ(req.params.id)) {
+      return res.status(404).json({ error: 'Job not found in DLQ' });
+    }
+    logger.info('[GSMRS] 死信任务已删除', { jobId: req.params.id });
+    res.json({ success: true, jobId: req.params.id });
+  });
 
-/**
- * 获取队列统计信息
- */
-router.get('/queue/stats', (req: Request, res: Response) => {
-  try {
-    const stats = messageQueue.getStats();
-    res.json(stats);
-  } catch (error: any) {
-    logger.error('[GSMRS] 获取队列统计时出错', { error: error.message });
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  /**
+   * 获取等待中的任务（包括等待重试的任务）
+   */
+  router.get('/queue/pending', (req: Request, res: Response) => {
+    try {
+      const pending = dispatcher.queue.getPending();
+      res.json({
+        count: pending.length,
+        jobs: pending.map(summarizeJob),
+      });
+    } catch (error: any) {
+      logger.error('[GSMRS] 获取等待中任务时出错', { error: error.message });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
 
-/**
- * 获取死信队列（DLQ）
- */
-router.get('/queue/dlq', (req: Request, res: Response) => {
-  try {
-    const dlq = messageQueue.getDLQ();
+  /**
+   * 取消等待中的任务
+   */
+  router.delete('/queue/pending/:id', (req: Request, res: Response) => {
+    if (!dispatcher.queue.cancel(req.params.id)) {
+      return res.status(404).json({ error: 'Pending job not found' });
+    }
+    logger.info('[GSMRS] 任务已取消', { jobId: req.params.id });
+    res.json({ success: true, jobId: req.params.id });
+  });
+
+  /**
+   * 获取隔离区中的消息
+   */
+  router.get('/quarantine', (req: Request, res: Response) => {
+    if (!dispatcher.quarantine) {
+      return res.status(404).json({ error: 'Quarantine is disabled' });
+    }
+
+    const entries = dispatcher.quarantine.list();
     res.json({
-      count: dlq.length,
-      jobs: dlq.map(job => ({
-        id: job.id,
-        target: job.target,
-        retries: job.retries,
-        maxRetries: job.maxRetries,
-        createdAt: job.createdAt,
-        messageId: job.message.id,
+      count: entries.length,
+      entries: entries.map(entry => ({
+        id: entry.id,
+        source: entry.message.source,
+        author: entry.message.author,
+        title: entry.message.title,
+        targets: entry.targets,
+        rule: entry.rule,
+        reason: entry.reason,
+        quarantinedAt: entry.quarantinedAt,
       })),
     });
-  } catch (error: any) {
-    logger.error('[GSMRS] 获取死信队列时出错', { error: error.message });
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  });
 
-/**
- * 综合健康检查端点
- */
-router.get('/health', async (req: Request, res: Response) => {
-  try {
-    const config = ConfigLoader.getConfig();
-    const health: any = {
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      services: {},
-    };
-
-    if (config.telegram?.enable) {
-      health.services.telegram = await telegramService.healthCheck();
+  /**
+   * 查看单条隔离消息（完整消息）
+   */
+  router.get('/quarantine/:id', (req: Request, res: Response) => {
+    const entry = dispatcher.quarantine?.get(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Message not found in quarantine' });
     }
-    if (config.github?.enable) {
-      health.services.github = await githubService.healthCheck();
+    res.json(entry);
+  });
+
+  /**
+   * 放行隔离消息，重新入队到被扣留的目标
+   */
+  router.post('/quarantine/:id/release', (req: Request, res: Response) => {
+    const entry = dispatcher.quarantine?.release(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Message not found in quarantine' });
     }
-    if (config.mail?.enable) {
-      health.services.mail = await mailService.healthCheck();
+
+    const jobIds = dispatcher.dispatch(entry.message, entry.targets);
+    logger.info('[GSMRS] 隔离消息已放行', { messageId: entry.id, targets: entry.targets });
+    res.json({ success: true, messageId: entry.id, targets: entry.targets, jobIds });
+  });
+
+  /**
+   * 丢弃隔离消息
+   */
+  router.delete('/quarantine/:id', (req: Request, res: Response) => {
+    if (!dispatcher.quarantine?.discard(req.params.id)) {
+      return res.status(404).json({ error: 'Message not found in quarantine' });
     }
+    logger.info('[GSMRS] 隔离消息已丢弃', { messageId: req.params.id });
+    res.json({ success: true, messageId: req.params.id });
+  });
 
-    const allHealthy = Object.values(health.services).every((h: any) => h === true);
-    health.status = allHealthy ? 'ok' : 'degraded';
+  /**
+   * 综合健康检查端点
+   */
+  router.get('/health', async (req: Request, res: Response) => {
+    try {
+      const health: any = {
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        services: await dispatcher.healthCheck(),
+      };
+      if (mailReceiver) {
+        health.mailInbound = mailReceiver.getStatus();
+      }
 
-    res.json(health);
-  } catch (error: any) {
-    logger.error('[GSMRS] 健康检查出错', { error: error.message });
-    res.status(500).json({ error: 'Health check failed' });
-  }
-});
+      const allHealthy = Object.values(health.services).every((h: any) => h === true);
+      health.status = allHealthy ? 'ok' : 'degraded';
 
-export default router;
+      res.json(health);
+    } catch (error: any) {
+      logger.error('[GSMRS] 健康检查出错', { error: error.message });
+      res.status(500).json({ error: 'Health check failed' });
+    }
+  });
+
+  return router;
+}
 
@@ -2,145 +2,132 @@
  * GitHub 路由模块
  * 
  * 原理：
- * - 接收 GitHub Webhook 推送的 Issue 相关事件
+ * - 接收 GitHub Webhook 推送的 Issue、评论、PR、Push、Release、CI 失败、讨论、Star/Fork 等事件
+ * - 按事件/动作白名单（github.events）过滤，每种事件由独立的标准化函数转换
  * - 自动过滤 Bot 用户，防止无限循环
- * - 使用事件 ID 去重，避免重复处理
- * - 将消息转发到其他平台（Telegram、邮件等）
+ * - 使用 X-GitHub-Delivery 投递 ID 去重，GitHub 重新投递同一事件时不会重复转发；
+ *   投递 ID 在消息入队后才记录，处理出错返回 500 时 GitHub 的重新投递仍会被处理
+ * - 根据路由规则将消息转发到其他平台（Telegram、邮件等）
+ * - 服务和队列由启动时创建的分发器注入，与其他路由共享
  * 
  * 选型理由：
- * - 事件去重：使用内存 Set，简单高效
+ * - 投递 ID 去重：GitHub 重试和手动重新投递都会复用同一 ID，比按事件内容拼接的键更可靠
  * - Bot 检测：防止自触发导致的循环
  * - 队列处理：异步转发，不阻塞 Webhook 响应
  */
 import { Router, Request, Response } from 'express';
 import { GitHubWebhookPayload } from '../types';
 import { MessageSanitizer } from '../services/sanitizer';
-import { TelegramService } from '../services/telegram.service';
-import { GitHubService } from '../services/github.service';
-import { MailService } from '../services/mail.service';
-import { MemoryQueue } from '../queue/memoryQueue';
+import { Dispatcher } from '../services/dispatcher';
 import { ConfigLoader } from '../config/loader';
-import { logger, safeLog } from '../utils/logger';
-import { hmacMiddleware } from '../middlewares/hmac';
-
-const router = Router();
-
-let telegramService: TelegramService;
-let githubService: GitHubService;
-let mailService: MailService;
-let messageQueue: MemoryQueue;
-
-// Initialize services
-function initializeServices(): void {
-  telegramService = new TelegramService();
-  githubService = new GitHubService();
-  mailService = new MailService();
-  messageQueue = new MemoryQueue();
-
-  // Register queue handlers
-  messageQueue.registerHandler('telegram', async (job) => {
-    return telegramService.sendMessage(job.message);
-  });
-
-  messageQueue.registerHandler('mail', async (job) => {
-    return mailService.sendEmail(job.message);
-  });
-}
-
-initializeServices();
-
-/**
- * GitHub webhook endpoint
- * 注意：此端点需要 HMAC 验证
- */
-router.post('/webhook', hmacMiddleware, async (req: Request, res: Response) => {
-  try {
-    const payload: GitHubWebhookPayload = req.body;
-    const eventType = req.headers['x-github-event'] as string;
-
-    // 忽略 Bot 用户，防止无限循环
-    if (githubService.isBotUser(payload.sender)) {
-      logger.info('[GSMRS] 忽略来自 Bot 用户的消息', {
-        sender: payload.sender?.login,
+import { logger } from '../utils/logger';
+import { githubAuthMiddleware } from '../middlewares/auth';
+import {
+  isGitHubEventAllowed,
+  missingGitHubPayloadField,
+  shouldForwardGitHubEvent,
+} from '../services/githubEvents';
+
+export function createGitHubRouter(dispatcher: Dispatcher): Router {
+  const router = Router();
+
+  /**
+   * GitHub webhook endpoint
+   * 注意：此端点需要 GitHub 签名验证（X-Hub-Signature-256）
+   */
+  router.post('/webhook', githubAuthMiddleware, async (req: Request, res: Response) => {
+    try {
+      const payload: GitHubWebhookPayload = req.body;
+      const eventType = req.headers['x-github-event'] as string;
+
+      // 忽略 Bot 用户，防止无限循环
+      if (dispatcher.github.isBotUser(payload.sender)) {
+        logger.info('[GSMRS] 忽略来自 Bot 用户的消息', {
+          sender: payload.sender?.login,
+        });
+        return res.json({ success: true, message: 'Ignored bot user' });
+      }
+
+      // 去重：同一投递 ID 只处理一次
+      const deliveryId = req.headers['x-github-delivery'] as string | undefined;
+      const deliveryKey = deliveryId ? `github:${deliveryId}` : undefined;
+      if (deliveryKey && dispatcher.isDuplicate(deliveryKey)) {
+        logger.info('[GSMRS] 重复的 GitHub 投递，跳过', { deliveryId, eventType });
+        return res.json({ success: true, message: 'Duplicate delivery ignored' });
+      }
+
+      if (eventType === 'ping') {
+        return res.json({ success: true, message: 'pong' });
+      }
+
+      // 事件/动作白名单
+      if (!isGitHubEventAllowed(eventType, payload.action)) {
+        logger.debug('[GSMRS] 事件不在白名单中，跳过', { eventType, action: payload.action });
+        return res.json({ success: true, message: 'Event type not handled' });
+      }
+
+      const missingField = missingGitHubPayloadField(eventType, payload);
+      if (missingField) {
+        return res.status(400).json({ error: `Invalid payload: no ${missingField}` });
+      }
+
+      // 例如成功的 workflow_run / check_run
+      if (!shouldForwardGitHubEvent(eventType, payload)) {
+        return res.json({ success: true, message: 'Event filtered' });
+      }
+
+      // Normalize message
+      const normalized = MessageSanitizer.normalize('github', payload, eventType);
+    
+      // Sanitize
+      const config = ConfigLoader.getConfig();
+      const sanitized = MessageSanitizer.sanitizeMessage(
+        normalized,
+        config.security.hide_sensitive
+      );
+
+      logger.info('[GSMRS] 收到 GitHub Webhook', {
+        messageId: sanitized.id,
+        eventType,
+        action: payload.action,
+        url: sanitized.metadata?.url,
       });
-      return res.json({ success: true, message: 'Ignored bot user' });
-    }
-
-    // 去重：检查事件是否已处理
-    const eventId = `${eventType}_${payload.issue?.number}_${Date.now()}`;
-    if (githubService.isEventProcessed(eventId)) {
-      logger.info('[GSMRS] 事件已处理，跳过', { eventId });
-      return res.json({ success: true, message: 'Event already processed' });
-    }
-    githubService.markEventProcessed(eventId);
 
-    // Only process issue events
-    if (eventType !== 'issues' && eventType !== 'issue_comment') {
-      return res.json({ success: true, message: 'Event type not handled' });
-    }
-
-    if (!payload.issue) {
-      return res.status(400).json({ error: 'Invalid payload: no issue' });
+      // Route and queue messages
+      const targets = dispatcher.route(sanitized);
+      if (deliveryKey) {
+        dispatcher.markProcessed(deliveryKey);
+      }
+
+      res.json({ success: true, messageId: sanitized.id, targets });
+    } catch (error: any) {
+      logger.error('[GSMRS] 处理 GitHub Webhook 时出错', {
+        error: error.message,
+        stack: error.stack,
+      });
+      res.status(500).json({ error: 'Internal server error' });
     }
+  });
 
-    // Normalize message
-    const normalized = MessageSanitizer.normalize('github', payload);
-    
-    // Sanitize
-    const config = ConfigLoader.getConfig();
-    const sanitized = MessageSanitizer.sanitizeMessage(
-      normalized,
-      config.security.hide_sensitive
-    );
-
-    logger.info('[GSMRS] 收到 GitHub Webhook', {
-      messageId: sanitized.id,
-      eventType,
-      issueNumber: payload.issue.number,
-      action: payload.action,
-    });
-
-    // Queue messages to enabled targets
-    const targets: Array<'telegram' | 'mail'> = [];
+  /**
+   * GitHub 服务健康检查
+   */
+  router.get('/health', async (req: Request, res: Response) => {
+    try {
+      const isHealthy = await dispatcher.github.healthCheck();
     
-    if (config.telegram?.enable) {
-      targets.push('telegram');
-    }
-    if (config.mail?.enable) {
-      targets.push('mail');
-    }
-
-    // Send to all targets via queue
-    for (const target of targets) {
-      messageQueue.enqueue(sanitized, target);
+      res.json({
+        service: 'github',
+        healthy: isHealthy,
+        rateLimit: dispatcher.github.getRateLimit() || null,
+        paused: dispatcher.queue.isPaused('github'),
+      });
+    } catch (error: any) {
+      logger.error('[GSMRS] GitHub 健康检查出错', { error: error.message });
+      res.status(500).json({ error: 'Health check failed' });
     }
+  });
 
-    res.json({ success: true, messageId: sanitized.id });
-  } catch (error: any) {
-    logger.error('[GSMRS] 处理 GitHub Webhook 时出错', {
-      error: error.message,
-      stack: error.stack,
-    });
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-/**
- * GitHub 服务健康检查
- */
-router.get('/health', async (req: Request, res: Response) => {
-  try {
-    const isHealthy = await githubService.healthCheck();
-    
-    res.json({
-      service: 'github',
-      healthy: isHealthy,
-    });
-  } catch (error: any) {
-    logger.error('[GSMRS] GitHub 健康检查出错', { error: error.message });
-    res.status(500).json({ error: 'Health check failed' });
-  }
-});
-
-export default router;
+  return router;
+}
 
@@ -0,0 +1,65 @@
+/**
+ * 媒体文件路由模块
+ *
+ * 原理：
+ * - 提供 GET /media/:id，返回媒体存储中的附件，供 GitHub 评论等外部平台引用
+ * - 只有固定列表中的栅格图片和音视频内联显示（MIME 类型由发送方声明，SVG 等可执行脚本的类型不在其中），
+ *   其他类型以附件形式下载；响应禁止浏览器猜测内容类型，并以 CSP sandbox 禁止执行任何脚本
+ * - 文件在元数据查询后被清理或读取失败时返回 404 / 500，已开始发送时中断连接
+ * - 文件 ID 为 128 位随机值，不需要额外认证
+ *
+ * 选型理由：
+ * - 流式返回：大文件不占用内存
+ */
+import { Router, Request, Response } from 'express';
+import * as fs from 'fs';
+import { Dispatcher } from '../services/dispatcher';
+import { isInlineMediaType } from '../services/media';
+import { logger } from '../utils/logger';
+
+export function createMediaRouter(dispatcher: Dispatcher): Router {
+  const router = Router();
+
+  /**
+   * 获取媒体文件
+   */
+  router.get('/:id', (req: Request, res: Response) => {
+    try {
+      const media = dispatcher.media.get(req.params.id);
+      if (!media) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+
+      const disposition = isInlineMediaType(media.mimeType) ? 'inline' : 'attachment';
+      const stream = fs.createReadStream(media.path);
+
+      // 文件打开后再设置响应头，打开失败时还能返回错误状态
+      stream.on('open', () => {
+        res.setHeader('Content-Type', media.mimeType);
+        res.setHeader('Content-Length', media.size);
+        res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(media.name)}`);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox");
+        res.setHeader('Cache-Control', 'private, max-age=86400');
+        stream.pipe(res);
+      });
+      stream.on('error', (error: NodeJS.ErrnoException) => {
+        logger.error('[GSMRS] 读取媒体文件时出错', { mediaId: req.params.id, error: error.message });
+        if (res.headersSent) {
+          res.destroy(error);
+        } else if (error.code === 'ENOENT') {
+          res.status(404).json({ error: 'Media not found' });
+        } else {
+          res.status(500).json({ error: 'Internal server error' });
+        }
+      });
+      // 客户端提前断开时关闭文件
+      res.on('close', () => stream.destroy());
+    } catch (error: any) {
+      logger.error('[GSMRS] 读取媒体文件时出错', { error: error.message });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
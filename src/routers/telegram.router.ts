@@ -2,10 +2,11 @@
  * Telegram 路由模块
  * 
  * 原理：
- * - 接收 Telegram Bot Webhook 推送的消息
- * - 将消息标准化并清理敏感信息
- * - 根据配置将消息转发到其他平台（GitHub、邮件等）
+ * - 接收 Telegram Bot Webhook 推送的消息（长轮询模式下由 TelegramPoller 拉取）
+ * - 更新经 TelegramUpdateProcessor 处理：update_id 去重、Bot 命令、标准化、清理敏感信息、按路由规则转发
  * - 使用队列异步处理，提高响应速度
+ * - 健康检查报告当前接入模式以及长轮询的最近一次拉取时间
+ * - 服务和队列由启动时创建的分发器注入，与其他路由共享
  * 
  * 选型理由：
  * - Express Router：模块化路由，代码组织清晰
@@ -14,116 +15,70 @@
  */
 import { Router, Request, Response } from 'express';
 import { TelegramMessage } from '../types';
-import { MessageSanitizer } from '../services/sanitizer';
-import { TelegramService } from '../services/telegram.service';
-import { GitHubService } from '../services/github.service';
-import { MailService } from '../services/mail.service';
-import { MemoryQueue } from '../queue/memoryQueue';
+import { Dispatcher } from '../services/dispatcher';
 import { ConfigLoader } from '../config/loader';
-import { logger, safeLog } from '../utils/logger';
-import { hmacMiddleware } from '../middlewares/hmac';
+import { logger } from '../utils/logger';
+import { telegramAuthMiddleware } from '../middlewares/auth';
+import { TelegramUpdateProcessor } from '../services/telegramUpdates';
+import { TelegramPoller } from '../services/telegramPoller';
 
-const router = Router();
+export function createTelegramRouter(dispatcher: Dispatcher, poller?: TelegramPoller): Router {
+  const router = Router();
+  const processor = new TelegramUpdateProcessor(dispatcher);
 
-let telegramService: TelegramService;
-let githubService: GitHubService;
-let mailService: MailService;
-let messageQueue: MemoryQueue;
-
-// Initialize services
-function initializeServices(): void {
-  telegramService = new TelegramService();
-  githubService = new GitHubService();
-  mailService = new MailService();
-  messageQueue = new MemoryQueue();
-
-  // Register queue handlers
-  messageQueue.registerHandler('telegram', async (job) => {
-    return telegramService.sendMessage(job.message);
-  });
-
-  messageQueue.registerHandler('github', async (job) => {
-    return githubService.postComment(job.message);
-  });
-
-  messageQueue.registerHandler('mail', async (job) => {
-    return mailService.sendEmail(job.message);
-  });
-}
-
-initializeServices();
-
-/**
- * Telegram webhook endpoint
- * 注意：此端点需要 HMAC 验证（在 index.ts 中已应用）
- */
-router.post('/webhook', hmacMiddleware, async (req: Request, res: Response) => {
-  try {
-    const payload: TelegramMessage = req.body;
+  if (!poller && !ConfigLoader.getConfig().security.auth?.telegram?.secret_token) {
+    logger.warn('[GSMRS] 未配置 security.auth.telegram.secret_token，Telegram Webhook 将不做认证');
+  }
 
-    if (!payload.message) {
-      return res.status(400).json({ error: 'Invalid payload: no message' });
+  /**
+   * Telegram webhook endpoint
+   * 注意：此端点使用 Telegram Secret Token 认证（security.auth.telegram）
+   */
+  router.post('/webhook', telegramAuthMiddleware, async (req: Request, res: Response) => {
+    try {
+      const payload: TelegramMessage = req.body;
+      const outcome = await processor.process(payload);
+
+      switch (outcome.status) {
+        case 'invalid':
+          return res.status(400).json({ error: 'Invalid payload: no message' });
+        case 'duplicate':
+          return res.json({ success: true, message: 'Duplicate update ignored' });
+        case 'command':
+          return res.json({ success: true, message: 'Command handled' });
+        default:
+          return res.json({ success: true, messageId: outcome.messageId, targets: outcome.targets });
+      }
+    } catch (error: any) {
+      logger.error('[GSMRS] 处理 Telegram Webhook 时出错', {
+        error: error.message,
+        stack: error.stack,
+      });
+      res.status(500).json({ error: 'Internal server error' });
     }
+  });
 
-    // Normalize message
-    const normalized = MessageSanitizer.normalize('telegram', payload);
-    
-    // Sanitize
-    const config = ConfigLoader.getConfig();
-    const sanitized = MessageSanitizer.sanitizeMessage(
-      normalized,
-      config.security.hide_sensitive
-    );
-
-    logger.info('[GSMRS] 收到 Telegram 消息', {
-      messageId: sanitized.id,
-      chatId: sanitized.metadata?.chatId,
-      author: sanitized.author,
-    });
-
-    // Queue messages to all enabled targets
-    const targets: Array<'telegram' | 'github' | 'mail'> = [];
+  /**
+   * Telegram 服务健康检查
+   */
+  router.get('/health', async (req: Request, res: Response) => {
+    try {
+      const isHealthy = await dispatcher.telegram.healthCheck();
+      const botInfo = await dispatcher.telegram.getBotInfo();
     
-    if (config.github?.enable) {
-      targets.push('github');
+      res.json({
+        service: 'telegram',
+        healthy: isHealthy,
+        bot: botInfo,
+        mode: poller ? 'polling' : 'webhook',
+        polling: poller?.getStatus(),
+      });
+    } catch (error: any) {
+      logger.error('[GSMRS] Telegram 健康检查出错', { error: error.message });
+      res.status(500).json({ error: 'Health check failed' });
     }
-    if (config.mail?.enable) {
-      targets.push('mail');
-    }
-
-    // Send to all targets via queue
-    for (const target of targets) {
-      messageQueue.enqueue(sanitized, target);
-    }
-
-    res.json({ success: true, messageId: sanitized.id });
-  } catch (error: any) {
-    logger.error('[GSMRS] 处理 Telegram Webhook 时出错', {
-      error: error.message,
-      stack: error.stack,
-    });
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-/**
- * Telegram 服务健康检查
- */
-router.get('/health', async (req: Request, res: Response) => {
-  try {
-    const isHealthy = await telegramService.healthCheck();
-    const botInfo = await telegramService.getBotInfo();
-    
-    res.json({
-      service: 'telegram',
-      healthy: isHealthy,
-      bot: botInfo,
-    });
-  } catch (error: any) {
-    logger.error('[GSMRS] Telegram 健康检查出错', { error: error.message });
-    res.status(500).json({ error: 'Health check failed' });
-  }
-});
+  });
 
-export default router;
+  return router;
+}
 
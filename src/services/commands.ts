@@ -0,0 +1,218 @@
+/**
+ * Telegram Bot 命令模块
+ *
+ * 原理：
+ * - 识别以 / 开头的已知命令（支持 /cmd@BotName 写法），命令不会被转发到其他平台
+ * - 只有 telegram.admins 中的用户（用户 ID 或用户名）可以执行命令，其他人发送的命令被忽略
+ * - 未配置 admins 时不启用命令，所有消息照常转发
+ * - 执行结果以纯文本回复到原聊天，无需处理 MarkdownV2 转义
+ *
+ * 选型理由：
+ * - 复用分发器：命令直接操作运行中的队列和服务，与 HTTP API 看到的状态一致
+ * - 命令表：新增命令只需添加一项，/help 自动列出
+ */
+import { TelegramMessage, TargetType } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+import { Dispatcher } from './dispatcher';
+import { TelegramService } from './telegram.service';
+
+const DLQ_LIST_LIMIT = 10;
+
+interface CommandContext {
+  args: string[];
+  chatId: number;
+  messageId?: number;
+}
+
+interface Command {
+  usage: string;
+  description: string;
+  run: (ctx: CommandContext) => Promise<string> | string;
+}
+
+export class TelegramCommands {
+  private dispatcher: Dispatcher;
+  private commands: Record<string, Command>;
+
+  constructor(dispatcher: Dispatcher) {
+    this.dispatcher = dispatcher;
+    this.commands = {
+      status: {
+        usage: '/status',
+        description: 'Queue stats and service health',
+        run: () => this.status(),
+      },
+      dlq: {
+        usage: '/dlq',
+        description: 'List dead jobs',
+        run: () => this.listDLQ(),
+      },
+      retry: {
+        usage: '/retry <jobId|all>',
+        description: 'Requeue a dead job',
+        run: (ctx) => this.retry(ctx.args[0]),
+      },
+      pause: {
+        usage: '/pause <target>',
+        description: 'Hold deliveries to a target',
+        run: (ctx) => this.pause(ctx.args[0]),
+      },
+      resume: {
+        usage: '/resume <target>',
+        description: 'Resume deliveries to a target',
+        run: (ctx) => this.resume(ctx.args[0]),
+      },
+      issue: {
+        usage: '/issue <number>',
+        description: 'Switch the default GitHub issue for comments',
+        run: (ctx) => this.switchIssue(ctx.args[0]),
+      },
+      help: {
+        usage: '/help',
+        description: 'Show this help',
+        run: () => this.help(),
+      },
+    };
+  }
+
+  /**
+   * Handle update if it is a known command, returns true when it must not be relayed
+   */
+  async handle(payload: TelegramMessage): Promise<boolean> {
+    const message = payload.message;
+    const text = message?.text?.trim();
+    if (!message || !text || !text.startsWith('/')) {
+      return false;
+    }
+
+    const admins = ConfigLoader.getConfig().telegram?.admins || [];
+    if (admins.length === 0) {
+      return false;
+    }
+
+    const [head, ...args] = text.split(/\s+/);
+    const name = head.substring(1).split('@')[0].toLowerCase();
+    const command = this.commands[name];
+    if (!command) {
+      return false;
+    }
+
+    if (!TelegramService.isAdmin(message.from, admins)) {
+      logger.warn('[GSMRS] 非授权用户尝试执行 Bot 命令，已忽略', {
+        command: name,
+        userId: message.from?.id,
+        username: message.from?.username,
+      });
+      return true;
+    }
+
+    const chatId = message.chat?.id;
+    if (chatId === undefined) {
+      return true;
+    }
+
+    logger.info('[GSMRS] 执行 Telegram Bot 命令', {
+      command: name,
+      args,
+      username: message.from?.username,
+    });
+
+    let reply: string;
+    try {
+      reply = await command.run({ args, chatId, messageId: message.message_id });
+    } catch (error: any) {
+      logger.error('[GSMRS] 执行 Bot 命令时出错', { command: name, error: error.message });
+      reply = `Command failed: ${error.message}`;
+    }
+
+    await this.dispatcher.telegram.sendText(chatId, reply, message.message_id);
+    return true;
+  }
+
+  private parseTarget(value: string | undefined): TargetType | undefined {
+    const target = value?.toLowerCase() as TargetType | undefined;
+    return target && this.dispatcher.getEnabledTargets().includes(target) ? target : undefined;
+  }
+
+  private async status(): Promise<string> {
+    const stats = this.dispatcher.getStats();
+    const health = await this.dispatcher.healthCheck();
+    const paused = stats.paused.map(target =>
+      stats.pausedUntil[target] ? `${target} (until ${stats.pausedUntil[target]})` : target
+    );
+
+    const lines = [
+      `Queue: ${stats.queueLength} queued, ${stats.scheduledLength} awaiting retry, ${stats.heldLength} held, ${stats.dlqLength} dead`,
+      `Paused: ${paused.length > 0 ? paused.join(', ') : 'none'}`,
+      `Duplicates suppressed: ${stats.duplicatesSuppressed}`,
+      ...(stats.quarantined !== undefined ? [`Quarantined: ${stats.quarantined}`] : []),
+      'Services:',
+      ...Object.entries(health).map(([service, healthy]) => `  ${service}: ${healthy ? 'ok' : 'DOWN'}`),
+    ];
+    return lines.join('\n');
+  }
+
+  private listDLQ(): string {
+    const dlq = this.dispatcher.queue.getDLQ();
+    if (dlq.length === 0) {
+      return 'Dead letter queue is empty';
+    }
+
+    const lines = dlq.slice(-DLQ_LIST_LIMIT).map(job => {
+      const target = job.channel ? `${job.target}:${job.channel}` : job.target;
+      const lastError = job.failures?.[job.failures.length - 1]?.error || 'unknown error';
+      return `${job.id} -> ${target}: ${lastError}`;
+    });
+    if (dlq.length > DLQ_LIST_LIMIT) {
+      lines.unshift(`Showing latest ${DLQ_LIST_LIMIT} of ${dlq.length}`);
+    }
+    return lines.join('\n');
+  }
+
+  private retry(jobId: string | undefined): string {
+    if (!jobId) {
+      return `Usage: ${this.commands.retry.usage}`;
+    }
+    if (jobId === 'all') {
+      return `Requeued ${this.dispatcher.queue.retryDLQByTarget()} job(s)`;
+    }
+    return this.dispatcher.queue.retryDLQ(jobId) ? `Requeued ${jobId}` : `Job not found in DLQ: ${jobId}`;
+  }
+
+  private pause(value: string | undefined): string {
+    const target = this.parseTarget(value);
+    if (!target) {
+      return `Usage: ${this.commands.pause.usage} (${this.dispatcher.getEnabledTargets().join(', ')})`;
+    }
+    this.dispatcher.queue.pause(target);
+    return `Paused ${target}`;
+  }
+
+  private resume(value: string | undefined): string {
+    const target = this.parseTarget(value);
+    if (!target) {
+      return `Usage: ${this.commands.resume.usage} (${this.dispatcher.getEnabledTargets().join(', ')})`;
+    }
+    if (!this.dispatcher.queue.isPaused(target)) {
+      return `${target} is not paused`;
+    }
+    const requeued = this.dispatcher.queue.resume(target);
+    return `Resumed ${target}, ${requeued} held job(s) requeued`;
+  }
+
+  private switchIssue(value: string | undefined): string {
+    const issueNumber = Number(value);
+    if (!value || !Number.isInteger(issueNumber) || issueNumber <= 0) {
+      return `Usage: ${this.commands.issue.usage}`;
+    }
+    this.dispatcher.github.setIssueNumber(issueNumber);
+    return `GitHub comments now go to issue #${issueNumber}`;
+  }
+
+  private help(): string {
+    return Object.values(this.commands)
+      .map(command => `${command.usage} - ${command.description}`)
+      .join('\n');
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * 钉钉群机器人服务模块
+ *
+ * 原理：
+ * - 向自定义机器人的 Webhook 地址（oapi.dingtalk.com/robot/send?access_token=…）发送消息，公共流程见 groupBot.ts
+ * - 消息类型：
+ *   - text：文本消息
+ *   - markdown：Markdown 消息，subject 作为标题显示在会话列表和通知中
+ *   - card：整体跳转的 ActionCard，标题作为正文首行，消息链接作为“查看详情”按钮
+ * - 加签：地址附带毫秒级 timestamp 和 sign = URL 编码的 Base64(HMAC-SHA256(key = secret, timestamp + "\n" + secret))
+ * - 响应 errcode 为 0 表示成功；发送过快（130101）时机器人被限流十分钟，等待后重试
+ *
+ * 选型理由：
+ * - 钉钉 Markdown 支持标题、粗体、斜体、链接、图片、列表和引用，不支持代码块、删除线和表格，这些内容以普通文本输出
+ */
+import * as crypto from 'crypto';
+import { AxiosResponse } from 'axios';
+import { GroupBotChannelConfig } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { GroupBotContent, GroupBotRequest, GroupBotResponse, GroupBotService } from './groupBot';
+
+const RATE_LIMIT_CODES = [130101];
+const RATE_LIMIT_WAIT_MS = 10 * 60 * 1000;
+const MAX_CONTENT_BYTES = 18 * 1024;
+
+export class DingTalkService extends GroupBotService {
+  constructor() {
+    super('dingtalk', ConfigLoader.getConfig().dingtalk, {
+      name: '钉钉',
+      format: 'dingtalk_markdown',
+      maxBytes: { text: MAX_CONTENT_BYTES, markdown: MAX_CONTENT_BYTES, card: MAX_CONTENT_BYTES },
+    });
+  }
+
+  /**
+   * Signature of the "加签" security setting
+   */
+  static sign(timestamp: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}\n${secret}`).digest('base64');
+  }
+
+  protected buildRequest(bot: GroupBotChannelConfig, content: GroupBotContent): GroupBotRequest {
+    let body: Record<string, any>;
+    switch (content.type) {
+      case 'text':
+        body = { msgtype: 'text', text: { content: content.text } };
+        break;
+      case 'markdown':
+        body = { msgtype: 'markdown', markdown: { title: content.title, text: content.text } };
+        break;
+      case 'card':
+        body = {
+          msgtype: 'actionCard',
+          actionCard: {
+            title: content.title,
+            text: `### ${content.title}\n\n${content.text}`,
+            singleTitle: '查看详情',
+            singleURL: content.url,
+          },
+        };
+        break;
+    }
+
+    let url = bot.webhook_url;
+    if (bot.secret) {
+      const timestamp = Date.now().toString();
+      const sign = encodeURIComponent(DingTalkService.sign(timestamp, bot.secret));
+      url += `${url.includes('?') ? '&' : '?'}timestamp=${timestamp}&sign=${sign}`;
+    }
+    return { url, body };
+  }
+
+  protected parseResponse(response: AxiosResponse): GroupBotResponse {
+    const data = response.data || {};
+    if (response.status === 200 && data.errcode === 0) {
+      return { ok: true };
+    }
+
+    const error = `${data.errcode ?? `HTTP ${response.status}`} ${data.errmsg || ''}`.trim();
+    if (response.status === 429 || RATE_LIMIT_CODES.includes(data.errcode)) {
+      return { ok: false, error, retryAfterMs: GroupBotService.retryAfter(response, RATE_LIMIT_WAIT_MS) };
+    }
+    return { ok: false, error };
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Discord 服务模块
+ *
+ * 原理：
+ * - 通过频道 Webhook 发送消息（?wait=true 返回创建的消息），可指定论坛帖子或子区（thread_id）
+ * - 默认以 Embed 卡片发送：模板的 subject 作为标题，body 作为描述，消息链接、作者、来源和时间分别写入
+ *   url、author、footer、timestamp；embed: false 时以纯文本消息发送
+ * - 支持多个命名频道（discord.channels），每个频道对应一个 Webhook 地址
+ * - 消息经模板渲染为 Discord Markdown：GitHub Markdown 正文的代码块、链接、列表和三级以内的标题保留，表格转为等宽文本，
+ *   变量中的标记字符以反斜杠转义；超过长度上限（描述 4096、纯文本 2000 字符）时截断
+ * - allowed_mentions 为空，转发内容中的 @everyone、@here 和用户提及不会通知任何人
+ * - 遇到 429 时按响应中的 retry_after（或 Retry-After 头）返回等待时间，由队列重新调度且不计入重试次数
+ * - 健康检查通过 GET Webhook 地址验证 Webhook 仍然存在，不会发送消息
+ *
+ * 选型理由：
+ * - Webhook 而非 Bot：无需常驻网关连接和额外权限，只需频道管理员创建一个地址
+ * - Embed：标题、链接和来源单独展示，比纯文本更易读
+ */
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { NormalizedMessage, DeliveryResult, DiscordChannelConfig } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { logger, safeLog } from '../utils/logger';
+import { TemplateRenderer } from './template';
+import { parseRetryAfter } from './webhook.service';
+
+const DEFAULT_EMBED_TEMPLATES = {
+  subject: '{{title}}',
+  body: '{{content}}{{#attachments}}{{#url}}\n📎 [{{name}}]({{{url}}}){{/url}}{{/attachments}}',
+};
+
+const DEFAULT_TEXT_TEMPLATE =
+  '{{#title}}**{{title}}**\n\n{{/title}}{{content}}' +
+  '{{#attachments}}{{#url}}\n📎 [{{name}}]({{{url}}}){{/url}}{{/attachments}}' +
+  '{{#author}}\n\n*From: {{author}}*{{/author}}{{#metadata.url}}\n{{{metadata.url}}}{{/metadata.url}}';
+
+const DEFAULT_COLOR = 0x5865f2;
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_CONTENT_LENGTH = 2000;
+const MAX_AUTHOR_LENGTH = 256;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 1)}…` : text;
+}
+
+export class DiscordService {
+  private defaultChannel: DiscordChannelConfig;
+  private channels: Record<string, DiscordChannelConfig>;
+  private username?: string;
+  private avatarUrl?: string;
+  private embed: boolean;
+  private color: number;
+  private api: AxiosInstance;
+  private enabled: boolean;
+  private templates: TemplateRenderer;
+
+  constructor() {
+    const config = ConfigLoader.getConfig();
+    this.enabled = config.discord?.enable ?? false;
+    this.defaultChannel = { webhook_url: config.discord?.webhook_url || '', thread_id: config.discord?.thread_id };
+    this.channels = config.discord?.channels || {};
+    this.username = config.discord?.username;
+    this.avatarUrl = config.discord?.avatar_url;
+    this.embed = config.discord?.embed ?? true;
+    const color = config.discord?.color;
+    this.color = typeof color === 'string' ? parseInt(color.replace(/^#|^0x/i, ''), 16) : color ?? DEFAULT_COLOR;
+    this.templates = new TemplateRenderer(
+      'discord',
+      'discord_markdown',
+      this.embed ? DEFAULT_EMBED_TEMPLATES : { body: DEFAULT_TEXT_TEMPLATE }
+    );
+    this.api = axios.create({
+      timeout: 15000,
+      headers: { 'User-Agent': 'DS-GSMRS/1.0' },
+      validateStatus: () => true,
+    });
+
+    if (!this.enabled) {
+      logger.info('[GSMRS] Discord 服务已禁用');
+    } else if (!this.defaultChannel.webhook_url && Object.keys(this.channels).length === 0) {
+      logger.warn('[GSMRS] Discord 服务已启用但未配置 webhook_url');
+    }
+  }
+
+  /**
+   * Send message to the default webhook or a named channel
+   */
+  async sendMessage(message: NormalizedMessage, channel?: string): Promise<DeliveryResult> {
+    if (!this.enabled) {
+      logger.warn('[GSMRS] Discord 服务已禁用');
+      return { success: false, error: 'Discord service is disabled' };
+    }
+
+    const target = channel ? this.channels[channel] : this.defaultChannel;
+    if (!target?.webhook_url) {
+      logger.error('[GSMRS] 未知的 Discord 频道或未配置 Webhook', { channel });
+      return { success: false, error: channel ? `Unknown discord channel: ${channel}` : 'Discord webhook URL is not configured' };
+    }
+
+    try {
+      const response = await this.api.post(target.webhook_url, this.buildPayload(message, channel), {
+        params: { wait: true, thread_id: target.thread_id },
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        logger.info('[GSMRS] Discord 消息发送成功', {
+          messageId: message.id,
+          channel,
+          discordMessageId: response.data?.id,
+        });
+        return { success: true };
+      }
+      return this.failure(message, channel, response);
+    } catch (error: any) {
+      logger.error('[GSMRS] 发送 Discord 消息时出错', {
+        error: error.message,
+        messageId: message.id,
+        channel,
+      });
+      return { success: false, error: error.message };
+    }
+  }
+
+  private buildPayload(message: NormalizedMessage, channel?: string): Record<string, any> {
+    const rendered = this.templates.render(message, channel);
+    const payload: Record<string, any> = {
+      username: this.username,
+      avatar_url: this.avatarUrl,
+      // 不解析任何提及，转发内容不能通知频道成员
+      allowed_mentions: { parse: [] },
+    };
+
+    if (!this.embed) {
+      payload.content = truncate(rendered.body, MAX_CONTENT_LENGTH);
+      return payload;
+    }
+
+    const url = message.metadata?.url;
+    payload.embeds = [{
+      title: rendered.subject ? truncate(rendered.subject, MAX_TITLE_LENGTH) : undefined,
+      description: truncate(rendered.body, MAX_DESCRIPTION_LENGTH),
+      url: typeof url === 'string' && /^https?:\/\//i.test(url) ? url : undefined,
+      color: this.color,
+      author: message.author ? { name: truncate(message.author, MAX_AUTHOR_LENGTH) } : undefined,
+      footer: { text: `Source: ${message.source}` },
+      timestamp: new Date(message.timestamp).toISOString(),
+    }];
+    return payload;
+  }
+
+  /**
+   * Build failure result, honouring retry_after on 429
+   */
+  private failure(message: NormalizedMessage, channel: string | undefined, response: AxiosResponse): DeliveryResult {
+    let retryAfterMs: number | undefined;
+    if (response.status === 429) {
+      // 响应体中的 retry_after 为秒（带小数），比 Retry-After 头更精确
+      const retryAfter = Number(response.data?.retry_after);
+      retryAfterMs = !isNaN(retryAfter) && response.data?.retry_after !== undefined
+        ? Math.ceil(retryAfter * 1000)
+        : parseRetryAfter(response.headers['retry-after']);
+    }
+
+    if (retryAfterMs !== undefined) {
+      logger.warn('[GSMRS] Discord 限流，稍后重试', {
+        messageId: message.id,
+        channel,
+        retryAfterMs,
+        global: response.data?.global,
+      });
+    } else {
+      logger.error('[GSMRS] 发送 Discord 消息失败', {
+        messageId: message.id,
+        channel,
+        status: response.status,
+        data: safeLog(response.data),
+      });
+    }
+
+    return {
+      success: false,
+      error: `Discord API error (${response.status}): ${response.data?.message || 'unknown error'}`,
+      retryAfterMs,
+    };
+  }
+
+  /**
+   * Health check - verify each webhook still exists
+   */
+  async healthCheck(): Promise<boolean> {
+    const targets = [this.defaultChannel, ...Object.values(this.channels)].filter(target => target.webhook_url);
+    if (!this.enabled || targets.length === 0) {
+      return false;
+    }
+
+    for (const target of targets) {
+      try {
+        const response = await this.api.get(target.webhook_url);
+        if (response.status !== 200) {
+          logger.error('[GSMRS] Discord 健康检查失败', {
+            status: response.status,
+            error: response.data?.message,
+          });
+          return false;
+        }
+      } catch (error: any) {
+        logger.error('[GSMRS] Discord 健康检查失败', {
+          error: error.message,
+        });
+        return false;
+      }
+    }
+    return true;
+  }
+}
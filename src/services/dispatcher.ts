@@ -0,0 +1,323 @@
+/**
+ * 消息分发器模块
+ *
+ * 原理：
+ * - 应用级唯一的服务容器，启动时创建一次，注入到所有路由
+ * - 持有每个平台唯一的出站客户端（Telegram、GitHub、邮件、出站 Webhook、Slack、Discord、飞书、钉钉、企业微信）、唯一的消息队列和媒体存储
+ * - 统一注册队列处理器，所有来源的消息都经过同一个队列，统计、死信和重试覆盖全部流量
+ * - 提供分发、按路由规则分发、启用目标查询和综合健康检查等公共操作
+ * - 启用隔离区时，按路由规则分发前先经隔离区检测，疑似垃圾消息按来源和目标策略暂存、丢弃或照常投递
+ * - 维护 Telegram 消息与 GitHub Issue 的会话映射：Telegram 中回复转发帖子时评论到对应 Issue，Issue 的新评论以回复形式发送到原帖下
+ * - 转发 Issue 的邮件记录 Message-ID，回复邮件按 In-Reply-To / References 评论到对应 Issue
+ * - GitHub 触发限流或配额耗尽时按重置时间暂停 github 目标，到期自动恢复
+ * - 基于 TTL 存储对入站投递去重（GitHub X-GitHub-Delivery、Telegram update_id），并统计被抑制的重复次数
+ *
+ * 选型理由：
+ * - 依赖注入：路由不再各自创建服务实例，避免重复连接和状态分散
+ * - 单一队列：队列统计与死信队列反映真实情况，便于排查问题
+ */
+import { NormalizedMessage, QueueJob, TargetRef, TargetType, DeliveryResult } from '../types';
+import { TelegramService } from './telegram.service';
+import { GitHubService } from './github.service';
+import { MailService } from './mail.service';
+import { WebhookService } from './webhook.service';
+import { SlackService } from './slack.service';
+import { DiscordService } from './discord.service';
+import { FeishuService } from './feishu.service';
+import { DingTalkService } from './dingtalk.service';
+import { WeComService } from './wecom.service';
+import { RoutingEngine, parseTargetRef } from './routing';
+import { ThreadStore, GitHubThreadRef } from './threads';
+import { MediaStore } from './media';
+import { QuarantineStore } from './quarantine';
+import { MemoryQueue } from '../queue/memoryQueue';
+import { createQueue } from '../queue/factory';
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+import { TtlStore } from '../utils/ttlStore';
+import * as path from 'path';
+
+const DEFAULT_DEDUP_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_THREADS_PATH = './data/threads.json';
+const DEFAULT_THREADS_MAX_ENTRIES = 10000;
+
+export class Dispatcher {
+  readonly telegram: TelegramService;
+  readonly github: GitHubService;
+  readonly mail: MailService;
+  readonly webhook: WebhookService;
+  readonly slack: SlackService;
+  readonly discord: DiscordService;
+  readonly feishu: FeishuService;
+  readonly dingtalk: DingTalkService;
+  readonly wecom: WeComService;
+  readonly queue: MemoryQueue;
+  readonly routing: RoutingEngine;
+  readonly threads?: ThreadStore;
+  readonly media: MediaStore;
+  readonly quarantine?: QuarantineStore;
+  private deliveries: TtlStore;
+  private duplicatesSuppressed: number = 0;
+
+  constructor() {
+    const config = ConfigLoader.getConfig();
+
+    this.telegram = new TelegramService();
+    this.github = new GitHubService();
+    this.mail = new MailService();
+    this.webhook = new WebhookService();
+    this.slack = new SlackService();
+    this.discord = new DiscordService();
+    this.feishu = new FeishuService();
+    this.dingtalk = new DingTalkService();
+    this.wecom = new WeComService();
+    this.queue = createQueue('main');
+    this.media = new MediaStore();
+    this.routing = new RoutingEngine(config, this.getEnabledTargets());
+    this.deliveries = new TtlStore(
+      config.dedup?.ttl_ms || DEFAULT_DEDUP_TTL_MS,
+      config.dedup?.path ? path.resolve(process.cwd(), config.dedup.path) : undefined
+    );
+
+    if (config.threads?.enable !== false) {
+      this.threads = new ThreadStore(
+        config.threads?.max_entries || DEFAULT_THREADS_MAX_ENTRIES,
+        path.resolve(process.cwd(), config.threads?.path || DEFAULT_THREADS_PATH)
+      );
+    }
+
+    if (config.quarantine?.enable === true) {
+      this.quarantine = new QuarantineStore();
+    }
+
+    // Register queue handlers
+    this.queue.registerHandler('telegram', (job) => this.deliverToTelegram(job));
+
+    this.queue.registerHandler('github', (job) => this.deliverToGitHub(job));
+
+    this.queue.registerHandler('mail', (job) => this.deliverToMail(job));
+
+    this.queue.registerHandler('api', (job) => this.webhook.deliver(job.message, job.channel));
+
+    this.queue.registerHandler('slack', (job) => this.slack.sendMessage(job.message, job.channel));
+
+    this.queue.registerHandler('discord', (job) => this.discord.sendMessage(job.message, job.channel));
+
+    this.queue.registerHandler('feishu', (job) => this.feishu.sendMessage(job.message, job.channel));
+
+    this.queue.registerHandler('dingtalk', (job) => this.dingtalk.sendMessage(job.message, job.channel));
+
+    this.queue.registerHandler('wecom', (job) => this.wecom.sendMessage(job.message, job.channel));
+  }
+
+  /**
+   * Send to Telegram, as a reply to the issue's first post when the message comes from a known issue
+   */
+  private async deliverToTelegram(job: QueueJob): Promise<DeliveryResult> {
+    const chatId = this.telegram.resolveChatId(job.channel);
+    const issue = this.getIssueRef(job.message);
+    const root = chatId && issue
+      ? this.threads?.getTelegramThread(issue.repo, issue.issueNumber, chatId)
+      : undefined;
+
+    const result = await this.telegram.sendMessage(job.message, job.channel, {
+      replyToMessageId: root?.messageId,
+      startPart: job.partsDelivered,
+      firstMessageId: job.firstMessageId,
+    });
+
+    if (result.success && result.messageId && chatId && issue) {
+      this.threads?.link({ chatId, messageId: result.messageId }, issue);
+    }
+    return result;
+  }
+
+  /**
+   * Send email threaded by issue (or metadata.thread); mails relaying an issue are linked so that replies comment on it
+   */
+  private async deliverToMail(job: QueueJob): Promise<DeliveryResult> {
+    const issue = this.getIssueRef(job.message);
+    const threadKey = issue ? `${issue.repo}#${issue.issueNumber}` : job.message.metadata?.thread;
+    const { mailMessageId, ...result } = await this.mail.sendEmail(
+      job.message,
+      job.channel,
+      threadKey !== undefined ? String(threadKey) : undefined
+    );
+
+    if (result.success && mailMessageId && issue) {
+      this.threads?.linkMail(mailMessageId, issue);
+    }
+    return result;
+  }
+
+  /**
+   * Deliver to GitHub, commenting on the linked issue when the message replies to a relayed post or email
+   */
+  private async deliverToGitHub(job: QueueJob): Promise<DeliveryResult> {
+    const metadata = job.message.metadata || {};
+    const isTelegram = job.message.source === 'telegram' && metadata.chatId !== undefined;
+    const isMail = job.message.source === 'mail' && !!metadata.messageId;
+    let thread: GitHubThreadRef | undefined;
+    if (isTelegram && metadata.replyToMessageId !== undefined) {
+      thread = this.threads?.getGitHubThread(metadata.chatId, metadata.replyToMessageId);
+    } else if (job.message.source === 'mail') {
+      const ids = [metadata.inReplyTo, ...[...(metadata.references || [])].reverse()].filter(Boolean);
+      thread = this.threads?.getGitHubThreadByMail(ids);
+    }
+
+    if (thread) {
+      logger.debug('[GSMRS] 回复串联到 GitHub Issue', {
+        messageId: job.message.id,
+        repo: thread.repo,
+        issueNumber: thread.issueNumber,
+      });
+    }
+
+    const { issue, created, ...result } = await this.github.deliver(job.message, job.channel, thread);
+
+    // 触发限流或配额已耗尽时暂停 github 目标，后续任务搁置到配额重置，不再逐个失败
+    const wait = result.retryAfterMs ?? this.github.getRateLimitWait();
+    if (wait > 0) {
+      this.queue.pause('github', wait);
+    }
+
+    // 记录 Telegram 消息与 Issue 的对应关系，之后回复这条消息也会进入同一 Issue
+    // 评论时用户消息不作为线程原帖，Issue 的新评论仍然回复到转发的 Issue 帖子下；
+    // 由这条消息新建的 Issue 则以它为原帖，Issue 的评论回复到用户的原消息下
+    if (result.success && isTelegram && metadata.messageId !== undefined && issue) {
+      this.threads?.link(
+        { chatId: metadata.chatId, messageId: metadata.messageId },
+        issue,
+        !!created
+      );
+    }
+    // 记录邮件与 Issue 的对应关系，回复这封邮件（或抄送的后续邮件）也会进入同一 Issue
+    if (result.success && isMail && issue) {
+      this.threads?.linkMail(metadata.messageId, issue);
+    }
+    return result;
+  }
+
+  /**
+   * Issue a GitHub message belongs to (issue, comment, pull request events)
+   */
+  private getIssueRef(message: NormalizedMessage): GitHubThreadRef | undefined {
+    const metadata = message.metadata || {};
+    if (message.source !== 'github' || !metadata.repository || metadata.issueNumber === undefined) {
+      return undefined;
+    }
+    return { repo: metadata.repository, issueNumber: metadata.issueNumber };
+  }
+
+  /**
+   * Queue message for each target or channel, returns job IDs
+   */
+  dispatch(message: NormalizedMessage, targets: TargetRef[]): string[] {
+    const jobIds = targets.map(ref => {
+      const { target, channel } = parseTargetRef(ref);
+      return this.queue.enqueue(message, target, channel);
+    });
+
+    logger.debug('[GSMRS] 消息已分发', {
+      messageId: message.id,
+      targets,
+    });
+
+    return jobIds;
+  }
+
+  /**
+   * Check inbound delivery key (e.g. X-GitHub-Delivery) against processed deliveries
+   */
+  isDuplicate(key: string): boolean {
+    if (this.deliveries.has(key)) {
+      this.duplicatesSuppressed++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record an inbound delivery key once it has been handled, so a failed delivery can be redelivered
+   */
+  markProcessed(key: string): void {
+    this.deliveries.add(key);
+  }
+
+  /**
+   * Queue stats plus deduplication counters
+   */
+  getStats() {
+    return {
+      ...this.queue.getStats(),
+      duplicatesSuppressed: this.duplicatesSuppressed,
+      dedupEntries: this.deliveries.size,
+      ...this.quarantine?.getStats(),
+    };
+  }
+
+  /**
+   * Screen message for spam and queue it for the given targets (default: routing rules), returns queued targets
+   */
+  route(message: NormalizedMessage, targets: TargetRef[] = this.routing.resolve(message)): TargetRef[] {
+    const accepted = this.quarantine ? this.quarantine.screen(message, targets) : targets;
+    this.dispatch(message, accepted);
+    return accepted;
+  }
+
+  /**
+   * Get all enabled targets from config
+   */
+  getEnabledTargets(): TargetType[] {
+    const config = ConfigLoader.getConfig();
+    const targets: TargetType[] = [];
+    if (config.telegram?.enable) targets.push('telegram');
+    if (config.github?.enable) targets.push('github');
+    if (config.mail?.enable) targets.push('mail');
+    if (config.api?.enable) targets.push('api');
+    if (config.slack?.enable) targets.push('slack');
+    if (config.discord?.enable) targets.push('discord');
+    if (config.feishu?.enable) targets.push('feishu');
+    if (config.dingtalk?.enable) targets.push('dingtalk');
+    if (config.wecom?.enable) targets.push('wecom');
+    return targets;
+  }
+
+  /**
+   * Health check of all enabled services
+   */
+  async healthCheck(): Promise<Record<string, boolean>> {
+    const config = ConfigLoader.getConfig();
+    const services: Record<string, boolean> = {};
+
+    if (config.telegram?.enable) {
+      services.telegram = await this.telegram.healthCheck();
+    }
+    if (config.github?.enable) {
+      services.github = await this.github.healthCheck();
+    }
+    if (config.mail?.enable) {
+      services.mail = await this.mail.healthCheck();
+    }
+    if (config.api?.enable) {
+      services.api = await this.webhook.healthCheck();
+    }
+    if (config.slack?.enable) {
+      services.slack = await this.slack.healthCheck();
+    }
+    if (config.discord?.enable) {
+      services.discord = await this.discord.healthCheck();
+    }
+    if (config.feishu?.enable) {
+      services.feishu = await this.feishu.healthCheck();
+    }
+    if (config.dingtalk?.enable) {
+      services.dingtalk = await this.dingtalk.healthCheck();
+    }
+    if (config.wecom?.enable) {
+      services.wecom = await this.wecom.healthCheck();
+    }
+
+    return services;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * 飞书 / Lark 群机器人服务模块
+ *
+ * 原理：
+ * - 向自定义机器人的 Webhook 地址（open.feishu.cn 或 open.larksuite.com）发送消息，公共流程见 groupBot.ts
+ * - 消息类型：
+ *   - text：文本消息
+ *   - markdown：只有 Markdown 元素、没有标题栏的卡片（自定义机器人只能在卡片中使用 Markdown）
+ *   - card：带标题栏的卡片，正文为 Markdown 元素，消息链接作为“查看详情”按钮
+ * - 签名校验：请求体附带秒级 timestamp 和 sign = Base64(HMAC-SHA256(key = timestamp + "\n" + secret, 空消息))
+ * - 响应 code 为 0 表示成功；频率限制（9499、11232 或 HTTP 429）时等待一分钟后重试
+ *
+ * 选型理由：
+ * - 卡片 Markdown（lark_md）：支持粗体、斜体、删除线、链接和代码块，比富文本（post）更接近 GitHub Markdown
+ */
+import * as crypto from 'crypto';
+import { AxiosResponse } from 'axios';
+import { GroupBotChannelConfig } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { GroupBotContent, GroupBotRequest, GroupBotResponse, GroupBotService } from './groupBot';
+
+const RATE_LIMIT_CODES = [9499, 11232];
+const RATE_LIMIT_WAIT_MS = 60 * 1000;
+// 请求体上限 20 KB，为消息结构和签名留出余量
+const MAX_CONTENT_BYTES = 18 * 1024;
+
+export class FeishuService extends GroupBotService {
+  constructor() {
+    super('feishu', ConfigLoader.getConfig().feishu, {
+      name: '飞书',
+      format: 'lark_md',
+      maxBytes: { text: MAX_CONTENT_BYTES, markdown: MAX_CONTENT_BYTES, card: MAX_CONTENT_BYTES },
+    });
+  }
+
+  /**
+   * Signature of the "签名校验" security setting
+   */
+  static sign(timestamp: string, secret: string): string {
+    return crypto.createHmac('sha256', `${timestamp}\n${secret}`).update('').digest('base64');
+  }
+
+  protected buildRequest(bot: GroupBotChannelConfig, content: GroupBotContent): GroupBotRequest {
+    let body: Record<string, any>;
+    if (content.type === 'text') {
+      body = { msg_type: 'text', content: { text: content.text } };
+    } else {
+      const elements: any[] = [{ tag: 'markdown', content: content.text }];
+      if (content.type === 'card' && content.url) {
+        elements.push({
+          tag: 'action',
+          actions: [{
+            tag: 'button',
+            text: { tag: 'plain_text', content: '查看详情' },
+            type: 'primary',
+            url: content.url,
+          }],
+        });
+      }
+      body = {
+        msg_type: 'interactive',
+        card: {
+          config: { wide_screen_mode: true },
+          header: content.type === 'card'
+            ? { title: { tag: 'plain_text', content: content.title }, template: 'blue' }
+            : undefined,
+          elements,
+        },
+      };
+    }
+
+    if (bot.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      body.timestamp = timestamp;
+      body.sign = FeishuService.sign(timestamp, bot.secret);
+    }
+    return { url: bot.webhook_url, body };
+  }
+
+  protected parseResponse(response: AxiosResponse): GroupBotResponse {
+    const data = response.data || {};
+    // 旧版接口返回 StatusCode / StatusMessage
+    const code = data.code ?? data.StatusCode;
+    if (response.status === 200 && code === 0) {
+      return { ok: true };
+    }
+
+    const error = `${code ?? `HTTP ${response.status}`} ${data.msg || data.StatusMessage || ''}`.trim();
+    if (response.status === 429 || RATE_LIMIT_CODES.includes(code)) {
+      return { ok: false, error, retryAfterMs: GroupBotService.retryAfter(response, RATE_LIMIT_WAIT_MS) };
+    }
+    return { ok: false, error };
+  }
+}
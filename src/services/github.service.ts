@@ -2,28 +2,102 @@
  * GitHub 服务模块
  * 
  * 原理：
- * - 通过 GitHub REST API 在指定仓库的 Issue 中创建评论
- * - 使用内存 Set 实现事件去重，防止重复处理同一事件
- * - 自动识别 Bot 用户，避免无限循环（Bot 触发事件 -> 发送消息 -> 触发新事件）
- * - 支持创建新 Issue 或在现有 Issue 中评论
+ * - 通过 GitHub REST API 在指定仓库中评论或创建 Issue
+ * - 认证方式：个人访问令牌（github.token）或 GitHub App（github.app，安装令牌自动刷新，优先于 token）
+ * - 自动识别 Bot 用户及 App 自身，避免无限循环（Bot 触发事件 -> 发送消息 -> 触发新事件）
+ * - 三种投递方式（github.mode，可按频道覆盖）：
+ *   - comment：评论到固定的 issue_number（默认）
+ *   - issue：每条消息新建一个 Issue
+ *   - conversation：每个会话键（metadata.thread 或来源 + 聊天 ID，可用模板自定义）首条消息新建 Issue，之后评论到该 Issue
+ * - 新建 Issue 时按配置和消息 metadata（labels、assignees、milestone）设置标签、指派人和里程碑，label_map 按字段值追加标签
+ * - 启用 state_commands 后，内容为 /close、/reopen 的消息关闭或重新打开所在 Issue，其后的文字作为评论；
+ *   只接受 telegram.admins 中的 Telegram 用户和 state_command_senders 中的邮件发件人，其他人的命令作为普通评论发布；
+ *   邮件发件人可伪造，须经 mail.inbound.trusted_relays 中的 MTA 转投，且信封发件人和 From 头都在名单中
+ * - 支持多个命名频道（github.channels），每个频道对应一个仓库
+ * - 会话串联指定的 Issue 优先于投递方式，返回消息最终所在的 Issue 供分发器记录映射
+ * - 附件以媒体链接引用，图片内嵌显示（GitHub API 不支持直接上传附件）
+ * - 从每个响应的 X-RateLimit-* 头记录剩余配额；配额耗尽（403/429 且剩余为 0）或触发二级限流（Retry-After）时，
+ *   失败结果携带等待时间，由队列按该时间重新调度，分发器据此暂停 github 目标直到配额重置
  * 
  * 选型理由：
  * - GitHub REST API：官方 API，功能完整，文档完善
- * - Set 数据结构：O(1) 查找性能，适合去重场景
- * - 内存去重：简单高效，适合中小规模应用（可扩展为 Redis）
+ * - Webhook 去重由分发器基于 X-GitHub-Delivery 统一处理
+ * - 会话键与 Issue 的对应关系保存为 JSON 快照，重启后继续评论到原 Issue
  */
-import axios, { AxiosInstance } from 'axios';
-import { NormalizedMessage } from '../types';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import * as path from 'path';
+import { NormalizedMessage, DeliveryResult, GitHubChannelConfig, GitHubDeliveryConfig } from '../types';
 import { ConfigLoader } from '../config/loader';
 import { logger, safeLog } from '../utils/logger';
+import { JsonSnapshot, readJsonFile } from '../utils/jsonFile';
+import { matchesAddress } from '../utils/mime';
+import { TemplateRenderer } from './template';
+import { GitHubThreadRef } from './threads';
+import { GitHubAppAuth } from './githubApp';
+import { TelegramService } from './telegram.service';
+
+const DEFAULT_ISSUE_TITLE =
+  '{{#title}}{{title}}{{/title}}{{^title}}Message from {{source}}{{#author}} ({{author}}){{/author}}{{/title}}';
+
+const DEFAULT_COMMENT_TEMPLATE =
+  '{{#title}}## {{title}}\n\n{{/title}}{{content}}' +
+  '{{#attachments}}\n\n{{#url}}{{#image}}![{{name}}]({{url}}){{/image}}{{^image}}[📎 {{name}}]({{url}}){{/image}}{{/url}}' +
+  '{{^url}}_📎 {{name}}{{#error}} (not relayed: {{error}}){{/error}}_{{/url}}{{/attachments}}' +
+  '{{#author}}\n\n---\n_From: {{author}}_{{/author}}{{#source}}\n_Source: {{source}}_{{/source}}';
+const DEFAULT_LABELS = ['notification'];
+const DEFAULT_CONVERSATIONS_PATH = './data/github-conversations.json';
+const MAX_TITLE_LENGTH = 256;
+const STATE_COMMAND_PATTERN = /^\/(close|reopen)(?:@\S+)?(?:\s+([\s\S]*))?$/i;
+const RATE_LIMIT_MARGIN = 1000; // ms, wait slightly past the reset time
+const RATE_LIMIT_WARN_THRESHOLD = 100;
+// label_map 中取自消息本身的字段，其余字段取 metadata
+const LABEL_MESSAGE_FIELDS = ['source', 'author', 'title', 'format'] as const;
+
+type LabelMessageField = Extract<keyof NormalizedMessage, typeof LABEL_MESSAGE_FIELDS[number]>;
+
+export interface GitHubDeliveryResult extends DeliveryResult {
+  // 消息最终所在的 Issue（评论时包含评论 ID）
+  issue?: GitHubThreadRef;
+  // 是否为这条消息新建了 Issue
+  created?: boolean;
+}
+
+export interface GitHubRateLimit {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  reset: string;
+  updatedAt: string;
+}
+
+/**
+ * Metadata value as a list: arrays as-is, strings split on commas
+ */
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return value === undefined || value === null ? [] : [String(value)];
+}
 
 export class GitHubService {
   private token: string;
   private repo: string;
   private issueNumber: number;
+  private channels: Record<string, GitHubChannelConfig>;
+  private delivery: GitHubDeliveryConfig;
+  private conversations: Map<string, number>;
+  private conversationSnapshot: JsonSnapshot;
+  private milestones: Map<string, Map<string, number>> = new Map();
   private api: AxiosInstance;
+  private app?: GitHubAppAuth;
+  private rateLimit?: GitHubRateLimit;
   private enabled: boolean;
-  private processedEvents: Set<string> = new Set();
+  private templates: TemplateRenderer;
 
   constructor() {
     const config = ConfigLoader.getConfig();
@@ -31,62 +105,193 @@ export class GitHubService {
     this.token = config.github?.token || '';
     this.repo = config.github?.repo || '';
     this.issueNumber = config.github?.issue_number || 1;
-
-    if (!this.token || !this.repo) {
-      logger.warn('[GSMRS] GitHub Token 或仓库未配置');
+    this.channels = config.github?.channels || {};
+    const {
+      mode, conversation_key, labels, assignees, milestone, label_map, state_commands, state_command_senders,
+    } = config.github || {};
+    this.delivery = {
+      mode, conversation_key, labels, assignees, milestone, label_map, state_commands, state_command_senders,
+    };
+    this.templates = new TemplateRenderer('github', 'markdown', {
+      subject: DEFAULT_ISSUE_TITLE,
+      body: DEFAULT_COMMENT_TEMPLATE,
+    });
+    if (this.delivery.conversation_key !== undefined) {
+      TemplateRenderer.validate(this.delivery.conversation_key, 'github.conversation_key');
+    }
+    for (const [name, channel] of Object.entries(this.channels)) {
+      if (channel.conversation_key !== undefined) {
+        TemplateRenderer.validate(channel.conversation_key, `github.channels.${name}.conversation_key`);
+      }
     }
 
-    this.api = axios.create({
+    const conversationsPath = path.resolve(
+      process.cwd(),
+      config.github?.conversations_path || DEFAULT_CONVERSATIONS_PATH
+    );
+    this.conversations = new Map(Object.entries(readJsonFile<Record<string, number>>(conversationsPath) || {}));
+    this.conversationSnapshot = new JsonSnapshot(conversationsPath, () => Object.fromEntries(this.conversations));
+
+    const clientConfig = {
       baseURL: 'https://api.github.com',
       timeout: 15000,
       headers: {
-        'Authorization': `token ${this.token}`,
         'Accept': 'application/vnd.github.v3+json',
         'User-Agent': 'DS-GSMRS/1.0',
       },
+    };
+    this.api = axios.create(clientConfig);
+
+    const app = config.github?.app;
+    if (app?.app_id && app.private_key_path && app.installation_id) {
+      try {
+        // App 自身的请求（签发 JWT、换取令牌）使用不带认证拦截器的独立客户端
+        this.app = new GitHubAppAuth({
+          appId: app.app_id,
+          privateKeyPath: app.private_key_path,
+          installationId: app.installation_id,
+        }, axios.create(clientConfig));
+      } catch (error: any) {
+        logger.error('[GSMRS] 加载 GitHub App 私钥失败', { error: error.message });
+      }
+    }
+
+    // 每个请求发送前附加认证头：App 安装令牌（自动刷新）或个人令牌
+    this.api.interceptors.request.use(async (request) => {
+      request.headers.Authorization = `token ${this.app ? await this.app.getToken() : this.token}`;
+      return request;
     });
+    // 每个响应（包括错误响应）都带有配额头，据此更新剩余配额
+    this.api.interceptors.response.use(
+      (response) => {
+        this.trackRateLimit(response);
+        return response;
+      },
+      (error) => {
+        this.trackRateLimit(error.response);
+        return Promise.reject(error);
+      }
+    );
+
+    if (!this.isConfigured()) {
+      logger.warn('[GSMRS] GitHub 认证信息（Token 或 App）或仓库未配置');
+    } else if (this.enabled && this.app) {
+      this.app.loadIdentity().catch((error: any) => {
+        logger.warn('[GSMRS] 获取 GitHub App 身份失败，仅按 Bot 类型识别自身事件', { error: error.message });
+      });
+    }
+  }
+
+  private isConfigured(): boolean {
+    return (!!this.token || !!this.app) && !!this.repo;
+  }
+
+  /**
+   * Switch the default issue for comments (runtime only, not written back to config)
+   */
+  setIssueNumber(issueNumber: number): void {
+    this.issueNumber = issueNumber;
+    logger.info('[GSMRS] 默认评论 Issue 已切换', { repo: this.repo, issueNumber });
   }
 
   /**
-   * Create or update issue comment
+   * Deliver a message according to the channel's mode; an explicit thread always receives a comment
    */
-  async postComment(message: NormalizedMessage): Promise<boolean> {
-    if (!this.enabled || !this.token || !this.repo) {
+  async deliver(
+    message: NormalizedMessage,
+    channel?: string,
+    thread?: GitHubThreadRef
+  ): Promise<GitHubDeliveryResult> {
+    if (!this.enabled || !this.isConfigured()) {
       logger.warn('[GSMRS] GitHub 服务已禁用或未配置');
-      return false;
+      return { success: false, error: 'GitHub service is disabled or not configured' };
     }
 
-    try {
-      // Format message
-      let body = '';
-      if (message.title) {
-        body += `## ${message.title}\n\n`;
-      }
-      body += message.content;
-      if (message.author) {
-        body += `\n\n---\n_From: ${message.author}_`;
+    const settings = this.resolveChannel(channel);
+    if (!settings) {
+      logger.error('[GSMRS] 未知的 GitHub 频道', { channel });
+      return { success: false, error: `Unknown GitHub channel: ${channel}` };
+    }
+
+    const mode = settings.mode || 'comment';
+    const conversation = !thread && mode === 'conversation'
+      ? this.conversationKey(settings, message)
+      : undefined;
+
+    let issue = thread;
+    if (!issue && mode === 'comment') {
+      if (!settings.issue_number) {
+        return { success: false, error: `No issue_number configured for GitHub channel ${channel || 'default'}` };
       }
-      if (message.source) {
-        body += `\n_Source: ${message.source}_`;
+      issue = { repo: settings.repo, issueNumber: settings.issue_number };
+    }
+    if (!issue && conversation && this.conversations.has(conversation)) {
+      issue = { repo: settings.repo, issueNumber: this.conversations.get(conversation)! };
+    }
+
+    let command = settings.state_commands ? GitHubService.parseStateCommand(message.content) : undefined;
+    if (command && !GitHubService.canChangeState(message, settings)) {
+      logger.warn('[GSMRS] 发送者无权修改 Issue 状态，作为普通评论发布', {
+        messageId: message.id,
+        source: message.source,
+        author: message.author,
+      });
+      command = undefined;
+    }
+    if (command) {
+      if (!issue) {
+        return { success: false, error: `No issue to ${command.state === 'closed' ? 'close' : 'reopen'} for this message` };
       }
+      return this.setIssueState(message, issue, command.state, command.comment, channel);
+    }
+
+    if (issue) {
+      return this.postComment(message, issue, channel);
+    }
+
+    const result = await this.createIssue(message, settings, channel);
+    if (result.success && result.issue && conversation) {
+      this.conversations.set(conversation, result.issue.issueNumber);
+      this.conversationSnapshot.markDirty();
+    }
+    return result;
+  }
+
+  /**
+   * Create a comment on an issue
+   */
+  private async postComment(
+    message: NormalizedMessage,
+    issue: GitHubThreadRef,
+    channel?: string
+  ): Promise<GitHubDeliveryResult> {
+    const { repo, issueNumber } = issue;
+
+    try {
+      // Render template
+      const body = this.templates.render(message, channel).body;
 
       const response = await this.api.post(
-        `/repos/${this.repo}/issues/${this.issueNumber}/comments`,
+        `/repos/${repo}/issues/${issueNumber}/comments`,
         { body }
       );
 
       if (response.status === 201) {
-        logger.info(`[GSMRS] 评论已发布到 GitHub Issue #${this.issueNumber}`, {
+        logger.info(`[GSMRS] 评论已发布到 GitHub Issue ${repo}#${issueNumber}`, {
           messageId: message.id,
           commentId: response.data.id,
         });
-        return true;
+        return {
+          success: true,
+          messageId: response.data.id,
+          issue: { repo, issueNumber, commentId: response.data.id },
+        };
       } else {
         logger.error('[GSMRS] 发布 GitHub 评论失败', {
           status: response.status,
           messageId: message.id,
         });
-        return false;
+        return { success: false, error: `GitHub API returned status ${response.status}` };
       }
     } catch (error: any) {
       logger.error('[GSMRS] 发布 GitHub 评论时出错', {
@@ -94,47 +299,61 @@ export class GitHubService {
         messageId: message.id,
         data: safeLog(error.response?.data),
       });
-      return false;
+      return GitHubService.failure(error);
     }
   }
 
   /**
-   * Create a new issue
+   * Create a new issue with mapped labels, assignees and milestone
    */
-  async createIssue(message: NormalizedMessage): Promise<boolean> {
-    if (!this.enabled || !this.token || !this.repo) {
-      logger.warn('[GSMRS] GitHub 服务已禁用或未配置');
-      return false;
-    }
+  private async createIssue(
+    message: NormalizedMessage,
+    settings: GitHubChannelConfig,
+    channel?: string
+  ): Promise<GitHubDeliveryResult> {
+    const repo = settings.repo;
+    const metadata = message.metadata || {};
 
     try {
-      const title = message.title || `Message from ${message.source}`;
-      let body = message.content;
-      if (message.author) {
-        body += `\n\n---\n_From: ${message.author}_`;
+      const rendered = this.templates.render(message, channel);
+      const title = rendered.subject.replace(/[\r\n]+/g, ' ').trim().substring(0, MAX_TITLE_LENGTH)
+        || `Message from ${message.source}`;
+
+      const payload: Record<string, unknown> = { title, body: rendered.body };
+      const labels = this.mapLabels(message, settings);
+      if (labels.length > 0) {
+        payload.labels = labels;
+      }
+      const assignees = Array.from(new Set([...(settings.assignees || []), ...toList(metadata.assignees)]));
+      if (assignees.length > 0) {
+        payload.assignees = assignees;
       }
-      if (message.source) {
-        body += `\n_Source: ${message.source}_`;
+      const milestone = await this.resolveMilestone(repo, metadata.milestone ?? settings.milestone);
+      if (milestone !== undefined) {
+        payload.milestone = milestone;
       }
 
-      const response = await this.api.post(`/repos/${this.repo}/issues`, {
-        title,
-        body,
-        labels: ['notification'],
-      });
+      const response = await this.api.post(`/repos/${repo}/issues`, payload);
 
       if (response.status === 201) {
-        logger.info(`[GSMRS] GitHub Issue 已创建`, {
+        logger.info(`[GSMRS] GitHub Issue 已创建 ${repo}#${response.data.number}`, {
           messageId: message.id,
-          issueNumber: response.data.number,
+          labels,
+          assignees,
+          milestone,
         });
-        return true;
+        return {
+          success: true,
+          messageId: response.data.number,
+          issue: { repo, issueNumber: response.data.number },
+          created: true,
+        };
       } else {
         logger.error('[GSMRS] 创建 GitHub Issue 失败', {
           status: response.status,
           messageId: message.id,
         });
-        return false;
+        return { success: false, error: `GitHub API returned status ${response.status}` };
       }
     } catch (error: any) {
       logger.error('[GSMRS] 创建 GitHub Issue 时出错', {
@@ -142,35 +361,251 @@ export class GitHubService {
         messageId: message.id,
         data: safeLog(error.response?.data),
       });
-      return false;
+      return GitHubService.failure(error);
+    }
+  }
+
+  /**
+   * Close or reopen an issue, then post the remaining text as a comment
+   */
+  private async setIssueState(
+    message: NormalizedMessage,
+    issue: GitHubThreadRef,
+    state: 'open' | 'closed',
+    comment: string | undefined,
+    channel?: string
+  ): Promise<GitHubDeliveryResult> {
+    const { repo, issueNumber } = issue;
+
+    // 先修改状态再评论：状态修改是幂等的，评论失败重试时不会重复关闭
+    try {
+      await this.api.patch(`/repos/${repo}/issues/${issueNumber}`, { state });
+      logger.info(`[GSMRS] GitHub Issue ${repo}#${issueNumber} 已${state === 'closed' ? '关闭' : '重新打开'}`, {
+        messageId: message.id,
+        author: message.author,
+      });
+    } catch (error: any) {
+      logger.error('[GSMRS] 修改 GitHub Issue 状态时出错', {
+        error: error.message,
+        messageId: message.id,
+        data: safeLog(error.response?.data),
+      });
+      return GitHubService.failure(error);
     }
+
+    if (!comment) {
+      return { success: true, issue: { repo, issueNumber } };
+    }
+    return this.postComment({ ...message, content: comment }, issue, channel);
   }
 
   /**
-   * Check if event was already processed (deduplication)
+   * Merge channel settings over top-level settings; channels with their own issue_number default to comment mode
    */
-  isEventProcessed(eventId: string): boolean {
-    return this.processedEvents.has(eventId);
+  private resolveChannel(channel?: string): GitHubChannelConfig | undefined {
+    if (!channel) {
+      return { ...this.delivery, repo: this.repo, issue_number: this.issueNumber };
+    }
+    const target = this.channels[channel];
+    if (!target) {
+      return undefined;
+    }
+    return { ...this.delivery, ...(target.issue_number ? { mode: 'comment' as const } : {}), ...target };
   }
 
   /**
-   * Mark event as processed
+   * Conversation key: configured template, else metadata.thread, else source and chat
    */
-  markEventProcessed(eventId: string): void {
-    this.processedEvents.add(eventId);
-    // Keep only last 1000 events in memory
-    if (this.processedEvents.size > 1000) {
-      const first = this.processedEvents.values().next().value;
-      if (first) {
-        this.processedEvents.delete(first);
+  private conversationKey(settings: GitHubChannelConfig, message: NormalizedMessage): string {
+    const metadata = message.metadata || {};
+    let key: string;
+    if (settings.conversation_key) {
+      const context = TemplateRenderer.buildContext(message, 'github');
+      key = TemplateRenderer.render(settings.conversation_key, context, 'text').trim();
+    } else if (metadata.thread !== undefined) {
+      key = String(metadata.thread);
+    } else {
+      key = metadata.chatId !== undefined ? `${message.source}:${metadata.chatId}` : message.source;
+    }
+    return `${settings.repo.toLowerCase()}#${key || message.source}`;
+  }
+
+  /**
+   * Default labels, metadata.labels and label_map matches
+   */
+  private mapLabels(message: NormalizedMessage, settings: GitHubChannelConfig): string[] {
+    const metadata = message.metadata || {};
+    const labels = [...(settings.labels ?? DEFAULT_LABELS), ...toList(metadata.labels)];
+
+    for (const [rule, mapped] of Object.entries(settings.label_map || {})) {
+      const separator = rule.indexOf(':');
+      if (separator <= 0) {
+        continue;
       }
+      const field = rule.substring(0, separator);
+      const expected = rule.substring(separator + 1).toLowerCase();
+      const value = GitHubService.isLabelMessageField(field) ? message[field] : metadata[field];
+      if (toList(value).some(item => item.toLowerCase() === expected)) {
+        labels.push(...mapped);
+      }
+    }
+
+    return Array.from(new Set(labels));
+  }
+
+  /**
+   * Whether a label_map field is read from the message itself instead of metadata
+   */
+  private static isLabelMessageField(field: string): field is LabelMessageField {
+    return (LABEL_MESSAGE_FIELDS as readonly string[]).includes(field);
+  }
+
+  /**
+   * Milestone number from a number or title (looked up among open milestones)
+   */
+  private async resolveMilestone(repo: string, value: unknown): Promise<number | undefined> {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    if (Number.isInteger(Number(value))) {
+      return Number(value);
+    }
+
+    const title = String(value).toLowerCase();
+    let milestones = this.milestones.get(repo);
+    if (!milestones?.has(title)) {
+      try {
+        const response = await this.api.get(`/repos/${repo}/milestones`, { params: { state: 'open', per_page: 100 } });
+        milestones = new Map(response.data.map((item: any) => [String(item.title).toLowerCase(), item.number]));
+        this.milestones.set(repo, milestones);
+      } catch (error: any) {
+        logger.warn('[GSMRS] 获取 GitHub 里程碑失败', { repo, error: error.message });
+        return undefined;
+      }
+    }
+
+    const number = milestones?.get(title);
+    if (number === undefined) {
+      logger.warn('[GSMRS] 未找到 GitHub 里程碑，忽略', { repo, milestone: value });
+    }
+    return number;
+  }
+
+  /**
+   * Parse "/close [comment]" or "/reopen [comment]"
+   */
+  private static parseStateCommand(content: string): { state: 'open' | 'closed'; comment?: string } | undefined {
+    const match = content.trim().match(STATE_COMMAND_PATTERN);
+    if (!match) {
+      return undefined;
     }
+    return {
+      state: match[1].toLowerCase() === 'close' ? 'closed' : 'open',
+      comment: match[2]?.trim() || undefined,
+    };
   }
 
   /**
-   * Check if sender is a bot (to prevent infinite loops)
+   * State commands are honoured only from Telegram admins and allowlisted mail senders relayed by a trusted MTA
+   */
+  private static canChangeState(message: NormalizedMessage, settings: GitHubChannelConfig): boolean {
+    const metadata = message.metadata || {};
+    if (message.source === 'telegram') {
+      const admins = ConfigLoader.getConfig().telegram?.admins || [];
+      return TelegramService.isAdmin({ id: metadata.userId, username: metadata.username }, admins);
+    }
+    if (message.source === 'mail') {
+      // 监听本身不认证发件人，From 头和信封都可伪造，只信任由前置 MTA 转投的邮件
+      const senders = settings.state_command_senders || [];
+      return metadata.trustedRelay === true
+        && senders.length > 0
+        && [metadata.from, metadata.envelopeFrom].every(address => typeof address === 'string' && matchesAddress(address, senders));
+    }
+    return false;
+  }
+
+  /**
+   * Failed result; rate-limited requests carry the wait time so the queue reschedules without using a retry
+   */
+  private static failure(error: any): GitHubDeliveryResult {
+    return {
+      success: false,
+      error: error.response?.data?.message
+        ? `GitHub API error (${error.response.status}): ${error.response.data.message}`
+        : error.message,
+      retryAfterMs: GitHubService.rateLimitDelay(error.response),
+    };
+  }
+
+  /**
+   * Wait time of a rate-limited response: Retry-After (secondary limit) or until X-RateLimit-Reset (primary limit)
+   */
+  private static rateLimitDelay(response: AxiosResponse | undefined): number | undefined {
+    if (!response || (response.status !== 403 && response.status !== 429)) {
+      return undefined;
+    }
+
+    const retryAfter = Number(response.headers['retry-after']);
+    if (response.headers['retry-after'] !== undefined && !isNaN(retryAfter)) {
+      return retryAfter * 1000;
+    }
+    if (response.headers['x-ratelimit-remaining'] === '0') {
+      const reset = Number(response.headers['x-ratelimit-reset']) * 1000;
+      return Math.max(reset - Date.now(), 0) + RATE_LIMIT_MARGIN;
+    }
+    // 没有限流头的 403 是权限问题，按普通失败处理
+    return undefined;
+  }
+
+  /**
+   * Record the remaining budget from response headers
+   */
+  private trackRateLimit(response: AxiosResponse | undefined): void {
+    const headers = response?.headers;
+    if (headers?.['x-ratelimit-remaining'] === undefined) {
+      return;
+    }
+
+    const wasAbove = (this.rateLimit?.remaining ?? Infinity) >= RATE_LIMIT_WARN_THRESHOLD;
+    this.rateLimit = {
+      resource: headers['x-ratelimit-resource'] || 'core',
+      limit: Number(headers['x-ratelimit-limit']),
+      remaining: Number(headers['x-ratelimit-remaining']),
+      used: Number(headers['x-ratelimit-used']),
+      reset: new Date(Number(headers['x-ratelimit-reset']) * 1000).toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (wasAbove && this.rateLimit.remaining < RATE_LIMIT_WARN_THRESHOLD) {
+      logger.warn('[GSMRS] GitHub API 配额即将耗尽', this.rateLimit);
+    }
+  }
+
+  /**
+   * Latest known API budget
+   */
+  getRateLimit(): GitHubRateLimit | undefined {
+    return this.rateLimit;
+  }
+
+  /**
+   * Milliseconds until the budget resets when it is exhausted, otherwise 0
+   */
+  getRateLimitWait(): number {
+    if (!this.rateLimit || this.rateLimit.remaining > 0) {
+      return 0;
+    }
+    return Math.max(new Date(this.rateLimit.reset).getTime() - Date.now(), 0) + RATE_LIMIT_MARGIN;
+  }
+
+  /**
+   * Check if sender is a bot or the App itself (to prevent infinite loops)
    */
   isBotUser(sender: any): boolean {
+    const appLogin = this.app?.botLogin;
+    if (appLogin && sender?.login?.toLowerCase() === appLogin.toLowerCase()) {
+      return true;
+    }
     return sender?.type === 'Bot' || sender?.login?.endsWith('[bot]');
   }
 
@@ -178,7 +613,7 @@ export class GitHubService {
    * Health check
    */
   async healthCheck(): Promise<boolean> {
-    if (!this.enabled || !this.token || !this.repo) {
+    if (!this.enabled || !this.isConfigured()) {
       return false;
     }
 
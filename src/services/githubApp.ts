@@ -0,0 +1,127 @@
+/**
+ * GitHub App 认证模块
+ *
+ * 原理：
+ * - 使用 App 私钥（PEM）签发 RS256 JWT（有效期 10 分钟，iat 提前 60 秒以容忍时钟偏差）
+ * - 用 JWT 调用 POST /app/installations/{id}/access_tokens 换取安装访问令牌（有效期 1 小时）
+ * - 令牌缓存在内存中，距过期不足 5 分钟时刷新；并发请求共享同一次刷新
+ * - 通过 GET /app 获取 App 的 slug，App 发布的评论署名为 "<slug>[bot]"，用于识别自身触发的事件
+ *
+ * 选型理由：
+ * - 使用 Node.js 内置 crypto 签名：JWT 结构简单，无需引入额外依赖
+ * - App 身份而非个人令牌：权限按仓库授予，不依赖某个成员的账号，评论以 Bot 身份发布
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import axios, { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+
+const JWT_LIFETIME = 9 * 60; // seconds, GitHub allows at most 10 minutes
+const CLOCK_SKEW = 60; // seconds
+const REFRESH_MARGIN = 5 * 60 * 1000;
+
+export interface GitHubAppCredentials {
+  appId: number | string;
+  privateKeyPath: string;
+  installationId: number | string;
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+function base64url(data: string | Buffer): string {
+  return Buffer.from(data).toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+export class GitHubAppAuth {
+  private appId: string;
+  private installationId: string;
+  private privateKey: crypto.KeyObject;
+  private api: AxiosInstance;
+  private cached?: InstallationToken;
+  private pending?: Promise<string>;
+  private login?: string;
+
+  constructor(credentials: GitHubAppCredentials, api: AxiosInstance) {
+    this.appId = String(credentials.appId);
+    this.installationId = String(credentials.installationId);
+    this.privateKey = crypto.createPrivateKey(
+      fs.readFileSync(path.resolve(process.cwd(), credentials.privateKeyPath), 'utf8')
+    );
+    this.api = api;
+  }
+
+  /**
+   * Bot login of the App ("<slug>[bot]"), known after loadIdentity
+   */
+  get botLogin(): string | undefined {
+    return this.login;
+  }
+
+  /**
+   * Sign a JWT identifying the App
+   */
+  createJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({
+      iat: now - CLOCK_SKEW,
+      exp: now + JWT_LIFETIME,
+      iss: this.appId,
+    }));
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), this.privateKey);
+    return `${header}.${payload}.${base64url(signature)}`;
+  }
+
+  /**
+   * Cached installation access token, refreshed shortly before expiry
+   */
+  async getToken(): Promise<string> {
+    if (this.cached && this.cached.expiresAt - Date.now() > REFRESH_MARGIN) {
+      return this.cached.token;
+    }
+
+    if (!this.pending) {
+      this.pending = this.refresh().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Look up the App slug to recognize comments posted by the App
+   */
+  async loadIdentity(): Promise<string> {
+    const response = await this.api.get('/app', {
+      headers: { Authorization: `Bearer ${this.createJwt()}` },
+    });
+    this.login = `${response.data.slug}[bot]`;
+    logger.info('[GSMRS] GitHub App 身份已确认', { appId: this.appId, login: this.login });
+    return this.login;
+  }
+
+  private async refresh(): Promise<string> {
+    const response = await this.api.post(
+      `/app/installations/${this.installationId}/access_tokens`,
+      {},
+      { headers: { Authorization: `Bearer ${this.createJwt()}` } }
+    );
+
+    this.cached = {
+      token: response.data.token,
+      expiresAt: new Date(response.data.expires_at).getTime(),
+    };
+    logger.info('[GSMRS] GitHub App 安装令牌已刷新', {
+      installationId: this.installationId,
+      expiresAt: response.data.expires_at,
+    });
+    return this.cached.token;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * GitHub 事件标准化模块
+ *
+ * 原理：
+ * - 每种 Webhook 事件（X-GitHub-Event）对应一个标准化函数，提取标题、正文、作者和链接
+ * - 部分事件带过滤条件：workflow_run / check_run 只转发失败结果
+ * - 事件/动作白名单（github.events）决定哪些事件被转发，未配置时使用内置默认值
+ * - metadata 统一包含 event、action、repository、url，便于路由规则和模板使用
+ *
+ * 选型理由：
+ * - 按事件拆分：不同事件的负载结构差异很大，集中在一个 switch 中难以维护
+ * - 白名单：GitHub 事件量大，默认只转发有意义的动作，避免刷屏
+ */
+import { ContentFormat, GitHubWebhookPayload } from '../types';
+import { ConfigLoader } from '../config/loader';
+
+export interface GitHubEventSummary {
+  title?: string;
+  content: string;
+  // Issue、评论、PR、发布说明等正文为 GitHub Markdown
+  format?: ContentFormat;
+  author?: string;
+  metadata: Record<string, any>;
+}
+
+interface GitHubEventHandler {
+  // 标准化所需的负载字段，缺失时视为无效负载
+  requires?: Array<keyof GitHubWebhookPayload>;
+  // 返回 false 时不转发（例如成功的 workflow_run）
+  filter?: (payload: GitHubWebhookPayload) => boolean;
+  normalize: (payload: GitHubWebhookPayload) => GitHubEventSummary;
+}
+
+type EventAllowlist = Record<string, string[] | '*'>;
+
+const DEFAULT_EVENTS: EventAllowlist = {
+  issues: '*',
+  issue_comment: ['created'],
+  pull_request: ['opened', 'closed', 'reopened', 'ready_for_review'],
+  pull_request_review: ['submitted'],
+  push: '*',
+  release: ['published'],
+  workflow_run: ['completed'],
+  check_run: ['completed'],
+  discussion: ['created', 'answered'],
+  star: ['created'],
+  fork: '*',
+};
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'startup_failure', 'action_required'];
+
+function firstLine(text: string | undefined): string {
+  return (text || '').split('\n')[0];
+}
+
+function baseMetadata(event: string, payload: GitHubWebhookPayload, url?: string): Record<string, any> {
+  return {
+    event,
+    action: payload.action,
+    repository: payload.repository?.full_name,
+    sender: payload.sender?.login,
+    url,
+  };
+}
+
+const HANDLERS: Record<string, GitHubEventHandler> = {
+  issues: {
+    requires: ['issue'],
+    normalize: (p) => ({
+      title: p.issue!.title,
+      content: p.issue!.body || '',
+      format: 'markdown',
+      author: p.issue!.user?.login,
+      metadata: {
+        ...baseMetadata('issues', p, p.issue!.html_url),
+        issueNumber: p.issue!.number,
+      },
+    }),
+  },
+
+  issue_comment: {
+    requires: ['issue', 'comment'],
+    normalize: (p) => ({
+      title: `Comment on #${p.issue!.number}: ${p.issue!.title}`,
+      content: p.comment!.body || '',
+      format: 'markdown',
+      author: p.comment!.user?.login,
+      metadata: {
+        ...baseMetadata('issue_comment', p, p.comment!.html_url),
+        issueNumber: p.issue!.number,
+        commentId: p.comment!.id,
+        isPullRequest: !!p.issue!.pull_request,
+      },
+    }),
+  },
+
+  pull_request: {
+    requires: ['pull_request'],
+    normalize: (p) => {
+      const pr = p.pull_request!;
+      const state = p.action === 'closed' && pr.merged ? 'merged' : p.action;
+      return {
+        title: `Pull request #${pr.number} ${state}: ${pr.title}`,
+        content: pr.body || '',
+        format: 'markdown',
+        author: pr.user?.login,
+        metadata: {
+          ...baseMetadata('pull_request', p, pr.html_url),
+          issueNumber: pr.number,
+          merged: !!pr.merged,
+          base: pr.base?.ref,
+          head: pr.head?.ref,
+        },
+      };
+    },
+  },
+
+  pull_request_review: {
+    requires: ['pull_request', 'review'],
+    normalize: (p) => {
+      const pr = p.pull_request!;
+      const review = p.review!;
+      return {
+        title: `Review ${review.state} on #${pr.number}: ${pr.title}`,
+        content: review.body || '',
+        format: 'markdown',
+        author: review.user?.login,
+        metadata: {
+          ...baseMetadata('pull_request_review', p, review.html_url),
+          issueNumber: pr.number,
+          reviewState: review.state,
+        },
+      };
+    },
+  },
+
+  push: {
+    filter: (p) => (p.commits?.length ?? 0) > 0 || !!p.created || !!p.deleted,
+    normalize: (p) => {
+      const ref = p.ref || '';
+      const branch = ref.replace(/^refs\/(heads|tags)\//, '');
+      const commits = p.commits || [];
+      let title: string;
+      if (p.deleted) {
+        title = `Deleted ${branch}`;
+      } else if (commits.length === 0) {
+        title = `Created ${branch}`;
+      } else {
+        title = `Pushed ${commits.length} commit${commits.length > 1 ? 's' : ''} to ${branch}`;
+      }
+      return {
+        title,
+        content: commits
+          .map(commit => `- ${commit.id.substring(0, 7)} ${firstLine(commit.message)} (${commit.author?.username || commit.author?.name || 'unknown'})`)
+          .join('\n'),
+        author: p.pusher?.name || p.sender?.login,
+        metadata: {
+          ...baseMetadata('push', p, p.compare),
+          ref,
+          branch,
+          commitCount: commits.length,
+        },
+      };
+    },
+  },
+
+  release: {
+    requires: ['release'],
+    normalize: (p) => {
+      const release = p.release!;
+      return {
+        title: `Release ${release.name || release.tag_name} ${p.action}`,
+        content: release.body || '',
+        format: 'markdown',
+        author: release.author?.login,
+        metadata: {
+          ...baseMetadata('release', p, release.html_url),
+          tag: release.tag_name,
+          prerelease: !!release.prerelease,
+        },
+      };
+    },
+  },
+
+  workflow_run: {
+    requires: ['workflow_run'],
+    filter: (p) => FAILED_CONCLUSIONS.includes(p.workflow_run?.conclusion || ''),
+    normalize: (p) => {
+      const run = p.workflow_run!;
+      return {
+        title: `Workflow "${run.name}" ${run.conclusion} on ${run.head_branch}`,
+        content: [
+          `Conclusion: ${run.conclusion}`,
+          `Branch: ${run.head_branch}`,
+          `Commit: ${run.head_sha.substring(0, 7)} ${firstLine(run.head_commit?.message)}`.trim(),
+          `Run: #${run.run_number}`,
+        ].join('\n'),
+        author: run.actor?.login || p.sender?.login,
+        metadata: {
+          ...baseMetadata('workflow_run', p, run.html_url),
+          conclusion: run.conclusion,
+          branch: run.head_branch,
+        },
+      };
+    },
+  },
+
+  check_run: {
+    requires: ['check_run'],
+    filter: (p) => FAILED_CONCLUSIONS.includes(p.check_run?.conclusion || ''),
+    normalize: (p) => {
+      const check = p.check_run!;
+      return {
+        title: `Check "${check.name}" ${check.conclusion}`,
+        content: [
+          `Conclusion: ${check.conclusion}`,
+          `Commit: ${check.head_sha.substring(0, 7)}`,
+          check.output?.title,
+          check.output?.summary,
+        ].filter(Boolean).join('\n'),
+        format: 'markdown',
+        author: p.sender?.login,
+        metadata: {
+          ...baseMetadata('check_run', p, check.html_url),
+          conclusion: check.conclusion,
+        },
+      };
+    },
+  },
+
+  discussion: {
+    requires: ['discussion'],
+    normalize: (p) => {
+      const discussion = p.discussion!;
+      return {
+        title: `Discussion #${discussion.number} ${p.action}: ${discussion.title}`,
+        content: discussion.body || '',
+        format: 'markdown',
+        author: discussion.user?.login,
+        metadata: {
+          ...baseMetadata('discussion', p, discussion.html_url),
+          discussionNumber: discussion.number,
+          category: discussion.category?.name,
+        },
+      };
+    },
+  },
+
+  star: {
+    normalize: (p) => ({
+      title: `${p.sender?.login} starred ${p.repository?.full_name}`,
+      content: `Stargazers: ${p.repository?.stargazers_count ?? 'unknown'}`,
+      author: p.sender?.login,
+      metadata: baseMetadata('star', p, p.repository?.html_url),
+    }),
+  },
+
+  fork: {
+    requires: ['forkee'],
+    normalize: (p) => ({
+      title: `${p.forkee?.owner?.login || p.sender?.login} forked ${p.repository?.full_name}`,
+      content: `New fork: ${p.forkee?.full_name}`,
+      author: p.sender?.login,
+      metadata: baseMetadata('fork', p, p.forkee?.html_url),
+    }),
+  },
+};
+
+/**
+ * Check event/action against github.events allowlist
+ */
+export function isGitHubEventAllowed(event: string, action?: string): boolean {
+  if (!HANDLERS[event]) {
+    return false;
+  }
+
+  const allowlist = ConfigLoader.getConfig().github?.events || DEFAULT_EVENTS;
+  const actions = allowlist[event];
+  if (!actions) {
+    return false;
+  }
+  // 没有 action 的事件（push、fork）只要列出即转发
+  return actions === '*' || !action || actions.includes(action);
+}
+
+/**
+ * Get the first required payload field that is missing, if any
+ */
+export function missingGitHubPayloadField(event: string, payload: GitHubWebhookPayload): string | undefined {
+  return HANDLERS[event]?.requires?.find(field => !payload[field]);
+}
+
+/**
+ * Check payload passes the event filter (e.g. failures only)
+ */
+export function shouldForwardGitHubEvent(event: string, payload: GitHubWebhookPayload): boolean {
+  const handler = HANDLERS[event];
+  return !!handler && (!handler.filter || handler.filter(payload));
+}
+
+/**
+ * Extract title, content, author and metadata from a webhook payload
+ */
+export function normalizeGitHubEvent(event: string, payload: GitHubWebhookPayload): GitHubEventSummary {
+  const handler = HANDLERS[event];
+  if (!handler) {
+    throw new Error(`Unsupported GitHub event: ${event}`);
+  }
+  return handler.normalize(payload);
+}
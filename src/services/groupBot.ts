@@ -0,0 +1,304 @@
+/**
+ * 群机器人公共模块
+ *
+ * 原理：
+ * - 飞书 / Lark、钉钉、企业微信的自定义群机器人都是“向 Webhook 地址 POST JSON”，这里实现三者共用的流程，
+ *   各平台服务只负责组装请求（消息结构、签名）和解析响应
+ * - 三种消息类型（msg_type，可按频道覆盖）：
+ *   - text：纯文本，模板按纯文本渲染
+ *   - markdown：模板渲染为平台支持的 Markdown 子集，subject 作为标题（钉钉用于通知预览）
+ *   - card：卡片消息，subject 为卡片标题，body 为卡片内容，消息链接（metadata.url）作为“查看详情”按钮
+ * - 关键词安全设置：配置 keywords 后，在截断前的完整渲染结果中查找关键词；不包含任何关键词，或关键词只出现在被截掉的部分时，
+ *   在开头补上第一个关键词，避免被平台拒收
+ * - 平台以 HTTP 200 + 错误码返回失败；限流错误码（或 HTTP 429）返回等待时间，由队列重新调度且不计入重试次数
+ * - 群机器人没有无副作用的探测接口，健康状态取自每个机器人最近一次投递的结果（限流不算失败）
+ * - 支持多个命名频道（channels），每个频道对应一个机器人，有各自的地址、密钥和关键词
+ *
+ * 选型理由：
+ * - 模板方法：三个平台的差异只在请求和响应格式，公共流程只实现一次
+ * - 超长消息按 UTF-8 字节截断：各平台的长度上限以字节计（如企业微信 Markdown 4096 字节）
+ * - 截断优先落在段落或行的边界上，并避开代码块内部：按字节硬切会留下未闭合的链接、粗体或代码块，平台渲染出错
+ */
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import {
+  NormalizedMessage,
+  DeliveryResult,
+  GroupBotChannelConfig,
+  GroupBotConfig,
+  GroupBotMessageType,
+  TargetType,
+} from '../types';
+import { logger, safeLog } from '../utils/logger';
+import { TemplateFormat, TemplateRenderer } from './template';
+import { parseRetryAfter } from './webhook.service';
+
+const DEFAULT_MESSAGE_TYPE: GroupBotMessageType = 'markdown';
+
+const DEFAULT_SUBJECT = '{{#title}}{{title}}{{/title}}{{^title}}Message from {{source}}{{/title}}';
+
+const DEFAULT_TEXT_TEMPLATE =
+  '{{#title}}{{title}}\n\n{{/title}}{{content}}' +
+  '{{#attachments}}{{#url}}\n📎 {{name}}: {{url}}{{/url}}{{/attachments}}' +
+  '{{#author}}\n\nFrom: {{author}}{{/author}}{{#metadata.url}}\n{{metadata.url}}{{/metadata.url}}';
+
+const DEFAULT_MARKDOWN_TEMPLATE =
+  '{{#title}}**{{title}}**\n\n{{/title}}{{content}}' +
+  '{{#attachments}}{{#url}}\n\n📎 [{{name}}]({{{url}}}){{/url}}{{/attachments}}' +
+  '{{#author}}\n\nFrom: {{author}}{{/author}}{{#metadata.url}}\n\n[{{metadata.url}}]({{{metadata.url}}}){{/metadata.url}}';
+
+const DEFAULT_CARD_TEMPLATE =
+  '{{content}}{{#attachments}}{{#url}}\n\n📎 [{{name}}]({{{url}}}){{/url}}{{/attachments}}' +
+  '{{#author}}\n\nFrom: {{author}} · {{source}}{{/author}}';
+
+export interface GroupBotContent {
+  type: GroupBotMessageType;
+  title: string;
+  text: string;
+  // 卡片“查看详情”按钮的地址
+  url?: string;
+}
+
+export interface GroupBotRequest {
+  url: string;
+  body: Record<string, any>;
+}
+
+export interface GroupBotResponse {
+  ok: boolean;
+  error?: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * Cut text to at most maxBytes of UTF-8, ending with an ellipsis
+ */
+export function truncateBytes(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text);
+  if (bytes.length <= maxBytes) {
+    return text;
+  }
+  // 省略号占 3 字节，放不下时不加；截断处不完整的多字节字符解码为 U+FFFD，去掉
+  const ellipsis = maxBytes >= 3 ? '…' : '';
+  const kept = bytes.subarray(0, Math.max(maxBytes - Buffer.byteLength(ellipsis), 0));
+  return `${kept.toString('utf8').replace(/\uFFFD+$/, '')}${ellipsis}`;
+}
+
+/**
+ * Cut text to at most maxBytes of UTF-8 at a paragraph or line boundary outside code fences
+ */
+export function truncateLines(text: string, maxBytes: number): string {
+  if (Buffer.byteLength(text) <= maxBytes) {
+    return text;
+  }
+
+  // 截断处另起一行写省略号（换行 1 字节 + 省略号 3 字节）
+  const budget = maxBytes - 4;
+  const lines = text.split('\n');
+  let end = 0;
+  let bytes = 0;
+  let fenced = false;
+  let lineCut: { end: number; bytes: number } | undefined;
+  let blockCut: { end: number; bytes: number } | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    bytes += Buffer.byteLength(line) + (i > 0 ? 1 : 0);
+    end += line.length + (i > 0 ? 1 : 0);
+    if (bytes > budget) {
+      break;
+    }
+    if (/^\s*(```|~~~)/.test(line)) {
+      fenced = !fenced;
+    }
+    if (!fenced && line.trim()) {
+      lineCut = { end, bytes };
+      if (!lines[i + 1]?.trim()) {
+        blockCut = lineCut;
+      }
+    }
+  }
+
+  // 段落边界丢弃的内容过多时退而在行边界截断，第一行就超出上限时按字节截断
+  const cut = blockCut && blockCut.bytes >= budget / 2 ? blockCut : lineCut;
+  if (!cut) {
+    return truncateBytes(text, maxBytes);
+  }
+  return `${text.slice(0, cut.end)}\n…`;
+}
+
+export interface GroupBotOptions {
+  // 日志中的平台名称
+  name: string;
+  // Markdown 和卡片内容的渲染格式
+  format: TemplateFormat;
+  cardFormat?: TemplateFormat;
+  // 各消息类型的长度上限（字节）
+  maxBytes: Record<GroupBotMessageType, number>;
+}
+
+export abstract class GroupBotService {
+  protected readonly target: TargetType;
+  protected readonly name: string;
+  private defaultBot?: GroupBotChannelConfig;
+  private defaultType: GroupBotMessageType;
+  private channels: Record<string, GroupBotChannelConfig>;
+  private maxBytes: Record<GroupBotMessageType, number>;
+  private enabled: boolean;
+  private templates: Record<GroupBotMessageType, TemplateRenderer>;
+  // 每个机器人最近一次投递失败的原因，成功后清除
+  private lastErrors: Map<string, string> = new Map();
+  protected api: AxiosInstance;
+
+  constructor(target: TargetType, config: GroupBotConfig | undefined, options: GroupBotOptions) {
+    this.target = target;
+    this.name = options.name;
+    this.enabled = config?.enable ?? false;
+    this.defaultBot = config?.webhook_url ? config : undefined;
+    this.defaultType = config?.msg_type || DEFAULT_MESSAGE_TYPE;
+    this.channels = config?.channels || {};
+    this.maxBytes = options.maxBytes;
+    this.templates = {
+      text: new TemplateRenderer(target, 'text', { subject: DEFAULT_SUBJECT, body: DEFAULT_TEXT_TEMPLATE }),
+      markdown: new TemplateRenderer(target, options.format, { subject: DEFAULT_SUBJECT, body: DEFAULT_MARKDOWN_TEMPLATE }),
+      card: new TemplateRenderer(target, options.cardFormat || options.format, {
+        subject: DEFAULT_SUBJECT,
+        body: DEFAULT_CARD_TEMPLATE,
+      }),
+    };
+    this.api = axios.create({
+      timeout: 15000,
+      headers: { 'User-Agent': 'DS-GSMRS/1.0' },
+      validateStatus: () => true,
+    });
+
+    if (!this.enabled) {
+      logger.info(`[GSMRS] ${this.name}机器人已禁用`);
+    } else if (!this.defaultBot && Object.keys(this.channels).length === 0) {
+      logger.warn(`[GSMRS] ${this.name}机器人已启用但未配置 webhook_url`);
+    }
+  }
+
+  /**
+   * Platform request for rendered content, including the signature when a secret is set
+   */
+  protected abstract buildRequest(bot: GroupBotChannelConfig, content: GroupBotContent): GroupBotRequest;
+
+  /**
+   * Platform result of a response: error code and rate limiting
+   */
+  protected abstract parseResponse(response: AxiosResponse): GroupBotResponse;
+
+  /**
+   * Send message to the default bot or a named channel
+   */
+  async sendMessage(message: NormalizedMessage, channel?: string): Promise<DeliveryResult> {
+    if (!this.enabled) {
+      logger.warn(`[GSMRS] ${this.name}机器人已禁用`);
+      return { success: false, error: `${this.target} bot is disabled` };
+    }
+
+    const bot = channel ? this.channels[channel] : this.defaultBot;
+    if (!bot?.webhook_url) {
+      logger.error(`[GSMRS] 未知的${this.name}频道或未配置 webhook_url`, { channel });
+      return { success: false, error: channel ? `Unknown ${this.target} channel: ${channel}` : `${this.target} webhook URL is not configured` };
+    }
+
+    const key = channel || 'default';
+    try {
+      const content = this.render(message, channel, bot);
+      const request = this.buildRequest(bot, content);
+      const response = await this.api.post(request.url, request.body);
+      const result = this.parseResponse(response);
+
+      if (result.ok) {
+        this.lastErrors.delete(key);
+        logger.info(`[GSMRS] ${this.name}消息发送成功`, { messageId: message.id, channel, type: content.type });
+        return { success: true };
+      }
+
+      if (result.retryAfterMs !== undefined) {
+        logger.warn(`[GSMRS] ${this.name}机器人限流，稍后重试`, {
+          messageId: message.id,
+          channel,
+          retryAfterMs: result.retryAfterMs,
+        });
+      } else {
+        this.lastErrors.set(key, result.error || 'unknown error');
+        logger.error(`[GSMRS] 发送${this.name}消息失败`, {
+          messageId: message.id,
+          channel,
+          status: response.status,
+          data: safeLog(response.data),
+        });
+      }
+      return {
+        success: false,
+        error: `${this.target} API error: ${result.error || 'unknown error'}`,
+        retryAfterMs: result.retryAfterMs,
+      };
+    } catch (error: any) {
+      this.lastErrors.set(key, error.message);
+      logger.error(`[GSMRS] 发送${this.name}消息时出错`, {
+        error: error.message,
+        messageId: message.id,
+        channel,
+      });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Render by message type, truncate to the platform limit and apply the keyword setting
+   */
+  private render(message: NormalizedMessage, channel: string | undefined, bot: GroupBotChannelConfig): GroupBotContent {
+    const url = message.metadata?.url;
+    const link = typeof url === 'string' && /^https?:\/\//i.test(url) ? url : undefined;
+    // 卡片按钮需要链接，没有链接的消息以 Markdown 发送
+    const requested = bot.msg_type || this.defaultType;
+    const type = requested === 'card' && !link ? 'markdown' : requested;
+
+    const rendered = this.templates[type].render(message, channel);
+    let title = rendered.subject.replace(/\s+/g, ' ').trim();
+    let text = truncateLines(rendered.body, this.maxBytes[type]);
+
+    // 关键词在完整正文中查找；只出现在被截掉的部分时平台同样拒收，也要补上
+    const keywords = bot.keywords || [];
+    const matched = keywords.filter(keyword => title.includes(keyword) || rendered.body.includes(keyword));
+    const kept = matched.some(keyword => title.includes(keyword) || text.includes(keyword));
+    if (keywords.length > 0 && !kept) {
+      if (type === 'card') {
+        title = `${keywords[0]} ${title}`;
+      } else {
+        // 关键词加在正文前，正文截断时预留关键词的字节，加上后仍不超过平台上限
+        const prefix = `${keywords[0]}\n${type === 'markdown' ? '\n' : ''}`;
+        const budget = this.maxBytes[type] - Buffer.byteLength(prefix);
+        text = budget > 0 ? `${prefix}${truncateLines(rendered.body, budget)}` : truncateBytes(keywords[0], this.maxBytes[type]);
+      }
+    }
+
+    return { type, title, text, url: link };
+  }
+
+  /**
+   * Rate-limit wait: Retry-After when present, otherwise the platform default
+   */
+  protected static retryAfter(response: AxiosResponse, fallbackMs: number): number {
+    return parseRetryAfter(response.headers['retry-after']) ?? fallbackMs;
+  }
+
+  /**
+   * Health from configuration and the latest delivery of each bot
+   */
+  async healthCheck(): Promise<boolean> {
+    if (!this.enabled || (!this.defaultBot && Object.keys(this.channels).length === 0)) {
+      return false;
+    }
+    if (Object.values(this.channels).some(bot => !bot.webhook_url)) {
+      return false;
+    }
+    if (this.lastErrors.size > 0) {
+      logger.error(`[GSMRS] ${this.name}机器人健康检查失败`, { errors: Object.fromEntries(this.lastErrors) });
+      return false;
+    }
+    return true;
+  }
+}
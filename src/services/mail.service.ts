@@ -3,8 +3,12 @@
  * 
  * 原理：
  * - 使用 Nodemailer 通过 SMTP 协议发送邮件
- * - 支持 HTML 和纯文本格式，自动转义 HTML 特殊字符防止注入
- * - 集成 Spam 检测，自动过滤垃圾邮件关键词
+ * - 支持 HTML 和纯文本格式，经模板渲染，变量自动转义 HTML 特殊字符防止注入
+ * - 收件人、抄送、密送均支持多个地址；支持多个命名频道（mail.channels），每个频道对应一组收件人
+ * - 可配置发件人、回复地址及显示名称；启用 overrides 后消息可通过 metadata.mailTo 替换收件人、mailCc / mailBcc 追加抄送和密送（可限制域名）
+ * - 设置 Message-ID，同一线程（如同一 GitHub Issue）的邮件以 In-Reply-To / References 指向同一个线程根，在邮件客户端中归为一组
+ * - 消息附件（如 Telegram 图片、文件）从媒体存储读取后作为邮件附件发送
+ * - 未配置 reply_to 且启用入站邮件时以收件地址作为 Reply-To，并返回 Message-ID，回复邮件可串联到原 Issue
  * - 提供邮件发送测试功能，验证 SMTP 配置
  * 
  * 选型理由：
@@ -13,16 +17,52 @@
  * - HTML 转义：防止 XSS 攻击，确保邮件安全
  */
 import * as nodemailer from 'nodemailer';
+import * as fs from 'fs';
 import { Transporter } from 'nodemailer';
-import { NormalizedMessage } from '../types';
+import { NormalizedMessage, DeliveryResult, MailRecipientConfig } from '../types';
 import { ConfigLoader } from '../config/loader';
 import { logger, safeLog } from '../utils/logger';
-import { MessageSanitizer } from './sanitizer';
+import { TemplateRenderer } from './template';
+import { matchesAddress, parseAddressList } from '../utils/mime';
+
+const DEFAULT_TEMPLATES = {
+  subject: '{{#title}}{{title}}{{/title}}{{^title}}Notification from {{source}}{{/title}}',
+  body:
+    '<html><body>{{#title}}<h2>{{title}}</h2>{{/title}}{{content}}' +
+    '{{#metadata.url}}<p><a href="{{metadata.url}}">{{metadata.url}}</a></p>{{/metadata.url}}' +
+    '{{#attachments}}{{#error}}<p><em>Attachment {{name}} not relayed: {{error}}</em></p>{{/error}}{{/attachments}}' +
+    '{{#author}}<hr><p><em>From: {{author}}</em></p>{{/author}}' +
+    '{{#source}}<p><em>Source: {{source}}</em></p>{{/source}}</body></html>',
+  text: '{{title}}\n\n{{content}}{{#metadata.url}}\n\n{{metadata.url}}{{/metadata.url}}',
+};
+
+type Address = { name: string; address: string };
+
+/**
+ * Parse configured or metadata recipients into address objects
+ */
+function toAddresses(value: string | string[] | undefined): Address[] {
+  if (!value) {
+    return [];
+  }
+  return parseAddressList(Array.isArray(value) ? value.join(', ') : String(value))
+    .map(address => ({ name: address.name || '', address: address.address }));
+}
+
+export interface MailDeliveryResult extends DeliveryResult {
+  // 已发送邮件的 Message-ID（不含尖括号），用于回复串联
+  mailMessageId?: string;
+}
 
 export class MailService {
   private transporter: Transporter | null = null;
-  private to: string = '';
+  private recipients: MailRecipientConfig = { to: [] };
+  private channels: Record<string, MailRecipientConfig> = {};
+  private from?: Address;
+  private replyTo?: Address;
+  private overrides?: { enable?: boolean; allowed?: string[] };
   private enabled: boolean = false;
+  private templates: TemplateRenderer = new TemplateRenderer('mail', 'html', DEFAULT_TEMPLATES);
 
   constructor() {
     const config = ConfigLoader.getConfig();
@@ -34,12 +74,21 @@ export class MailService {
     }
 
     const mailConfig = config.mail;
-    if (!mailConfig?.smtp || !mailConfig.to) {
+    if (!mailConfig?.smtp || toAddresses(mailConfig.to).length === 0) {
       logger.warn('[GSMRS] 邮件服务已启用但 SMTP 配置或收件人未设置');
       return;
     }
 
-    this.to = mailConfig.to;
+    this.recipients = { to: mailConfig.to, cc: mailConfig.cc, bcc: mailConfig.bcc };
+    this.channels = mailConfig.channels || {};
+    this.overrides = mailConfig.overrides;
+
+    const fromAddress = mailConfig.from || mailConfig.smtp.user;
+    this.from = { name: mailConfig.from_name || '', address: fromAddress };
+    const replyTo = mailConfig.reply_to || (mailConfig.inbound?.enable ? mailConfig.inbound.address : undefined);
+    if (replyTo) {
+      this.replyTo = { name: mailConfig.reply_to_name || mailConfig.from_name || '', address: replyTo };
+    }
 
     try {
       this.transporter = nodemailer.createTransport({
@@ -55,7 +104,7 @@ export class MailService {
       logger.info('[GSMRS] 邮件服务已初始化', {
         host: mailConfig.smtp.host,
         port: mailConfig.smtp.port,
-        to: this.to,
+        to: mailConfig.to,
       });
     } catch (error: any) {
       logger.error('[GSMRS] 初始化邮件服务失败', {
@@ -65,50 +114,42 @@ export class MailService {
   }
 
   /**
-   * Send email
+   * Send email (default recipients or named channel); messages sharing a thread key reference the same thread root
    */
-  async sendEmail(message: NormalizedMessage): Promise<boolean> {
+  async sendEmail(message: NormalizedMessage, channel?: string, threadKey?: string): Promise<MailDeliveryResult> {
     if (!this.enabled || !this.transporter) {
       logger.warn('[GSMRS] 邮件服务已禁用或未配置');
-      return false;
+      return { success: false, error: 'Mail service is disabled or not configured' };
+    }
+
+    if (channel && !this.channels[channel]) {
+      logger.error('[GSMRS] 未知的邮件频道', { channel });
+      return { success: false, error: `Unknown mail channel: ${channel}` };
     }
 
+    const recipients = this.resolveRecipients(message, channel);
+
     try {
-      // Check for spam keywords
-      const fullText = `${message.title || ''} ${message.content}`;
-      if (MessageSanitizer.isSpam(fullText)) {
-        logger.warn('[GSMRS] 消息被标记为垃圾邮件，已隔离', {
-          messageId: message.id,
-        });
-        // Could implement quarantine queue here
-        return false;
-      }
+      const rendered = this.templates.render(message, channel);
 
-      // Sanitize title to prevent injection
-      let subject = message.title || `Notification from ${message.source}`;
-      subject = subject.replace(/[\r\n]/g, ' ').substring(0, 200);
+      // Sanitize subject to prevent header injection
+      const subject = rendered.subject.replace(/[\r\n]/g, ' ').substring(0, 200);
 
-      // Format email body
-      let html = '<html><body>';
-      if (message.title) {
-        html += `<h2>${this.escapeHtml(message.title)}</h2>`;
-      }
-      html += `<p>${this.escapeHtml(message.content).replace(/\n/g, '<br>')}</p>`;
-      
-      if (message.author) {
-        html += `<hr><p><em>From: ${this.escapeHtml(message.author)}</em></p>`;
-      }
-      if (message.source) {
-        html += `<p><em>Source: ${this.escapeHtml(message.source)}</em></p>`;
-      }
-      html += '</body></html>';
+      // 同一消息重试时 Message-ID 不变，邮件客户端可据此去重
+      const domain = this.from!.address.split('@')[1] || 'localhost';
+      const threadRoot = threadKey ? `<thread.${threadKey.replace(/[^A-Za-z0-9.-]+/g, '.')}@${domain}>` : undefined;
 
       const mailOptions = {
-        from: (this.transporter.options as any).auth?.user,
-        to: this.to,
+        from: this.from,
+        ...recipients,
+        replyTo: this.replyTo,
         subject,
-        html,
-        text: `${message.title || ''}\n\n${message.content}`,
+        html: rendered.body,
+        text: rendered.text,
+        attachments: this.buildAttachments(message),
+        messageId: `<${message.id}${channel ? `.${channel}` : ''}@${domain}>`,
+        inReplyTo: threadRoot,
+        references: threadRoot,
       };
 
       const info = await this.transporter.sendMail(mailOptions);
@@ -116,30 +157,80 @@ export class MailService {
       logger.info('[GSMRS] 邮件发送成功', {
         messageId: message.id,
         messageId_email: info.messageId,
+        to: recipients.to.map(address => address.address),
+        cc: recipients.cc.length,
+        bcc: recipients.bcc.length,
       });
-      return true;
+      return { success: true, mailMessageId: info.messageId?.replace(/^<|>$/g, '') };
     } catch (error: any) {
       logger.error('[GSMRS] 发送邮件时出错', {
         error: error.message,
         messageId: message.id,
         data: safeLog(error),
       });
-      return false;
+      return { success: false, error: error.message };
     }
   }
 
   /**
-   * Escape HTML to prevent injection
+   * Channel or default recipients; with overrides, metadata.mailTo replaces To and mailCc / mailBcc add to Cc / Bcc
    */
-  private escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;',
+  private resolveRecipients(message: NormalizedMessage, channel?: string): { to: Address[]; cc: Address[]; bcc: Address[] } {
+    const base = channel ? this.channels[channel] : this.recipients;
+    const recipients = {
+      to: toAddresses(base.to),
+      cc: toAddresses(base.cc),
+      bcc: toAddresses(base.bcc),
     };
-    return text.replace(/[&<>"']/g, (m) => map[m]);
+
+    if (!this.overrides?.enable) {
+      return recipients;
+    }
+
+    const metadata = message.metadata || {};
+    const allowed = this.overrides.allowed || [];
+    const fields = { to: metadata.mailTo, cc: metadata.mailCc, bcc: metadata.mailBcc };
+    for (const [field, value] of Object.entries(fields) as Array<[keyof typeof recipients, unknown]>) {
+      if (value === undefined) {
+        continue;
+      }
+      const addresses = toAddresses(value as string | string[]).filter(address => {
+        const permitted = allowed.length === 0 || matchesAddress(address.address, allowed);
+        if (!permitted) {
+          logger.warn('[GSMRS] 消息指定的收件人不在允许范围内，已忽略', { messageId: message.id, address: address.address });
+        }
+        return permitted;
+      });
+      // mailTo 替换收件人（过滤后为空时保留配置的收件人），抄送和密送在配置之外追加，不能移除审计用的密送
+      if (field !== 'to') {
+        recipients[field].push(...addresses);
+      } else if (addresses.length > 0) {
+        recipients.to = addresses;
+      }
+    }
+    return recipients;
+  }
+
+  /**
+   * Attach downloaded files that still exist in the media store
+   */
+  private buildAttachments(message: NormalizedMessage): Array<{ filename: string; path: string; contentType?: string }> {
+    return (message.attachments || [])
+      .filter(attachment => {
+        if (!attachment.path) {
+          return false;
+        }
+        if (!fs.existsSync(attachment.path)) {
+          logger.warn('[GSMRS] 附件文件已不存在，跳过', { messageId: message.id, name: attachment.name });
+          return false;
+        }
+        return true;
+      })
+      .map(attachment => ({
+        filename: attachment.name,
+        path: attachment.path!,
+        contentType: attachment.mimeType,
+      }));
   }
 
   /**
@@ -175,7 +266,8 @@ export class MailService {
       sanitized: true,
     };
 
-    return this.sendEmail(testMessage);
+    const result = await this.sendEmail(testMessage);
+    return result.success;
   }
 }
 
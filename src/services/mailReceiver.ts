@@ -0,0 +1,446 @@
+/**
+ * 入站邮件模块
+ *
+ * 原理：
+ * - 内置精简 SMTP 监听（HELO/EHLO、MAIL、RCPT、DATA、RSET、NOOP、QUIT），接收由 MTA 转投或直接投递的邮件
+ * - 只接受 recipients 中的收件人（未配置时为 mail.inbound.address），可按 allowed_senders 限制信封发件人
+ * - 邮件解析后标准化为 mail 来源的消息：主题 → 标题，纯文本正文 → 内容，发件人 → 作者，附件保存到媒体存储
+ * - 内容无法解析或标准化时回复 554 拒收（重试结果相同）；入队、写日志等临时错误回复 451，由发件服务器稍后重试
+ * - 按 Message-ID 去重（邮件入队后才记录，回复 451 时发件服务器的重试仍会被处理）；自动回复（Auto-Submitted、Precedence: bulk 等）和本服务自己发出的邮件直接丢弃，避免循环
+ * - 与 Telegram 更新一样经过清理和路由；回复邮件的 In-Reply-To / References 由分发器匹配到对应 GitHub Issue
+ * - 监听不做发件人认证，From 头和信封发件人都可伪造；metadata 记录信封发件人，以及连接是否来自 trusted_relays 中的前置 MTA，
+ *   GitHub 状态命令等需要确认发件人的功能只接受后者
+ *
+ * 选型理由：
+ * - SMTP 监听而非 IMAP 轮询：实时送达，无需保存邮箱密码；公网部署时建议监听 127.0.0.1，由 Postfix 等 MTA 转投
+ * - 自实现而非引入 smtp-server：只需接收所需的最小命令集，不支持 AUTH / STARTTLS（由前置 MTA 负责）
+ */
+import * as net from 'net';
+import * as os from 'os';
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+import { parseMail, matchesAddress, ParsedMail } from '../utils/mime';
+import { NormalizedMessage } from '../types';
+import { Dispatcher } from './dispatcher';
+import { MessageSanitizer } from './sanitizer';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 2525;
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+const MAX_RECIPIENTS = 100;
+const MAX_LINE_LENGTH = 4096;
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * The message content cannot be processed; retrying the same message fails again
+ */
+class MailContentError extends Error {}
+
+export interface MailReceiverStatus {
+  running: boolean;
+  received: number;
+  rejected: number;
+  lastReceivedAt: string | null;
+  lastError: string | null;
+}
+
+interface SmtpSession {
+  socket: net.Socket;
+  buffer: Buffer;
+  greeted: boolean;
+  sender?: string;
+  recipients: string[];
+  data?: Buffer[];
+  dataSize: number;
+  busy: boolean;
+  lines: Buffer[];
+}
+
+export class MailReceiver {
+  private dispatcher: Dispatcher;
+  private server?: net.Server;
+  private sessions: Set<net.Socket> = new Set();
+  private host: string;
+  private port: number;
+  private hostname: string;
+  private recipients: string[];
+  private allowedSenders: string[];
+  private trustedRelays: string[];
+  private maxSize: number;
+  private ownAddresses: string[];
+  private received: number = 0;
+  private rejected: number = 0;
+  private lastReceivedAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(dispatcher: Dispatcher) {
+    const mail = ConfigLoader.getConfig().mail;
+    const inbound = mail?.inbound;
+    this.dispatcher = dispatcher;
+    this.host = inbound?.host || DEFAULT_HOST;
+    this.port = inbound?.port || DEFAULT_PORT;
+    this.hostname = inbound?.hostname || os.hostname();
+    this.recipients = inbound?.recipients || (inbound?.address ? [inbound.address] : []);
+    this.allowedSenders = inbound?.allowed_senders || [];
+    this.trustedRelays = (inbound?.trusted_relays || []).map(MailReceiver.normalizeAddress);
+    this.maxSize = inbound?.max_size || DEFAULT_MAX_SIZE;
+    // 本服务发出的邮件（发件人为 from 或 SMTP 账号）不再转发
+    this.ownAddresses = [mail?.from, mail?.smtp?.user, inbound?.address].filter((value): value is string => !!value);
+
+    if (this.recipients.length === 0) {
+      logger.warn('[GSMRS] 入站邮件未配置 address 或 recipients，将接受任意收件人');
+    }
+    const github = ConfigLoader.getConfig().github;
+    const stateSenders = [github, ...Object.values(github?.channels || {})].some(settings => settings?.state_command_senders?.length);
+    if (stateSenders && this.trustedRelays.length === 0) {
+      logger.warn('[GSMRS] 入站邮件未配置 trusted_relays，邮件中的 GitHub 状态命令不会生效');
+    }
+  }
+
+  /**
+   * Start listening for SMTP connections
+   */
+  start(): Promise<void> {
+    if (this.server) {
+      return Promise.resolve();
+    }
+
+    this.server = net.createServer(socket => this.accept(socket));
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => {
+        this.server!.off('error', reject);
+        this.server!.on('error', (error) => {
+          this.lastError = error.message;
+          logger.error('[GSMRS] SMTP 监听出错', { error: error.message });
+        });
+        logger.info('[GSMRS] 入站邮件 SMTP 监听已启动', { host: this.host, port: this.port });
+        resolve();
+      });
+    });
+  }
+
+  stop(): void {
+    this.server?.close();
+    this.server = undefined;
+    for (const socket of this.sessions) {
+      socket.destroy();
+    }
+    this.sessions.clear();
+  }
+
+  getStatus(): MailReceiverStatus {
+    return {
+      running: !!this.server,
+      received: this.received,
+      rejected: this.rejected,
+      lastReceivedAt: this.lastReceivedAt ? new Date(this.lastReceivedAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+
+  private accept(socket: net.Socket): void {
+    const session: SmtpSession = {
+      socket,
+      buffer: Buffer.alloc(0),
+      greeted: false,
+      recipients: [],
+      dataSize: 0,
+      busy: false,
+      lines: [],
+    };
+    this.sessions.add(socket);
+
+    socket.setTimeout(IDLE_TIMEOUT);
+    socket.on('timeout', () => {
+      this.reply(session, '421 4.4.2 Idle timeout, closing connection');
+      socket.end();
+    });
+    socket.on('close', () => this.sessions.delete(socket));
+    socket.on('error', (error) => logger.debug('[GSMRS] SMTP 连接出错', { error: error.message }));
+    socket.on('data', (chunk: Buffer) => this.onData(session, chunk));
+
+    this.reply(session, `220 ${this.hostname} DS-GSMRS ESMTP ready`);
+  }
+
+  private onData(session: SmtpSession, chunk: Buffer): void {
+    session.buffer = Buffer.concat([session.buffer, chunk]);
+
+    let newline: number;
+    while ((newline = session.buffer.indexOf(0x0a)) !== -1) {
+      const end = newline > 0 && session.buffer[newline - 1] === 0x0d ? newline - 1 : newline;
+      session.lines.push(session.buffer.subarray(0, end));
+      session.buffer = session.buffer.subarray(newline + 1);
+    }
+
+    if (session.buffer.length > (session.data ? this.maxSize : MAX_LINE_LENGTH)) {
+      this.reply(session, '500 5.5.2 Line too long');
+      session.socket.destroy();
+      return;
+    }
+
+    this.drain(session);
+  }
+
+  /**
+   * Handle buffered lines in order, waiting while a received message is being processed
+   */
+  private async drain(session: SmtpSession): Promise<void> {
+    if (session.busy) {
+      return;
+    }
+    session.busy = true;
+
+    while (session.lines.length > 0 && !session.socket.destroyed) {
+      const line = session.lines.shift()!;
+      if (session.data) {
+        await this.onDataLine(session, line);
+      } else {
+        this.onCommand(session, line.toString('utf8'));
+      }
+    }
+
+    session.busy = false;
+  }
+
+  private onCommand(session: SmtpSession, line: string): void {
+    const [verb, ...rest] = line.trim().split(' ');
+    const argument = rest.join(' ');
+
+    switch (verb.toUpperCase()) {
+      case 'HELO':
+        session.greeted = true;
+        this.reply(session, `250 ${this.hostname}`);
+        break;
+
+      case 'EHLO':
+        session.greeted = true;
+        this.reply(session, `250-${this.hostname}`, `250-SIZE ${this.maxSize}`, '250-8BITMIME', '250 SMTPUTF8');
+        break;
+
+      case 'MAIL': {
+        const match = argument.match(/^FROM:\s*<([^>]*)>(.*)$/i);
+        if (!session.greeted) {
+          this.reply(session, '503 5.5.1 Send HELO/EHLO first');
+        } else if (!match) {
+          this.reply(session, '501 5.5.4 Syntax: MAIL FROM:<address>');
+        } else if (Number(match[2].match(/SIZE=(\d+)/i)?.[1] || 0) > this.maxSize) {
+          this.reply(session, '552 5.3.4 Message size exceeds limit');
+        } else if (this.allowedSenders.length > 0 && !matchesAddress(match[1], this.allowedSenders)) {
+          this.rejected++;
+          logger.warn('[GSMRS] 入站邮件发件人不在白名单中，已拒绝', { sender: match[1] });
+          this.reply(session, '550 5.7.1 Sender not allowed');
+        } else {
+          session.sender = match[1];
+          session.recipients = [];
+          this.reply(session, '250 2.1.0 OK');
+        }
+        break;
+      }
+
+      case 'RCPT': {
+        const match = argument.match(/^TO:\s*<([^>]+)>/i);
+        if (session.sender === undefined) {
+          this.reply(session, '503 5.5.1 Send MAIL first');
+        } else if (!match) {
+          this.reply(session, '501 5.5.4 Syntax: RCPT TO:<address>');
+        } else if (this.recipients.length > 0 && !matchesAddress(match[1], this.recipients)) {
+          this.reply(session, '550 5.1.1 Mailbox unavailable');
+        } else if (session.recipients.length >= MAX_RECIPIENTS) {
+          this.reply(session, '452 4.5.3 Too many recipients');
+        } else {
+          session.recipients.push(match[1]);
+          this.reply(session, '250 2.1.5 OK');
+        }
+        break;
+      }
+
+      case 'DATA':
+        if (session.recipients.length === 0) {
+          this.reply(session, '503 5.5.1 Send RCPT first');
+        } else {
+          session.data = [];
+          session.dataSize = 0;
+          this.reply(session, '354 End data with <CR><LF>.<CR><LF>');
+        }
+        break;
+
+      case 'RSET':
+        session.sender = undefined;
+        session.recipients = [];
+        this.reply(session, '250 2.0.0 OK');
+        break;
+
+      case 'NOOP':
+        this.reply(session, '250 2.0.0 OK');
+        break;
+
+      case 'VRFY':
+        this.reply(session, '252 2.5.2 Cannot verify user');
+        break;
+
+      case 'QUIT':
+        this.reply(session, '221 2.0.0 Bye');
+        session.socket.end();
+        break;
+
+      default:
+        this.reply(session, '502 5.5.2 Command not implemented');
+    }
+  }
+
+  private async onDataLine(session: SmtpSession, line: Buffer): Promise<void> {
+    if (line.length === 1 && line[0] === 0x2e) {
+      const raw = session.dataSize > this.maxSize ? undefined : Buffer.concat(session.data!);
+      const envelope = {
+        sender: session.sender || '',
+        recipients: session.recipients,
+        trusted: this.trustedRelays.includes(MailReceiver.normalizeAddress(session.socket.remoteAddress || '')),
+      };
+      session.data = undefined;
+      session.sender = undefined;
+      session.recipients = [];
+
+      if (!raw) {
+        this.rejected++;
+        this.reply(session, '552 5.3.4 Message size exceeds limit');
+        return;
+      }
+
+      try {
+        const id = await this.receive(raw, envelope.sender, envelope.trusted);
+        this.reply(session, `250 2.0.0 OK${id ? ` queued as ${id}` : ''}`);
+      } catch (error: any) {
+        this.lastError = error.message;
+        if (error instanceof MailContentError) {
+          this.rejected++;
+          logger.warn('[GSMRS] 入站邮件内容无法处理，已拒收', { sender: envelope.sender, error: error.message });
+          this.reply(session, '554 5.6.0 Message content rejected');
+        } else {
+          logger.error('[GSMRS] 处理入站邮件时出错', { sender: envelope.sender, error: error.message });
+          this.reply(session, '451 4.3.0 Error processing message');
+        }
+      }
+      return;
+    }
+
+    // 超过大小限制后继续读取到结束符，但不再保存内容
+    session.dataSize += line.length + 2;
+    if (session.dataSize <= this.maxSize) {
+      // Dot-stuffing：以 . 开头的行发送时多加了一个 .
+      const content = line[0] === 0x2e ? line.subarray(1) : line;
+      session.data!.push(content, Buffer.from('\r\n'));
+    }
+  }
+
+  /**
+   * Parse, normalize and route a received email, returns the message ID when routed
+   */
+  private async receive(raw: Buffer, sender: string, trusted: boolean): Promise<string | undefined> {
+    const mail = MailReceiver.content(() => parseMail(raw));
+    this.received++;
+    this.lastReceivedAt = Date.now();
+
+    const skip = this.skipReason(mail, sender);
+    if (skip) {
+      logger.info('[GSMRS] 入站邮件已忽略', { reason: skip, from: mail.from?.address, subject: mail.subject });
+      return undefined;
+    }
+
+    const deliveryKey = mail.messageId ? `mail:${mail.messageId}` : undefined;
+    if (deliveryKey && this.dispatcher.isDuplicate(deliveryKey)) {
+      logger.info('[GSMRS] 重复的入站邮件，跳过', { messageId: mail.messageId });
+      return undefined;
+    }
+
+    const sanitized = MailReceiver.content(() => {
+      const normalized = MessageSanitizer.normalize('mail', mail);
+      normalized.metadata = { ...normalized.metadata, envelopeFrom: sender, trustedRelay: trusted };
+      return MessageSanitizer.sanitizeMessage(normalized, ConfigLoader.getConfig().security.hide_sensitive);
+    });
+
+    this.saveAttachments(sanitized, mail);
+
+    logger.info('[GSMRS] 收到入站邮件', {
+      messageId: sanitized.id,
+      from: mail.from?.address,
+      subject: mail.subject,
+      inReplyTo: mail.inReplyTo,
+      attachments: sanitized.attachments?.length,
+    });
+
+    this.dispatcher.route(sanitized);
+    if (deliveryKey) {
+      this.dispatcher.markProcessed(deliveryKey);
+    }
+    return sanitized.id;
+  }
+
+  /**
+   * Run a parsing step, marking its errors as permanent content errors
+   */
+  private static content<T>(step: () => T): T {
+    try {
+      return step();
+    } catch (error: any) {
+      throw new MailContentError(error.message);
+    }
+  }
+
+  private skipReason(mail: ParsedMail, sender: string): string | undefined {
+    const header = (name: string) => mail.headers[name]?.[0]?.toLowerCase();
+
+    const autoSubmitted = header('auto-submitted');
+    if (autoSubmitted && autoSubmitted !== 'no') {
+      return `Auto-Submitted: ${autoSubmitted}`;
+    }
+    const precedence = header('precedence');
+    if (precedence && ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) {
+      return `Precedence: ${precedence}`;
+    }
+    // 空信封发件人为退信
+    if (!sender) {
+      return 'Bounce (empty envelope sender)';
+    }
+    if (mail.from && matchesAddress(mail.from.address, this.ownAddresses)) {
+      return 'Sent by this relay';
+    }
+    return undefined;
+  }
+
+  /**
+   * Store attachment content in the media store
+   */
+  private saveAttachments(message: NormalizedMessage, mail: ParsedMail): void {
+    const media = this.dispatcher.media;
+
+    (message.attachments || []).forEach((attachment, index) => {
+      if (!media.enabled) {
+        attachment.error = 'Media relay is disabled';
+        return;
+      }
+
+      const rejection = media.check(attachment.mimeType, attachment.size);
+      if (rejection) {
+        attachment.error = rejection;
+        logger.info('[GSMRS] 附件未转发', { messageId: message.id, name: attachment.name, reason: rejection });
+        return;
+      }
+
+      media.save(attachment, mail.attachments[index].content);
+    });
+  }
+
+  /**
+   * IPv4 addresses may arrive in IPv6-mapped form (::ffff:127.0.0.1)
+   */
+  private static normalizeAddress(address: string): string {
+    return address.replace(/^::ffff:/i, '').toLowerCase();
+  }
+
+  private reply(session: SmtpSession, ...lines: string[]): void {
+    if (!session.socket.destroyed) {
+      session.socket.write(lines.map(line => `${line}\r\n`).join(''));
+    }
+  }
+}
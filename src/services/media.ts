@@ -0,0 +1,161 @@
+/**
+ * 媒体存储模块
+ *
+ * 原理：
+ * - 入站消息中的附件（Telegram 图片、文件、语音等）下载后保存到本地目录，文件名为随机 ID
+ * - 每个文件旁保存一个 .json 描述文件（原文件名、MIME 类型、大小、保存时间）
+ * - 通过 /media/:id 对外提供访问，GitHub 评论中以链接或内嵌图片引用；邮件直接作为附件发送
+ * - 下载前后检查大小上限和 MIME 白名单（支持 image/* 通配），不符合的附件不转发并记录原因
+ * - MIME 类型由发送方声明，不可信：只有固定列表中的栅格图片和音视频可以内联显示，
+ *   SVG（可包含脚本）和其他类型一律作为附件下载，避免在本服务的域名下执行发送方的内容
+ * - 定时清理超过保留天数的文件
+ *
+ * 选型理由：
+ * - 本地转存而非直接引用 Telegram 文件地址：Telegram 文件 URL 包含 Bot Token，不能暴露给第三方
+ * - 随机 ID：128 位随机值不可猜测，链接本身即访问凭证
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { MessageAttachment } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+
+const DEFAULT_MEDIA_PATH = './data/media';
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MIME_ALLOWLIST = ['image/*', 'video/*', 'audio/*', 'application/pdf', 'text/plain'];
+const DEFAULT_RETENTION_DAYS = 7;
+const MEDIA_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+const INLINE_MIME_TYPES = new Set([
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/bmp',
+  'audio/mpeg', 'audio/ogg', 'audio/mp4', 'audio/aac', 'audio/wav', 'audio/webm',
+  'video/mp4', 'video/webm', 'video/ogg', 'video/quicktime',
+]);
+
+/**
+ * Whether a file of this declared type may be displayed inline from the relay's origin
+ */
+export function isInlineMediaType(mimeType: string | undefined): boolean {
+  return INLINE_MIME_TYPES.has((mimeType || '').split(';')[0].trim().toLowerCase());
+}
+
+export interface StoredMedia {
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+export class MediaStore {
+  readonly enabled: boolean;
+  readonly maxSize: number;
+  private dir: string;
+  private allowlist: string[];
+  private retentionMs: number;
+  private publicUrl: string;
+
+  constructor() {
+    const config = ConfigLoader.getConfig();
+    this.enabled = config.media?.enable ?? true;
+    this.dir = path.resolve(process.cwd(), config.media?.path || DEFAULT_MEDIA_PATH);
+    this.maxSize = config.media?.max_size || DEFAULT_MAX_SIZE;
+    this.allowlist = config.media?.mime_allowlist || DEFAULT_MIME_ALLOWLIST;
+    this.retentionMs = (config.media?.retention_days || DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+    this.publicUrl = (config.server.public_url || '').replace(/\/+$/, '');
+
+    if (this.enabled) {
+      if (!this.publicUrl) {
+        logger.warn('[GSMRS] 未配置 server.public_url，GitHub 评论中不会包含附件链接');
+      }
+      // Clean up expired files every hour
+      setInterval(() => this.cleanup(), 60 * 60 * 1000).unref();
+    }
+  }
+
+  /**
+   * Check size and MIME type, returns rejection reason if not allowed
+   */
+  check(mimeType: string | undefined, size: number | undefined): string | undefined {
+    if (size !== undefined && size > this.maxSize) {
+      return `File too large (${size} bytes, limit ${this.maxSize})`;
+    }
+
+    const type = (mimeType || 'application/octet-stream').toLowerCase();
+    const allowed = this.allowlist.some(pattern =>
+      pattern.endsWith('/*')
+        ? type.startsWith(pattern.slice(0, -1).toLowerCase())
+        : type === pattern.toLowerCase()
+    );
+    return allowed ? undefined : `File type not allowed: ${type}`;
+  }
+
+  /**
+   * Save downloaded data and fill in id, path and public url of the attachment
+   */
+  save(attachment: MessageAttachment, data: Buffer): void {
+    const id = crypto.randomBytes(16).toString('hex');
+    const filePath = path.join(this.dir, id);
+    const info: StoredMedia = {
+      path: filePath,
+      name: attachment.name,
+      mimeType: attachment.mimeType || 'application/octet-stream',
+      size: data.length,
+      createdAt: Date.now(),
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(filePath, data);
+    fs.writeFileSync(`${filePath}.json`, JSON.stringify(info), 'utf8');
+
+    attachment.id = id;
+    attachment.path = filePath;
+    attachment.size = data.length;
+    attachment.url = this.publicUrl ? `${this.publicUrl}/media/${id}` : undefined;
+  }
+
+  /**
+   * Look up a stored file by ID
+   */
+  get(id: string): StoredMedia | undefined {
+    if (!MEDIA_ID_PATTERN.test(id)) {
+      return undefined;
+    }
+
+    const filePath = path.join(this.dir, id);
+    try {
+      const info: StoredMedia = JSON.parse(fs.readFileSync(`${filePath}.json`, 'utf8'));
+      return fs.existsSync(filePath) ? { ...info, path: filePath } : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove files older than the retention period
+   */
+  cleanup(): void {
+    if (!fs.existsSync(this.dir)) {
+      return;
+    }
+
+    const cutoff = Date.now() - this.retentionMs;
+    let removed = 0;
+    for (const name of fs.readdirSync(this.dir)) {
+      if (!MEDIA_ID_PATTERN.test(name)) {
+        continue;
+      }
+      const info = this.get(name);
+      if (!info || info.createdAt < cutoff) {
+        fs.rmSync(path.join(this.dir, name), { force: true });
+        fs.rmSync(path.join(this.dir, `${name}.json`), { force: true });
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.info('[GSMRS] 已清理过期媒体文件', { removed });
+    }
+  }
+}
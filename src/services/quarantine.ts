@@ -0,0 +1,218 @@
+/**
+ * 隔离区模块
+ *
+ * 原理：
+ * - 需配置 quarantine.enable: true 启用；在路由之后、入队之前检测消息：标题和正文命中垃圾关键词或命名正则规则即视为疑似垃圾消息
+ * - 按目标逐个决定处理方式：目标:频道策略 → 目标策略 → 来源策略 → 默认来源策略 → 内置策略（mail 隔离，其余 allow）
+ *   - quarantine：该目标暂不投递，消息连同原因、命中规则和被扣留的目标存入隔离区
+ *   - drop：该目标直接丢弃
+ *   - allow：该目标照常投递
+ * - 隔离的消息通过 API 查看，审核后放行到原目标（重新入队）或丢弃
+ * - 隔离区保存为 JSON 快照，重启后恢复；超过上限时淘汰最早的记录
+ *
+ * 选型理由：
+ * - 在入队前拦截：误判的消息不会在投递时失败、重试并进入死信队列，也不会只拦下一个目标而其余目标照常发送
+ * - 以消息 ID 作为隔离记录 ID：同一消息只有一条记录，便于与日志对应
+ * - 内置策略只隔离邮件：关键词检测对聊天和 Webhook 通知误判较多，默认不应扣留
+ */
+import { NormalizedMessage, QuarantinePolicy, TargetRef } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+import { JsonSnapshot, readJsonFile } from '../utils/jsonFile';
+import { MessageSanitizer } from './sanitizer';
+import { parseTargetRef } from './routing';
+import * as path from 'path';
+
+const DEFAULT_QUARANTINE_PATH = './data/quarantine.json';
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_SOURCE_POLICIES: Record<string, QuarantinePolicy> = { mail: 'quarantine' };
+const DEFAULT_POLICY: QuarantinePolicy = 'allow';
+
+export interface SpamMatch {
+  // 命中的规则，如 "keyword:scam" 或 "pattern:crypto"
+  rule: string;
+  reason: string;
+}
+
+export interface QuarantineEntry extends SpamMatch {
+  id: string;
+  message: NormalizedMessage;
+  // 被扣留、放行时重新入队的目标
+  targets: TargetRef[];
+  quarantinedAt: number;
+}
+
+export class QuarantineStore {
+  private entries: Map<string, QuarantineEntry> = new Map();
+  private keywords: string[];
+  private patterns: Array<{ name: string; regex: RegExp }>;
+  private sources: Record<string, QuarantinePolicy>;
+  private targets: Record<string, QuarantinePolicy>;
+  private maxEntries: number;
+  private snapshot: JsonSnapshot;
+  private dropped: number = 0;
+
+  constructor() {
+    const config = ConfigLoader.getConfig().quarantine || {};
+    this.keywords = config.keywords || MessageSanitizer.SPAM_KEYWORDS;
+    this.patterns = Object.entries(config.patterns || {}).map(([name, pattern]) => ({
+      name,
+      regex: QuarantineStore.compilePattern(name, pattern),
+    }));
+    this.sources = config.sources || {};
+    this.targets = config.targets || {};
+    this.maxEntries = config.max_entries || DEFAULT_MAX_ENTRIES;
+
+    const filePath = path.resolve(process.cwd(), config.path || DEFAULT_QUARANTINE_PATH);
+    this.load(filePath);
+    this.snapshot = new JsonSnapshot(filePath, () => Array.from(this.entries.values()));
+  }
+
+  /**
+   * Compile "pattern" or "/pattern/flags"
+   */
+  private static compilePattern(name: string, pattern: string): RegExp {
+    const literal = pattern.match(/^\/(.*)\/([a-z]*)$/);
+    try {
+      return literal ? new RegExp(literal[1], literal[2].replace('g', '')) : new RegExp(pattern);
+    } catch (error: any) {
+      throw new Error(`Invalid regex in quarantine pattern "${name}": ${error.message}`);
+    }
+  }
+
+  /**
+   * Check title and content against keywords and patterns
+   */
+  check(message: NormalizedMessage): SpamMatch | undefined {
+    const text = `${message.title || ''} ${message.content}`;
+
+    const keyword = MessageSanitizer.findSpamKeyword(text, this.keywords);
+    if (keyword) {
+      return { rule: `keyword:${keyword}`, reason: `Contains spam keyword "${keyword}"` };
+    }
+
+    const pattern = this.patterns.find(({ regex }) => regex.test(text));
+    if (pattern) {
+      return { rule: `pattern:${pattern.name}`, reason: `Matches spam pattern "${pattern.name}"` };
+    }
+    return undefined;
+  }
+
+  /**
+   * Policy for flagged messages from a source to a target or channel
+   */
+  getPolicy(source: string, ref: TargetRef): QuarantinePolicy {
+    const { target } = parseTargetRef(ref);
+    return this.targets[ref]
+      ?? this.targets[target]
+      ?? this.sources[source]
+      ?? this.sources.default
+      ?? DEFAULT_SOURCE_POLICIES[source]
+      ?? DEFAULT_POLICY;
+  }
+
+  /**
+   * Hold or drop targets of a flagged message, returns targets to deliver now
+   */
+  screen(message: NormalizedMessage, targets: TargetRef[]): TargetRef[] {
+    const match = this.check(message);
+    if (!match) {
+      return targets;
+    }
+
+    const accepted: TargetRef[] = [];
+    const held: TargetRef[] = [];
+    const dropped: TargetRef[] = [];
+    for (const ref of targets) {
+      const policy = this.getPolicy(message.source, ref);
+      (policy === 'allow' ? accepted : policy === 'drop' ? dropped : held).push(ref);
+    }
+
+    if (held.length > 0) {
+      this.entries.delete(message.id);
+      this.entries.set(message.id, {
+        id: message.id,
+        message,
+        targets: held,
+        rule: match.rule,
+        reason: match.reason,
+        quarantinedAt: Date.now(),
+      });
+      this.evict();
+      this.snapshot.markDirty();
+    }
+    this.dropped += dropped.length;
+
+    logger.warn('[GSMRS] 消息疑似垃圾消息', {
+      messageId: message.id,
+      source: message.source,
+      rule: match.rule,
+      quarantined: held,
+      dropped,
+      delivered: accepted,
+    });
+    return accepted;
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  list(): QuarantineEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  get(id: string): QuarantineEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Remove an entry and return it so its targets can be queued
+   */
+  release(id: string): QuarantineEntry | undefined {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.entries.delete(id);
+      this.snapshot.markDirty();
+    }
+    return entry;
+  }
+
+  /**
+   * Discard an entry without delivering it
+   */
+  discard(id: string): boolean {
+    if (!this.entries.delete(id)) {
+      return false;
+    }
+    this.snapshot.markDirty();
+    return true;
+  }
+
+  getStats() {
+    return {
+      quarantined: this.entries.size,
+      quarantineDropped: this.dropped,
+    };
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+      logger.warn('[GSMRS] 隔离区已满，最早的记录被移除', { messageId: oldest });
+    }
+  }
+
+  private load(filePath: string): void {
+    const data = readJsonFile<QuarantineEntry[]>(filePath);
+    if (!Array.isArray(data)) {
+      return;
+    }
+
+    this.entries = new Map(data.map(entry => [entry.id, entry]));
+    logger.info('[GSMRS] 隔离区已恢复', { entries: this.entries.size });
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * 路由引擎模块
+ *
+ * 原理：
+ * - 按顺序评估 config.yaml 中的 routes 规则，规则内的所有匹配条件为“与”关系
+ * - 可匹配 NormalizedMessage 的来源、作者、标题/内容正则，以及 metadata 中的事件、仓库、动作、聊天 ID
+ * - 命中规则后收集其目标；continue: true 时继续评估后续规则，否则停止（first-match）
+ * - 没有规则命中时使用 default_route；未配置 default_route 时转发到所有启用的目标，
+ *   但不回发到消息的来源平台（telegram → telegram、github → github、mail → mail），避免转发成环；
+ *   api 来源的消息仍会投递到出站 Webhook（目标 api），两者不是同一个端点
+ * - 目标可以是平台（telegram）或平台下的命名频道（telegram:ops），频道名在启动时校验
+ * - 最终结果去重，并过滤掉未启用的目标
+ *
+ * 选型理由：
+ * - 声明式配置：修改转发策略无需改动代码
+ * - 启动时预编译正则：配置错误尽早暴露，匹配时无额外开销
+ */
+import { Config, MessageSource, NormalizedMessage, RouteMatch, RouteRule, TargetRef, TargetType } from '../types';
+import { logger } from '../utils/logger';
+
+export const TARGET_TYPES: TargetType[] = [
+  'telegram', 'github', 'mail', 'api', 'slack', 'discord', 'feishu', 'dingtalk', 'wecom',
+];
+
+// 默认路由中不回发的目标：来源与目标是同一个平台端点，回发会形成转发环
+const LOOP_TARGETS: Partial<Record<MessageSource, TargetType>> = {
+  telegram: 'telegram',
+  github: 'github',
+  mail: 'mail',
+};
+
+/**
+ * Split "platform:channel" into its parts
+ */
+export function parseTargetRef(ref: TargetRef): { target: TargetType; channel?: string } {
+  const index = ref.indexOf(':');
+  if (index === -1) {
+    return { target: ref as TargetType };
+  }
+  return {
+    target: ref.substring(0, index) as TargetType,
+    channel: ref.substring(index + 1),
+  };
+}
+
+interface CompiledRule {
+  name: string;
+  rule: RouteRule;
+  title?: RegExp;
+  content?: RegExp;
+}
+
+export class RoutingEngine {
+  private config: Config;
+  private rules: CompiledRule[];
+  private defaultTargets?: TargetRef[];
+  private enabledTargets: TargetType[];
+
+  constructor(config: Config, enabledTargets: TargetType[]) {
+    this.config = config;
+    this.enabledTargets = enabledTargets;
+    this.defaultTargets = config.default_route?.targets;
+    for (const ref of this.defaultTargets || []) {
+      if (!this.isKnownTarget(ref)) {
+        throw new Error(`Invalid default_route: unknown target "${ref}"`);
+      }
+    }
+
+    this.rules = (config.routes || []).map((rule, index) => {
+      const name = rule.name || `route_${index + 1}`;
+      if (!Array.isArray(rule.targets)) {
+        throw new Error(`Invalid route "${name}": targets must be a list`);
+      }
+      const unknown = rule.targets.find(ref => !this.isKnownTarget(ref));
+      if (unknown) {
+        throw new Error(`Invalid route "${name}": unknown target "${unknown}"`);
+      }
+      return {
+        name,
+        rule,
+        title: rule.match?.title ? this.compilePattern(name, rule.match.title) : undefined,
+        content: rule.match?.content ? this.compilePattern(name, rule.match.content) : undefined,
+      };
+    });
+
+    logger.info('[GSMRS] 路由规则已加载', {
+      rules: this.rules.map(r => r.name),
+      defaultTargets: this.defaultTargets || 'all-enabled',
+    });
+  }
+
+  /**
+   * Compile "pattern" or "/pattern/flags"
+   */
+  private compilePattern(name: string, pattern: string): RegExp {
+    const literal = pattern.match(/^\/(.*)\/([a-z]*)$/);
+    try {
+      // 全局标志会让 test() 带状态，这里忽略
+      return literal ? new RegExp(literal[1], literal[2].replace('g', '')) : new RegExp(pattern);
+    } catch (error: any) {
+      throw new Error(`Invalid regex in route "${name}": ${error.message}`);
+    }
+  }
+
+  /**
+   * Check that platform exists and channel is configured
+   */
+  isKnownTarget(ref: TargetRef): boolean {
+    const { target, channel } = parseTargetRef(ref);
+    if (!TARGET_TYPES.includes(target)) {
+      return false;
+    }
+    if (!channel) {
+      return true;
+    }
+    const platformConfig: Config[TargetType] = this.config[target];
+    return Boolean(platformConfig?.channels?.[channel]);
+  }
+
+  /**
+   * Resolve destinations for a message
+   */
+  resolve(message: NormalizedMessage): TargetRef[] {
+    const targets: TargetRef[] = [];
+    const matched: string[] = [];
+
+    for (const compiled of this.rules) {
+      if (!this.matches(compiled, message)) {
+        continue;
+      }
+
+      matched.push(compiled.name);
+      targets.push(...compiled.rule.targets);
+
+      if (!compiled.rule.continue) {
+        break;
+      }
+    }
+
+    if (matched.length === 0) {
+      targets.push(...(this.defaultTargets || this.defaultEnabledTargets(message)));
+    }
+
+    const resolved = Array.from(new Set(targets))
+      .filter(ref => this.enabledTargets.includes(parseTargetRef(ref).target));
+
+    logger.debug('[GSMRS] 路由结果', {
+      messageId: message.id,
+      matched: matched.length > 0 ? matched : ['default'],
+      targets: resolved,
+    });
+
+    return resolved;
+  }
+
+  /**
+   * All enabled targets except the one a message would loop back to
+   */
+  private defaultEnabledTargets(message: NormalizedMessage): TargetType[] {
+    const loop = LOOP_TARGETS[message.source];
+    if (loop && this.enabledTargets.includes(loop)) {
+      logger.debug('[GSMRS] 默认路由不回发到来源平台', { messageId: message.id, excluded: loop });
+    }
+    return this.enabledTargets.filter(target => target !== loop);
+  }
+
+  private matches(compiled: CompiledRule, message: NormalizedMessage): boolean {
+    const match: RouteMatch = compiled.rule.match || {};
+    const metadata = message.metadata || {};
+
+    if (!this.matchesValue(match.source, message.source)) return false;
+    if (!this.matchesValue(match.author, message.author)) return false;
+    if (!this.matchesValue(match.event, metadata.event)) return false;
+    if (!this.matchesValue(match.repository, metadata.repository)) return false;
+    if (!this.matchesValue(match.action, metadata.action)) return false;
+    if (!this.matchesValue(match.chat_id, metadata.chatId)) return false;
+    if (compiled.title && !compiled.title.test(message.title || '')) return false;
+    if (compiled.content && !compiled.content.test(message.content)) return false;
+
+    return true;
+  }
+
+  /**
+   * Undefined condition always matches; lists match any element
+   */
+  private matchesValue<T>(expected: T | T[] | undefined, actual: T | undefined): boolean {
+    if (expected === undefined) {
+      return true;
+    }
+    const candidates = Array.isArray(expected) ? expected : [expected];
+    return candidates.some(candidate => String(candidate) === String(actual));
+  }
+}
@@ -3,83 +3,81 @@
  * 
  * 原理：
  * - 消息标准化：将不同来源（Telegram、GitHub、API）的消息转换为统一格式
- * - 敏感信息隐藏：使用正则表达式匹配并替换敏感数据（Token、邮箱、电话等）
- * - HTML/Markdown 清理：移除 HTML 标签，转义特殊字符，防止注入攻击
- * - Spam 检测：基于关键词列表检测垃圾消息
+ * - Telegram 消息识别文本/说明文字、图片、文件、视频、语音、贴纸、位置和转发来源，文件记录为附件待下载
+ * - 入站邮件取主题、纯文本正文（没有时由 HTML 转换）、发件人和附件，回复邮件去掉引用的原文
+ * - 敏感信息隐藏：由可配置的检测器（见 secrets.ts）识别并掩码令牌、密钥、邮箱、卡号、证件号和电话等，命中情况记录在 metadata.redactions
+ * - HTML/Markdown 清理：纯文本消息移除 HTML 标签，转义特殊字符，防止注入攻击；Markdown 正文（GitHub Issue、评论等）保留原文，渲染时再转换和清理
+ * - Spam 检测：基于关键词列表检测垃圾消息，返回命中的关键词供隔离区记录
  * 
  * 选型理由：
  * - 正则表达式：性能好，匹配准确，适合文本处理
  * - 静态方法：无需实例化，使用方便，内存占用小
  * - 模块化设计：清理逻辑集中管理，便于维护和扩展
  */
-import { NormalizedMessage } from '../types';
+import { Config, ContentFormat, NormalizedMessage, MessageAttachment, MessageSource, TelegramMessage } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { SecretScanner } from './secrets';
+import { normalizeGitHubEvent } from './githubEvents';
+import { isInlineMediaType } from './media';
+import { ParsedMail } from '../utils/mime';
+
+// 回复邮件中引用原文的起始行
+const QUOTE_HEADER_PATTERNS = [
+  /^On .+ wrote:$/,
+  /^在.+写道[:：]$/,
+  /^-+\s*(Original Message|原始邮件)\s*-+$/i,
+  /^From: .+$/,
+];
+
+/**
+ * Images that targets may embed: only types the media route serves inline
+ */
+function isInlineImage(mimeType: string | undefined): boolean {
+  return !!mimeType?.startsWith('image/') && isInlineMediaType(mimeType);
+}
 
 export class MessageSanitizer {
-  private static readonly SENSITIVE_PATTERNS = [
-    // API Tokens (GitHub, Telegram, etc.)
-    /(?:token|api[_-]?key|secret|password|passwd|pwd)\s*[:=]\s*([a-zA-Z0-9_\-]{20,})/gi,
-    // Email addresses
-    /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g,
-    // Phone numbers
-    /(\+?\d{1,3}[-.\s]?\(?\d{1,4}\)?[-.\s]?\d{1,4}[-.\s]?\d{1,9})/g,
-    // Credit card numbers (basic pattern)
-    /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
-  ];
+  private static scanner?: SecretScanner;
+  private static scannerConfig?: Config;
 
-  private static readonly SPAM_KEYWORDS = [
+  static readonly SPAM_KEYWORDS = [
     'spam', 'scam', 'phishing', 'malware', 'virus',
     'click here', 'limited time', 'act now', 'urgent',
   ];
 
   /**
-   * Hide sensitive information in text
+   * Hide sensitive information in text with the detectors enabled for the source
    */
-  static hideSensitive(text: string): string {
-    let sanitized = text;
-
-    // Hide tokens and secrets
-    sanitized = sanitized.replace(
-      /(?:token|api[_-]?key|secret|password|passwd|pwd)\s*[:=]\s*([a-zA-Z0-9_\-]{20,})/gi,
-      (match, token) => {
-        if (token.length > 8) {
-          return match.replace(token, `${token.substring(0, 2)}****${token.substring(token.length - 2)}`);
-        }
-        return match.replace(token, '****');
-      }
-    );
-
-    // Hide email addresses
-    sanitized = sanitized.replace(
-      /([a-zA-Z0-9._%+-]+)@([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g,
-      (match, user, domain) => {
-        const hiddenUser = user.length > 2 
-          ? `${user.substring(0, 2)}****` 
-          : '****';
-        return `${hiddenUser}@${domain}`;
-      }
-    );
-
-    // Hide phone numbers
-    sanitized = sanitized.replace(
-      /(\+?\d{1,3}[-.\s]?\(?\d{1,4}\)?[-.\s]?\d{1,4}[-.\s]?\d{1,9})/g,
-      (match) => {
-        const digits = match.replace(/\D/g, '');
-        if (digits.length > 4) {
-          return `${digits.substring(0, 2)}****${digits.substring(digits.length - 2)}`;
-        }
-        return '****';
-      }
-    );
+  static hideSensitive(text: string, source?: MessageSource): string {
+    return this.getScanner().scan(text, source).text;
+  }
 
-    return sanitized;
+  /**
+   * Build the scanner from security.secrets, throws on an invalid detector so that startup fails
+   */
+  static loadScanner(config: Config): SecretScanner {
+    this.scanner = new SecretScanner(config.security.secrets);
+    this.scannerConfig = config;
+    return this.scanner;
   }
 
   /**
-   * Check if message contains spam keywords
+   * Scanner for the current config, rebuilt after config reload
    */
-  static isSpam(text: string): boolean {
+  private static getScanner(): SecretScanner {
+    const config = ConfigLoader.getConfig();
+    if (!this.scanner || this.scannerConfig !== config) {
+      return this.loadScanner(config);
+    }
+    return this.scanner;
+  }
+
+  /**
+   * Find the first spam keyword contained in text
+   */
+  static findSpamKeyword(text: string, keywords: string[] = this.SPAM_KEYWORDS): string | undefined {
     const lowerText = text.toLowerCase();
-    return this.SPAM_KEYWORDS.some(keyword => lowerText.includes(keyword));
+    return keywords.find(keyword => lowerText.includes(keyword.toLowerCase()));
   }
 
   /**
@@ -93,7 +91,7 @@ export class MessageSanitizer {
    * Escape markdown special characters
    */
   static escapeMarkdown(text: string): string {
-    return text.replace(/([_*\[\]()~`>#+\-=|{}.!])/g, '\\$1');
+    return text.replace(/([_*\[\]()~`>#+\-=|{}.!\\])/g, '\\$1');
   }
 
   /**
@@ -103,17 +101,34 @@ export class MessageSanitizer {
     let content = message.content;
     let title = message.title;
 
-    // Strip HTML if present
-    content = this.stripHtml(content);
+    // Strip HTML if present; markdown keeps its markup, raw HTML in it is dropped when rendered
+    if (message.format !== 'markdown') {
+      content = this.stripHtml(content);
+    }
     if (title) {
       title = this.stripHtml(title);
     }
 
     // Hide sensitive information
+    let metadata = message.metadata;
     if (hideSensitive) {
-      content = this.hideSensitive(content);
+      const scanner = this.getScanner();
+      const redactions: Record<string, number> = {};
+      const scan = (text: string) => {
+        const scanned = scanner.scan(text, message.source);
+        for (const [name, count] of Object.entries(scanned.redactions)) {
+          redactions[name] = (redactions[name] || 0) + count;
+        }
+        return scanned.text;
+      };
+
+      content = scan(content);
       if (title) {
-        title = this.hideSensitive(title);
+        title = scan(title);
+      }
+
+      if (scanner.report && Object.keys(redactions).length > 0) {
+        metadata = { ...metadata, redactions };
       }
     }
 
@@ -121,49 +136,235 @@ export class MessageSanitizer {
       ...message,
       content,
       title,
+      metadata,
       sanitized: true,
     };
   }
 
+  private static telegramForwardedFrom(message: NonNullable<TelegramMessage['message']>): string | undefined {
+    return message.forward_from?.username || message.forward_from?.first_name ||
+      message.forward_from_chat?.title || message.forward_sender_name;
+  }
+
+  /**
+   * Build text content of a Telegram message: text or caption, plus forward, sticker and location info
+   */
+  private static telegramContent(message: NonNullable<TelegramMessage['message']>): string {
+    const parts: string[] = [];
+
+    const forwardedFrom = this.telegramForwardedFrom(message);
+    if (forwardedFrom) {
+      parts.push(`[Forwarded from ${forwardedFrom}]`);
+    }
+
+    const text = message.text || message.caption;
+    if (text) {
+      parts.push(text);
+    } else if (message.sticker?.emoji) {
+      parts.push(`[Sticker ${message.sticker.emoji}]`);
+    }
+
+    if (message.location) {
+      const { latitude, longitude } = message.location;
+      parts.push(`📍 ${latitude}, ${longitude} https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}`);
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Collect files of a Telegram message, photo uses the largest size
+   */
+  private static telegramAttachments(message: NonNullable<TelegramMessage['message']>): MessageAttachment[] {
+    const attachments: MessageAttachment[] = [];
+
+    const photo = message.photo?.[message.photo.length - 1];
+    if (photo) {
+      attachments.push({
+        kind: 'photo',
+        fileId: photo.file_id,
+        name: `photo_${message.message_id}.jpg`,
+        mimeType: 'image/jpeg',
+        size: photo.file_size,
+      });
+    }
+    if (message.document) {
+      attachments.push({
+        kind: 'document',
+        fileId: message.document.file_id,
+        name: message.document.file_name || `document_${message.message_id}`,
+        mimeType: message.document.mime_type,
+        size: message.document.file_size,
+      });
+    }
+    if (message.video) {
+      attachments.push({
+        kind: 'video',
+        fileId: message.video.file_id,
+        name: message.video.file_name || `video_${message.message_id}.mp4`,
+        mimeType: message.video.mime_type || 'video/mp4',
+        size: message.video.file_size,
+      });
+    }
+    if (message.voice) {
+      attachments.push({
+        kind: 'voice',
+        fileId: message.voice.file_id,
+        name: `voice_${message.message_id}.ogg`,
+        mimeType: message.voice.mime_type || 'audio/ogg',
+        size: message.voice.file_size,
+      });
+    }
+    if (message.sticker) {
+      const animated = message.sticker.is_animated;
+      const video = message.sticker.is_video;
+      attachments.push({
+        kind: 'sticker',
+        fileId: message.sticker.file_id,
+        name: `sticker_${message.message_id}.${animated ? 'tgs' : video ? 'webm' : 'webp'}`,
+        mimeType: animated ? 'application/x-tgsticker' : video ? 'video/webm' : 'image/webp',
+        size: message.sticker.file_size,
+      });
+    }
+
+    for (const attachment of attachments) {
+      attachment.image = isInlineImage(attachment.mimeType);
+    }
+    return attachments;
+  }
+
+  /**
+   * Plain-text body of an email, without the quoted original when it is a reply
+   */
+  private static mailContent(mail: ParsedMail): string {
+    let text = mail.text ?? this.htmlToText(mail.html || '');
+    text = text.replace(/\r\n/g, '\n');
+
+    if (mail.inReplyTo) {
+      const lines = text.split('\n');
+      const cut = lines.findIndex(line => QUOTE_HEADER_PATTERNS.some(pattern => pattern.test(line.trim())));
+      if (cut > 0) {
+        lines.length = cut;
+      }
+      // 去掉末尾以 > 开头的引用行
+      while (lines.length > 0 && (lines[lines.length - 1].startsWith('>') || !lines[lines.length - 1].trim())) {
+        lines.pop();
+      }
+      text = lines.join('\n');
+    }
+
+    return text.trim();
+  }
+
+  private static htmlToText(html: string): string {
+    return html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\n{3,}/g, '\n\n');
+  }
+
+  private static mailAttachments(mail: ParsedMail): MessageAttachment[] {
+    return mail.attachments.map((file, index) => {
+      const type = file.contentType;
+      const kind: MessageAttachment['kind'] = type.startsWith('image/') ? 'photo'
+        : type.startsWith('video/') ? 'video'
+        : type.startsWith('audio/') ? 'voice'
+        : 'document';
+      return {
+        kind,
+        fileId: file.contentId || `part-${index + 1}`,
+        name: file.filename,
+        mimeType: type,
+        size: file.content.length,
+        image: isInlineImage(type),
+      };
+    });
+  }
+
   /**
    * Normalize message from different sources
    */
   static normalize(
-    source: 'telegram' | 'github' | 'api' | 'internal',
-    rawData: any
+    source: MessageSource,
+    rawData: any,
+    event: string = 'issues'
   ): NormalizedMessage {
     const id = `${source}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const timestamp = Date.now();
 
     let title: string | undefined;
     let content: string = '';
+    let format: ContentFormat | undefined;
     let author: string | undefined;
     let metadata: Record<string, any> = {};
+    let attachments: MessageAttachment[] | undefined;
 
     switch (source) {
       case 'telegram':
         if (rawData.message) {
-          content = rawData.message.text || '';
-          author = rawData.message.from?.username || rawData.message.from?.first_name;
-          metadata.chatId = rawData.message.chat?.id;
-          metadata.messageId = rawData.message.message_id;
+          const message = rawData.message as NonNullable<TelegramMessage['message']>;
+          content = this.telegramContent(message);
+          author = message.from?.username || message.from?.first_name;
+          metadata.chatId = message.chat?.id;
+          metadata.messageId = message.message_id;
+          // 发送者的用户 ID 和用户名，用于权限判断（author 可能是可随意修改的名字）
+          metadata.userId = message.from?.id;
+          metadata.username = message.from?.username;
+          metadata.replyToMessageId = message.reply_to_message?.message_id;
+
+          const forwardedFrom = this.telegramForwardedFrom(message);
+          if (forwardedFrom) {
+            metadata.forwardedFrom = forwardedFrom;
+          }
+          if (message.location) {
+            metadata.location = message.location;
+          }
+
+          const files = this.telegramAttachments(message);
+          if (files.length > 0) {
+            attachments = files;
+          }
         }
         break;
 
-      case 'github':
-        if (rawData.issue) {
-          title = rawData.issue.title;
-          content = rawData.issue.body || '';
-          author = rawData.issue.user?.login;
-          metadata.issueNumber = rawData.issue.number;
-          metadata.repository = rawData.repository?.full_name;
-          metadata.action = rawData.action;
+      case 'github': {
+        // event 为 X-GitHub-Event 的值，每种事件有独立的标准化函数
+        const summary = normalizeGitHubEvent(event, rawData);
+        title = summary.title;
+        content = summary.content;
+        format = summary.format;
+        author = summary.author;
+        metadata = summary.metadata;
+        break;
+      }
+
+      case 'mail': {
+        // rawData 为 parseMail 解析后的邮件
+        const mail = rawData as ParsedMail;
+        title = mail.subject;
+        content = this.mailContent(mail);
+        author = mail.from?.name || mail.from?.address;
+        metadata = {
+          from: mail.from?.address,
+          to: mail.to.map(address => address.address),
+          cc: mail.cc.map(address => address.address),
+          messageId: mail.messageId,
+          inReplyTo: mail.inReplyTo,
+          references: mail.references,
+        };
+        if (mail.attachments.length > 0) {
+          attachments = this.mailAttachments(mail);
         }
         break;
+      }
 
       case 'api':
         title = rawData.title;
         content = rawData.content || rawData.message || '';
+        format = rawData.format === 'markdown' ? 'markdown' : undefined;
         author = rawData.author;
         metadata = rawData.metadata ? { ...rawData.metadata } : {};
         break;
@@ -182,8 +383,10 @@ export class MessageSanitizer {
       timestamp,
       title,
       content,
+      format,
       author,
       metadata,
+      attachments,
       sanitized: false,
     };
   }
@@ -0,0 +1,242 @@
+/**
+ * 敏感信息检测模块
+ *
+ * 原理：
+ * - 每种敏感信息对应一个检测器（名称、全局正则、可选的捕获组、校验函数和掩码函数），按顺序依次替换
+ * - 内置识别常见凭据格式：私钥 PEM 块、GitHub 令牌（ghp_ / gho_ / github_pat_ 等）、Telegram Bot Token、
+ *   AWS Access Key / Secret Key、JWT、token=/password= 形式的赋值，以及邮箱、银行卡号（Luhn 校验）、
+ *   中国居民身份证号（校验码和出生日期校验）、中国大陆手机号、带国家码的电话号码
+ * - 配置中可选择启用的内置检测器、追加自定义正则规则、设置白名单（命中白名单的值保持原样），并按消息来源限定检测器
+ * - 返回替换后的文本和每个检测器的命中次数，由调用方写入消息 metadata
+ * - 构造时校验全部配置（检测器名称、正则、捕获组、白名单、来源），错误信息包含出错的检测器或条目，启动时即报错
+ *
+ * 选型理由：
+ * - 格式识别而非宽泛正则：原先的电话号码正则会误伤日期、版本号和 Issue 编号，改为只匹配明确的格式并做校验
+ * - 检测器顺序固定：先处理私钥、令牌等长格式，电话号码先于银行卡号，已掩码的内容不会再被后续检测器误匹配
+ */
+import { SecretsConfig } from '../types';
+import { logger } from '../utils/logger';
+
+export interface SecretDetector {
+  name: string;
+  // 必须带 g 标志
+  pattern: RegExp;
+  // 敏感值所在的捕获组，未设置时为整个匹配
+  group?: number;
+  validate?: (value: string) => boolean;
+  mask?: (value: string) => string;
+}
+
+export interface SecretScanResult {
+  text: string;
+  redactions: Record<string, number>;
+}
+
+const CN_ID_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const CN_ID_CHECK_CODES = '10X98765432';
+
+/**
+ * Keep first and last two characters
+ */
+function maskValue(value: string): string {
+  return value.length > 8 ? `${value.substring(0, 2)}****${value.substring(value.length - 2)}` : '****';
+}
+
+function maskDigits(value: string): string {
+  return maskValue(value.replace(/\D/g, ''));
+}
+
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function cnIdValid(value: string): boolean {
+  const month = Number(value.substring(10, 12));
+  const day = Number(value.substring(12, 14));
+  if (!/^(18|19|20)\d{2}$/.test(value.substring(6, 10)) || month < 1 || month > 12 || day < 1 || day > 31) {
+    return false;
+  }
+
+  const sum = CN_ID_WEIGHTS.reduce((total, weight, i) => total + weight * Number(value[i]), 0);
+  return CN_ID_CHECK_CODES[sum % 11] === value[17].toUpperCase();
+}
+
+export const BUILTIN_DETECTORS: SecretDetector[] = [
+  {
+    name: 'private_key',
+    pattern: /-----BEGIN ([A-Z0-9 ]*)PRIVATE KEY-----[\s\S]*?-----END \1PRIVATE KEY-----/g,
+    mask: () => '[REDACTED PRIVATE KEY]',
+  },
+  {
+    name: 'github_token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    name: 'telegram_bot_token',
+    pattern: /(?<![\w:])\d{8,10}:[A-Za-z0-9_-]{35}(?![A-Za-z0-9_-])/g,
+  },
+  {
+    name: 'aws_access_key',
+    pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+  },
+  {
+    name: 'aws_secret_key',
+    pattern: /(aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 2,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    name: 'credential',
+    pattern: /((?:token|api[_-]?key|secret|password|passwd|pwd)\s*[:=]\s*)([a-zA-Z0-9_\-]{20,})/gi,
+    group: 2,
+  },
+  {
+    name: 'email',
+    pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g,
+    mask: (value) => {
+      const [user, domain] = value.split('@');
+      return `${user.length > 2 ? `${user.substring(0, 2)}****` : '****'}@${domain}`;
+    },
+  },
+  {
+    name: 'cn_id_card',
+    pattern: /(?<!\d)\d{17}[\dXx](?![\dXx])/g,
+    validate: cnIdValid,
+  },
+  {
+    name: 'cn_mobile',
+    pattern: /(?<![\d+])(?:\+?86[-\s]?)?1[3-9]\d(?:[-\s]?\d{4}){2}(?!\d)/g,
+    mask: maskDigits,
+  },
+  {
+    name: 'phone',
+    pattern: /(?<![\w+])\+\d{1,3}[-\s]?\(?\d{1,4}\)?(?:[-\s]?\d{2,4}){2,4}(?!\d)/g,
+    mask: maskDigits,
+  },
+  {
+    name: 'credit_card',
+    pattern: /(?<![\d+])(?:\d[ -]?){12,18}\d(?!\d)/g,
+    validate: luhnValid,
+    mask: (value) => `****${value.replace(/\D/g, '').slice(-4)}`,
+  },
+];
+
+/**
+ * Compile "pattern" or "/pattern/flags", always global
+ */
+function compileRule(name: string, pattern: string, group?: number): RegExp {
+  if (!name || typeof pattern !== 'string') {
+    throw new Error(`Invalid secret rule "${name || '(unnamed)'}": name and pattern are required`);
+  }
+  const literal = pattern.match(/^\/(.*)\/([a-z]*)$/);
+  let regex: RegExp;
+  try {
+    regex = literal
+      ? new RegExp(literal[1], literal[2].includes('g') ? literal[2] : `${literal[2]}g`)
+      : new RegExp(pattern, 'g');
+  } catch (error: any) {
+    throw new Error(`Invalid regex in secret rule "${name}": ${error.message}`);
+  }
+
+  // 空分支总能匹配，结果长度即捕获组数 + 1
+  const groups = new RegExp(`${regex.source}|`, regex.flags.replace('g', '')).exec('')!.length - 1;
+  if (group !== undefined && (!Number.isInteger(group) || group < 1 || group > groups)) {
+    throw new Error(`Invalid secret rule "${name}": group ${group} does not exist in the pattern`);
+  }
+  return regex;
+}
+
+export class SecretScanner {
+  private detectors: SecretDetector[];
+  private allowlist: Array<string | RegExp>;
+  private sources: Record<string, string[]>;
+  readonly report: boolean;
+
+  constructor(config: SecretsConfig = {}) {
+    const unknown = (config.detectors || []).filter(name => !BUILTIN_DETECTORS.some(d => d.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown secret detectors: ${unknown.join(', ')}`);
+    }
+
+    const builtins = config.detectors
+      ? BUILTIN_DETECTORS.filter(detector => config.detectors!.includes(detector.name))
+      : BUILTIN_DETECTORS;
+    const rules = (config.rules || []).map(rule => ({
+      name: rule.name,
+      pattern: compileRule(rule.name, rule.pattern, rule.group),
+      group: rule.group,
+    }));
+
+    this.detectors = [...builtins, ...rules];
+    this.allowlist = (config.allowlist || []).map(entry => {
+      const literal = entry.match(/^\/(.*)\/([a-z]*)$/);
+      try {
+        return literal ? new RegExp(`^(?:${literal[1]})$`, literal[2].replace('g', '')) : entry;
+      } catch (error: any) {
+        throw new Error(`Invalid regex in secrets allowlist entry "${entry}": ${error.message}`);
+      }
+    });
+
+    this.sources = config.sources || {};
+    for (const [source, names] of Object.entries(this.sources)) {
+      const missing = names.filter(name => !this.detectors.some(detector => detector.name === name));
+      if (missing.length > 0) {
+        throw new Error(`Unknown or disabled secret detectors for source "${source}": ${missing.join(', ')}`);
+      }
+    }
+    this.report = config.report ?? true;
+
+    logger.debug('[GSMRS] 敏感信息检测器已加载', {
+      detectors: this.detectors.map(detector => detector.name),
+    });
+  }
+
+  /**
+   * Mask secrets with the detectors enabled for the source
+   */
+  scan(text: string, source?: string): SecretScanResult {
+    const enabled = source !== undefined ? this.sources[source] : undefined;
+    const redactions: Record<string, number> = {};
+    let result = text;
+
+    for (const detector of this.detectors) {
+      if (enabled && !enabled.includes(detector.name)) {
+        continue;
+      }
+
+      result = result.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+        const value = detector.group ? groups[detector.group - 1] : match;
+        if (typeof value !== 'string' || !value || this.isAllowed(value) || (detector.validate && !detector.validate(value))) {
+          return match;
+        }
+
+        redactions[detector.name] = (redactions[detector.name] || 0) + 1;
+        const masked = (detector.mask || maskValue)(value);
+        return detector.group ? match.replace(value, masked) : masked;
+      });
+    }
+
+    return { text: result, redactions };
+  }
+
+  private isAllowed(value: string): boolean {
+    return this.allowlist.some(entry => typeof entry === 'string' ? entry === value : entry.test(value));
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Slack 服务模块
+ *
+ * 原理：
+ * - 两种发送方式：Incoming Webhook（webhook_url）或 Bot Token + chat.postMessage（token + channel），
+ *   同时配置时优先使用 Webhook
+ * - 支持多个命名频道（slack.channels），每个频道可以是独立的 Webhook 地址，或使用全局 Bot Token 的另一个频道
+ * - 消息经模板渲染为 Slack mrkdwn：GitHub Markdown 正文的粗体、链接、代码块保留，标题和列表降级为粗体和符号列表，
+ *   变量只转义 & < >
+ * - 遇到 429 时按 Retry-After 返回等待时间，由队列重新调度且不计入重试次数
+ * - 健康检查：配置 Bot Token 时调用 auth.test，仅使用 Webhook 时只检查配置（Webhook 没有无副作用的探测方式）
+ *
+ * 选型理由：
+ * - 直接调用 Web API 而非引入 @slack/web-api：只用到两个接口，与其他出站服务一样使用 Axios
+ * - 纯 mrkdwn 文本而非 Block Kit：section 块有 3000 字符限制，文本消息最长 40000 字符，长消息无需拆分
+ */
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { NormalizedMessage, DeliveryResult, SlackChannelConfig } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { logger, safeLog } from '../utils/logger';
+import { TemplateRenderer } from './template';
+import { parseRetryAfter } from './webhook.service';
+
+const DEFAULT_TEMPLATE =
+  '{{#title}}*{{title}}*\n\n{{/title}}{{content}}' +
+  '{{#attachments}}{{#url}}\n📎 <{{url}}|{{name}}>{{/url}}{{/attachments}}' +
+  '{{#author}}\n\n_From: {{author}}_{{/author}}{{#metadata.url}}\n<{{metadata.url}}>{{/metadata.url}}';
+
+const MAX_TEXT_LENGTH = 40000;
+
+export class SlackService {
+  private token: string;
+  private defaultChannel: SlackChannelConfig;
+  private channels: Record<string, SlackChannelConfig>;
+  private username?: string;
+  private iconEmoji?: string;
+  private api: AxiosInstance;
+  private enabled: boolean;
+  private templates: TemplateRenderer = new TemplateRenderer('slack', 'slack_mrkdwn', { body: DEFAULT_TEMPLATE });
+
+  constructor() {
+    const config = ConfigLoader.getConfig();
+    this.enabled = config.slack?.enable ?? false;
+    this.token = config.slack?.token || '';
+    this.defaultChannel = { webhook_url: config.slack?.webhook_url, channel: config.slack?.channel };
+    this.channels = config.slack?.channels || {};
+    this.username = config.slack?.username;
+    this.iconEmoji = config.slack?.icon_emoji;
+    this.api = axios.create({
+      timeout: 15000,
+      headers: { 'User-Agent': 'DS-GSMRS/1.0' },
+    });
+
+    if (!this.enabled) {
+      logger.info('[GSMRS] Slack 服务已禁用');
+    } else if (!this.isConfigured(this.defaultChannel) && Object.keys(this.channels).length === 0) {
+      logger.warn('[GSMRS] Slack 服务已启用但未配置 webhook_url 或 token + channel');
+    }
+  }
+
+  private isConfigured(target: SlackChannelConfig): boolean {
+    return Boolean(target.webhook_url || (this.token && target.channel));
+  }
+
+  /**
+   * Send message to the default destination or a named channel
+   */
+  async sendMessage(message: NormalizedMessage, channel?: string): Promise<DeliveryResult> {
+    if (!this.enabled) {
+      logger.warn('[GSMRS] Slack 服务已禁用');
+      return { success: false, error: 'Slack service is disabled' };
+    }
+
+    const target = channel ? this.channels[channel] : this.defaultChannel;
+    if (!target || !this.isConfigured(target)) {
+      logger.error('[GSMRS] 未知的 Slack 频道或未配置', { channel });
+      return { success: false, error: channel ? `Unknown slack channel: ${channel}` : 'Slack destination is not configured' };
+    }
+
+    try {
+      // 模板渲染出错也按发送失败返回，不向上抛出
+      let text = this.templates.render(message, channel).body;
+      if (text.length > MAX_TEXT_LENGTH) {
+        text = `${text.substring(0, MAX_TEXT_LENGTH - 1)}…`;
+      }
+      const payload = {
+        text,
+        mrkdwn: true,
+        username: this.username,
+        icon_emoji: this.iconEmoji,
+      };
+
+      const response = target.webhook_url
+        ? await this.api.post(target.webhook_url, payload, { validateStatus: () => true })
+        : await this.api.post('https://slack.com/api/chat.postMessage', { ...payload, channel: target.channel }, {
+          headers: { Authorization: `Bearer ${this.token}` },
+          validateStatus: () => true,
+        });
+
+      // Webhook 成功时返回 200 "ok"，Web API 始终返回 200，以 ok 字段表示结果
+      const ok = response.status === 200 && (target.webhook_url ? true : response.data?.ok === true);
+      if (ok) {
+        logger.info('[GSMRS] Slack 消息发送成功', { messageId: message.id, channel });
+        return { success: true };
+      }
+      return this.failure(message, channel, response);
+    } catch (error: any) {
+      logger.error('[GSMRS] 发送 Slack 消息时出错', {
+        error: error.message,
+        messageId: message.id,
+        channel,
+      });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Build failure result, honouring Retry-After on 429
+   */
+  private failure(message: NormalizedMessage, channel: string | undefined, response: AxiosResponse): DeliveryResult {
+    const retryAfterMs = response.status === 429 ? parseRetryAfter(response.headers['retry-after']) : undefined;
+    // Web API 的错误码在 error 字段，Webhook 的错误码是响应正文
+    const reason = typeof response.data === 'string' ? response.data : response.data?.error;
+
+    if (retryAfterMs !== undefined) {
+      logger.warn('[GSMRS] Slack 限流，稍后重试', { messageId: message.id, channel, retryAfterMs });
+    } else {
+      logger.error('[GSMRS] 发送 Slack 消息失败', {
+        messageId: message.id,
+        channel,
+        status: response.status,
+        data: safeLog(response.data),
+      });
+    }
+
+    return {
+      success: false,
+      error: `Slack API error (${response.status}): ${reason || 'unknown error'}`,
+      retryAfterMs,
+    };
+  }
+
+  /**
+   * Health check - auth.test for the bot token, webhook destinations only need a URL
+   */
+  async healthCheck(): Promise<boolean> {
+    const targets = [this.defaultChannel, ...Object.values(this.channels)]
+      .filter(target => target.webhook_url || target.channel);
+    if (!this.enabled || targets.length === 0 || !targets.every(target => this.isConfigured(target))) {
+      return false;
+    }
+    if (!targets.some(target => !target.webhook_url)) {
+      return true;
+    }
+
+    try {
+      const response = await this.api.post('https://slack.com/api/auth.test', undefined, {
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+      if (response.data?.ok !== true) {
+        logger.error('[GSMRS] Slack 健康检查失败', { error: response.data?.error });
+        return false;
+      }
+      return true;
+    } catch (error: any) {
+      logger.error('[GSMRS] Slack 健康检查失败', {
+        error: error.message,
+      });
+      return false;
+    }
+  }
+}
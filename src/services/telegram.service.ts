@@ -3,9 +3,18 @@
  * 
  * 原理：
  * - 通过 Telegram Bot API 发送消息到指定聊天（群组或频道）
+ * - 支持多个命名频道（telegram.channels），按任务中的频道名解析目标聊天
+ * - 可作为回复发送（reply_to_message_id），并返回新消息 ID 供会话串联使用
  * - 使用 Axios 发送 HTTP 请求到 Telegram API
- * - 支持 MarkdownV2 格式，自动转义特殊字符防止格式错误
+ * - 支持 MarkdownV2 和 HTML 两种解析模式（全局或按频道配置），消息经模板渲染，只转义用户内容，保留模板中的格式
+ * - 超过 4096 字符的消息按行拆分为有序的多段发送，单行超长时在不破坏转义序列/HTML 实体/MarkdownV2 链接的位置切分；
+ *   跨段的格式（MarkdownV2 的粗体、斜体、下划线、删除线、剧透、代码，HTML 的所有标签）在段尾闭合、下一段开头重新打开，
+ *   每段都能单独解析；MarkdownV2 链接无法重新打开，跨段的链接整体移到下一段
+ * - 遇到 429 时返回 retry_after，由队列按该延迟重新调度；已发送的段数随任务保存，重试时不重复发送
+ * - 支持论坛话题（message_thread_id）
  * - 提供健康检查功能，验证 Bot Token 有效性
+ * - 提供长轮询所需的 getUpdates / deleteWebhook 调用
+ * - 通过 getFile 下载消息中的附件，下载时限制最大字节数
  * 
  * 选型理由：
  * - Axios：比原生 fetch 更易用，支持拦截器、超时控制等功能
@@ -13,21 +22,67 @@
  * - MarkdownV2：Telegram 推荐格式，支持丰富的文本样式
  */
 import axios, { AxiosInstance } from 'axios';
-import { NormalizedMessage } from '../types';
+import { NormalizedMessage, DeliveryResult, TelegramMessage } from '../types';
 import { ConfigLoader } from '../config/loader';
 import { logger, safeLog } from '../utils/logger';
+import { TemplateRenderer } from './template';
+
+const DEFAULT_TEMPLATE =
+  '{{#title}}*{{title}}*\n\n{{/title}}{{content}}{{#author}}\n\n_From: {{author}}_{{/author}}' +
+  '{{#metadata.url}}\n{{metadata.url}}{{/metadata.url}}';
+
+const DEFAULT_HTML_TEMPLATE =
+  '{{#title}}<b>{{title}}</b>\n\n{{/title}}{{content}}{{#author}}\n\n<i>From: {{author}}</i>{{/author}}' +
+  '{{#metadata.url}}\n{{metadata.url}}{{/metadata.url}}';
+
+const MAX_MESSAGE_LENGTH = 4096;
+const MIN_SPLIT_CHUNK = 100;
+const SPLIT_RESERVE = 128;
+
+export type TelegramParseMode = 'MarkdownV2' | 'HTML';
+
+export interface TelegramTarget {
+  chatId: number;
+  threadId?: number;
+  parseMode: TelegramParseMode;
+}
+
+// 段尾需要闭合、下一段开头需要重新打开的格式
+interface OpenEntity {
+  open: string;
+  close: string;
+}
+
+export interface TelegramSendOptions {
+  replyToMessageId?: number;
+  // 长消息拆分后已发送的段数，重试时从这里继续
+  startPart?: number;
+  // 继续发送时，之前已发送的第一段的 message_id
+  firstMessageId?: number;
+}
 
 export class TelegramService {
   private botToken: string;
   private defaultChatId: number;
+  private defaultThreadId?: number;
+  private parseMode: TelegramParseMode;
+  private channels: Record<string, { chat: number; thread_id?: number; parse_mode?: TelegramParseMode }>;
   private api: AxiosInstance;
   private enabled: boolean;
+  private templates: Record<TelegramParseMode, TemplateRenderer>;
 
   constructor() {
     const config = ConfigLoader.getConfig();
     this.enabled = config.telegram?.enable ?? false;
     this.botToken = config.telegram?.token || '';
     this.defaultChatId = config.telegram?.default_target_chat || 0;
+    this.defaultThreadId = config.telegram?.default_thread_id;
+    this.parseMode = config.telegram?.parse_mode || 'MarkdownV2';
+    this.channels = config.telegram?.channels || {};
+    this.templates = {
+      MarkdownV2: new TemplateRenderer('telegram', 'markdown_v2', { body: DEFAULT_TEMPLATE }),
+      HTML: new TemplateRenderer('telegram', 'telegram_html', { body: DEFAULT_HTML_TEMPLATE }),
+    };
 
     if (!this.botToken) {
       logger.warn('[GSMRS] Telegram Bot Token 未配置');
@@ -40,57 +95,439 @@ export class TelegramService {
   }
 
   /**
-   * Send message to Telegram
+   * Resolve chat, forum topic and parse mode of default chat or named channel
+   */
+  resolveTarget(channel?: string): TelegramTarget | undefined {
+    if (channel) {
+      const target = this.channels[channel];
+      return target?.chat
+        ? { chatId: target.chat, threadId: target.thread_id, parseMode: target.parse_mode || this.parseMode }
+        : undefined;
+    }
+    return this.defaultChatId
+      ? { chatId: this.defaultChatId, threadId: this.defaultThreadId, parseMode: this.parseMode }
+      : undefined;
+  }
+
+  /**
+   * Whether a Telegram user is listed in admins by user ID or username
+   */
+  static isAdmin(user: { id?: number; username?: string } | undefined, admins: Array<number | string>): boolean {
+    if (!user || user.id === undefined) {
+      return false;
+    }
+    return admins.some(admin =>
+      String(admin) === String(user.id) ||
+      (!!user.username && String(admin).replace(/^@/, '').toLowerCase() === user.username.toLowerCase())
+    );
+  }
+
+  /**
+   * Resolve chat ID of default chat or named channel
+   */
+  resolveChatId(channel?: string): number | undefined {
+    return this.resolveTarget(channel)?.chatId;
+  }
+
+  /**
+   * Send message to Telegram (default chat or named channel), split into ordered parts when too long
    */
-  async sendMessage(message: NormalizedMessage, chatId?: number): Promise<boolean> {
+  async sendMessage(
+    message: NormalizedMessage,
+    channel?: string,
+    options: TelegramSendOptions = {}
+  ): Promise<DeliveryResult> {
     if (!this.enabled || !this.botToken) {
       logger.warn('[GSMRS] Telegram 服务已禁用或未配置');
-      return false;
+      return { success: false, error: 'Telegram service is disabled or not configured' };
     }
 
-    const targetChatId = chatId || this.defaultChatId;
-    if (!targetChatId) {
+    if (channel && !this.channels[channel]) {
+      logger.error('[GSMRS] 未知的 Telegram 频道', { channel });
+      return { success: false, error: `Unknown Telegram channel: ${channel}` };
+    }
+
+    const target = this.resolveTarget(channel);
+    if (!target) {
       logger.error('[GSMRS] 未指定目标聊天 ID');
-      return false;
+      return { success: false, error: 'No target chat ID' };
     }
 
-    try {
-      // Format message
-      let text = '';
-      if (message.title) {
-        text += `*${message.title}*\n\n`;
+    // Render template, only user content is escaped for the parse mode
+    const text = this.templates[target.parseMode].render(message, channel).body;
+    const parts = TelegramService.splitText(text, MAX_MESSAGE_LENGTH, target.parseMode);
+    const startPart = options.startPart || 0;
+    // 从中间段继续时第一段已在之前的尝试中发送，沿用其 message_id 关联会话
+    let firstMessageId = startPart > 0 ? options.firstMessageId : undefined;
+
+    for (let index = startPart; index < parts.length; index++) {
+      try {
+        const response = await this.api.post('/sendMessage', {
+          chat_id: target.chatId,
+          message_thread_id: target.threadId,
+          text: parts[index],
+          parse_mode: target.parseMode,
+          disable_web_page_preview: true,
+          // 只有第一段作为回复，后续段落紧随其后
+          reply_to_message_id: index === 0 ? options.replyToMessageId : undefined,
+          // 原帖已删除时仍然发送
+          allow_sending_without_reply: index === 0 && options.replyToMessageId ? true : undefined,
+        });
+
+        if (!response.data.ok) {
+          return this.failure(message, response.data, index, firstMessageId);
+        }
+        if (index === 0) {
+          firstMessageId = response.data.result?.message_id;
+        }
+      } catch (error: any) {
+        if (error.response?.data) {
+          return this.failure(message, error.response.data, index, firstMessageId);
+        }
+        logger.error('[GSMRS] 发送 Telegram 消息时出错', {
+          error: error.message,
+          messageId: message.id,
+        });
+        return { success: false, error: error.message, messageId: firstMessageId, partsDelivered: index };
       }
-      text += message.content;
-      if (message.author) {
-        text += `\n\n_From: ${message.author}_`;
+    }
+
+    logger.info(`[GSMRS] 消息已发送到 Telegram 聊天 ${target.chatId}`, {
+      messageId: message.id,
+      replyTo: options.replyToMessageId,
+      threadId: target.threadId,
+      parts: parts.length,
+    });
+    return { success: true, messageId: firstMessageId, partsDelivered: parts.length };
+  }
+
+  /**
+   * Build failure result from a Telegram API error body, honouring retry_after
+   */
+  private failure(
+    message: NormalizedMessage,
+    data: any,
+    partsDelivered: number,
+    firstMessageId?: number
+  ): DeliveryResult {
+    const retryAfter: number | undefined = data?.parameters?.retry_after;
+
+    if (retryAfter !== undefined) {
+      logger.warn('[GSMRS] Telegram 限流，稍后重试', {
+        messageId: message.id,
+        retryAfter,
+        partsDelivered,
+      });
+    } else {
+      logger.error('[GSMRS] 发送 Telegram 消息失败', {
+        error: data?.description,
+        messageId: message.id,
+        data: safeLog(data),
+      });
+    }
+
+    return {
+      success: false,
+      error: `Telegram API error: ${data?.description || 'unknown error'}`,
+      retryAfterMs: retryAfter !== undefined ? retryAfter * 1000 : undefined,
+      messageId: firstMessageId,
+      partsDelivered,
+    };
+  }
+
+  /**
+   * Split text into parts of at most limit characters, preferring line breaks
+   */
+  static splitText(text: string, limit: number, parseMode: TelegramParseMode): string[] {
+    if (text.length <= limit) {
+      return [text];
+    }
+
+    // 预留闭合和重新打开格式所需的长度，不够时加倍后重新拆分
+    for (let reserve = SPLIT_RESERVE; ; reserve *= 2) {
+      const parts = TelegramService.balanceParts(text, TelegramService.splitLines(text, limit - reserve, parseMode), parseMode);
+      if (parts.every(part => part.length <= limit) || reserve >= limit / 2) {
+        return parts;
       }
+    }
+  }
 
-      // Escape markdown special characters
-      text = text.replace(/([_*\[\]()~`>#+\-=|{}.!])/g, '\\$1');
+  private static splitLines(text: string, limit: number, parseMode: TelegramParseMode): string[] {
+    const parts: string[] = [];
+    let current = '';
+
+    for (const line of text.split('\n')) {
+      let rest = line;
+
+      // 单行超长时在安全位置硬切，先填满当前段的剩余空间
+      while (rest.length > limit) {
+        const room = current ? limit - current.length - 1 : limit;
+        if (room < MIN_SPLIT_CHUNK) {
+          parts.push(current);
+          current = '';
+          continue;
+        }
+        const cut = TelegramService.safeCut(rest, room, parseMode);
+        const chunk = rest.substring(0, cut);
+        parts.push(current ? `${current}\n${chunk}` : chunk);
+        current = '';
+        rest = rest.substring(cut);
+      }
+
+      const candidate = current ? `${current}\n${rest}` : rest;
+      if (candidate.length > limit) {
+        parts.push(current);
+        current = rest;
+      } else {
+        current = candidate;
+      }
+    }
+
+    if (current) {
+      parts.push(current);
+    }
+    return parts;
+  }
+
+  /**
+   * Close entities left open at the end of a part and reopen them at the start of the next
+   */
+  private static balanceParts(source: string, parts: string[], parseMode: TelegramParseMode): string[] {
+    const balanced: string[] = [];
+    let reopen = '';
+    let carry = '';
+    let offset = 0;
+
+    for (const part of parts) {
+      let text = reopen + carry + part;
+      let { open, linkStart } = TelegramService.scanEntities(text, parseMode);
+      carry = '';
+      offset += part.length;
+      // 在行尾拆分时段间的换行不属于任何一段
+      const separator = source[offset] === '\n' ? '\n' : '';
+      offset += separator.length;
+
+      // 段尾停在 MarkdownV2 链接中间时，链接整体移到下一段
+      if (linkStart !== undefined && linkStart > reopen.length) {
+        carry = text.substring(linkStart) + separator;
+        text = text.substring(0, linkStart);
+        open = TelegramService.scanEntities(text, parseMode).open;
+      }
+
+      balanced.push(text + open.map(entity => entity.close).reverse().join(''));
+      reopen = open.map(entity => entity.open).join('');
+    }
 
+    if (carry) {
+      balanced.push(reopen + carry);
+    }
+    return balanced;
+  }
+
+  /**
+   * Entities still open at the end of text, and where an unfinished MarkdownV2 link starts
+   */
+  private static scanEntities(text: string, parseMode: TelegramParseMode): { open: OpenEntity[]; linkStart?: number } {
+    if (parseMode === 'HTML') {
+      const open: Array<OpenEntity & { name: string }> = [];
+      for (const match of text.matchAll(/<(\/?)([a-zA-Z][\w-]*)\b[^>]*>/g)) {
+        const name = match[2].toLowerCase();
+        if (!match[1]) {
+          open.push({ name, open: match[0], close: `</${name}>` });
+        } else {
+          const index = open.map(entity => entity.name).lastIndexOf(name);
+          if (index !== -1) {
+            open.splice(index, 1);
+          }
+        }
+      }
+      return { open };
+    }
+
+    // MarkdownV2：代码和链接地址中只有 ` 或 ) 和 \ 有特殊含义，其余位置的标记成对出现
+    const open: Array<OpenEntity & { start: number }> = [];
+    const toggle = (marker: string, start: number) => {
+      const index = open.map(entity => entity.open).lastIndexOf(marker);
+      if (index !== -1) {
+        open.splice(index, 1);
+      } else {
+        open.push({ open: marker, close: marker, start });
+      }
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const top = open[open.length - 1];
+      const char = text[i];
+
+      if (char === '\\') {
+        i += 2;
+      } else if (top?.close === '\n```') {
+        if (text.startsWith('```', i)) {
+          open.pop();
+          i += 3;
+        } else {
+          i++;
+        }
+      } else if (top?.open === '`') {
+        if (char === '`') {
+          open.pop();
+        }
+        i++;
+      } else if (top?.open === '](') {
+        if (char === ')') {
+          open.splice(open.length - 2, 2);
+        }
+        i++;
+      } else if (text.startsWith('```', i)) {
+        const language = /^[^\s`]*\n/.exec(text.substring(i + 3, i + 64));
+        open.push({ open: `\`\`\`${language?.[0] || ''}`, close: '\n```', start: i });
+        i += 3 + (language?.[0].length || 0);
+      } else if (char === '`') {
+        open.push({ open: '`', close: '`', start: i });
+        i++;
+      } else if (text.startsWith('||', i) || text.startsWith('__', i)) {
+        toggle(text.substring(i, i + 2), i);
+        i += 2;
+      } else if (char === '*' || char === '_' || char === '~') {
+        toggle(char, i);
+        i++;
+      } else if (char === '[') {
+        open.push({ open: '[', close: '', start: i });
+        i++;
+      } else if (char === ']' && top?.open === '[' && text[i + 1] === '(') {
+        open.push({ open: '](', close: '', start: i });
+        i += 2;
+      } else {
+        i++;
+      }
+    }
+
+    const link = open.findIndex(entity => entity.open === '[');
+    if (link === -1) {
+      return { open };
+    }
+    return { open: open.slice(0, link), linkStart: open[link].start };
+  }
+
+  /**
+   * Find a cut position that does not break an escape sequence, HTML tag/entity or surrogate pair
+   */
+  private static safeCut(text: string, limit: number, parseMode: TelegramParseMode): number {
+    let cut = limit;
+
+    const space = text.lastIndexOf(' ', cut - 1);
+    if (space > limit * 0.8) {
+      cut = space + 1;
+    }
+
+    if (parseMode === 'MarkdownV2') {
+      // 奇数个连续反斜杠结尾表示最后一个字符的转义被切断
+      let backslashes = 0;
+      while (backslashes < cut && text[cut - 1 - backslashes] === '\\') {
+        backslashes++;
+      }
+      if (backslashes % 2 === 1) {
+        cut--;
+      }
+      // 链接不能拆开，从链接开头切分
+      const { linkStart } = TelegramService.scanEntities(text.substring(0, cut), parseMode);
+      if (linkStart !== undefined && linkStart > 0) {
+        cut = linkStart;
+      }
+    } else {
+      const tagStart = text.lastIndexOf('<', cut - 1);
+      if (tagStart > text.lastIndexOf('>', cut - 1)) {
+        cut = tagStart;
+      }
+      const entityStart = text.lastIndexOf('&', cut - 1);
+      if (entityStart !== -1 && entityStart > text.lastIndexOf(';', cut - 1) && cut - entityStart < 10) {
+        cut = entityStart;
+      }
+    }
+
+    const code = text.charCodeAt(cut - 1);
+    if (code >= 0xd800 && code <= 0xdbff) {
+      cut--;
+    }
+    return Math.max(cut, 1);
+  }
+
+  /**
+   * Send plain text to a chat (bot command replies)
+   */
+  async sendText(chatId: number, text: string, replyToMessageId?: number): Promise<DeliveryResult> {
+    if (!this.enabled || !this.botToken) {
+      return { success: false, error: 'Telegram service is disabled or not configured' };
+    }
+
+    try {
       const response = await this.api.post('/sendMessage', {
-        chat_id: targetChatId,
+        chat_id: chatId,
         text,
-        parse_mode: 'MarkdownV2',
         disable_web_page_preview: true,
+        reply_to_message_id: replyToMessageId,
+        allow_sending_without_reply: replyToMessageId ? true : undefined,
+      });
+      return { success: response.data.ok === true, messageId: response.data.result?.message_id };
+    } catch (error: any) {
+      logger.error('[GSMRS] 发送 Telegram 文本时出错', {
+        error: error.message,
+        chatId,
+        data: safeLog(error.response?.data),
       });
+      return { success: false, error: error.response?.data?.description || error.message };
+    }
+  }
 
-      if (response.data.ok) {
-        logger.info(`[GSMRS] 消息已发送到 Telegram 聊天 ${targetChatId}`, {
-          messageId: message.id,
-        });
-        return true;
-      } else {
-        logger.error('[GSMRS] 发送 Telegram 消息失败', {
-          error: response.data.description,
-          messageId: message.id,
-        });
-        return false;
-      }
+  /**
+   * Long-poll for updates, throws on request failure
+   */
+  async getUpdates(offset: number, timeout: number): Promise<TelegramMessage[]> {
+    const response = await this.api.post('/getUpdates', {
+      offset,
+      timeout,
+      allowed_updates: ['message'],
+    }, {
+      // 长轮询请求会挂起 timeout 秒，HTTP 超时需要更长
+      timeout: (timeout + 10) * 1000,
+    });
+    return response.data.result || [];
+  }
+
+  /**
+   * Download a file by file_id via getFile, throws on failure or when larger than maxSize
+   */
+  async downloadFile(fileId: string, maxSize: number): Promise<Buffer> {
+    const response = await this.api.post('/getFile', { file_id: fileId });
+    const filePath: string | undefined = response.data.result?.file_path;
+    if (!response.data.ok || !filePath) {
+      throw new Error(`Telegram getFile failed: ${response.data.description || 'no file_path'}`);
+    }
+
+    const file = await axios.get(`https://api.telegram.org/file/bot${this.botToken}/${filePath}`, {
+      responseType: 'arraybuffer',
+      timeout: 60000,
+      maxContentLength: maxSize,
+    });
+    return Buffer.from(file.data);
+  }
+
+  /**
+   * Remove webhook so getUpdates can be used
+   */
+  async deleteWebhook(): Promise<boolean> {
+    if (!this.enabled || !this.botToken) {
+      return false;
+    }
+
+    try {
+      const response = await this.api.post('/deleteWebhook');
+      logger.info('[GSMRS] 已删除 Telegram Webhook');
+      return response.data.ok === true;
     } catch (error: any) {
-      logger.error('[GSMRS] 发送 Telegram 消息时出错', {
+      logger.error('[GSMRS] 删除 Telegram Webhook 失败', {
         error: error.message,
-        messageId: message.id,
         data: safeLog(error.response?.data),
       });
       return false;
@@ -0,0 +1,117 @@
+/**
+ * Telegram 长轮询模块
+ *
+ * 原理：
+ * - telegram.mode 为 polling 时启用，适用于没有公网 HTTPS 地址的内网部署
+ * - 启动时调用 deleteWebhook（getUpdates 与 Webhook 互斥），随后循环调用 getUpdates 长轮询
+ * - 每批更新处理完成后把 offset（最后 update_id + 1）写入文件，重启后从该位置继续，不会重放
+ * - 每条更新与 Webhook 走同一条处理路径（TelegramUpdateProcessor）
+ * - 请求失败时等待后重试；返回 409 表示 Webhook 仍然存在，会重新调用 deleteWebhook
+ *
+ * 选型理由：
+ * - 长轮询：Telegram 官方支持，只需出站连接，无需暴露端口
+ * - 串行处理：与 Webhook 一样按顺序处理更新，offset 语义简单可靠
+ */
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+import { readJsonFile, writeJsonFile } from '../utils/jsonFile';
+import { Dispatcher } from './dispatcher';
+import { TelegramUpdateProcessor } from './telegramUpdates';
+import * as path from 'path';
+
+const DEFAULT_POLL_TIMEOUT = 30; // seconds
+const DEFAULT_OFFSET_PATH = './data/telegram-offset.json';
+const RETRY_DELAY = 5000;
+
+export interface TelegramPollerStatus {
+  running: boolean;
+  lastPollAt: string | null;
+  lastError: string | null;
+  offset: number;
+}
+
+export class TelegramPoller {
+  private dispatcher: Dispatcher;
+  private processor: TelegramUpdateProcessor;
+  private offsetPath: string;
+  private timeout: number;
+  private offset: number = 0;
+  private running: boolean = false;
+  private lastPollAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(dispatcher: Dispatcher) {
+    const config = ConfigLoader.getConfig();
+    this.dispatcher = dispatcher;
+    this.processor = new TelegramUpdateProcessor(dispatcher);
+    this.timeout = config.telegram?.polling?.timeout || DEFAULT_POLL_TIMEOUT;
+    this.offsetPath = path.resolve(process.cwd(), config.telegram?.polling?.offset_path || DEFAULT_OFFSET_PATH);
+    this.offset = readJsonFile<{ offset: number }>(this.offsetPath)?.offset || 0;
+  }
+
+  /**
+   * Remove webhook and start the getUpdates loop
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    await this.dispatcher.telegram.deleteWebhook();
+    logger.info('[GSMRS] Telegram 长轮询已启动', { offset: this.offset, timeout: this.timeout });
+
+    this.loop();
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  getStatus(): TelegramPollerStatus {
+    return {
+      running: this.running,
+      lastPollAt: this.lastPollAt ? new Date(this.lastPollAt).toISOString() : null,
+      lastError: this.lastError,
+      offset: this.offset,
+    };
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      try {
+        const updates = await this.dispatcher.telegram.getUpdates(this.offset, this.timeout);
+        this.lastPollAt = Date.now();
+        this.lastError = null;
+
+        for (const update of updates) {
+          try {
+            await this.processor.process(update);
+          } catch (error: any) {
+            logger.error('[GSMRS] 处理 Telegram 更新时出错', {
+              updateId: update.update_id,
+              error: error.message,
+            });
+          }
+          if (update.update_id !== undefined) {
+            this.offset = update.update_id + 1;
+          }
+        }
+
+        if (updates.length > 0) {
+          writeJsonFile(this.offsetPath, { offset: this.offset });
+        }
+      } catch (error: any) {
+        this.lastError = error.message;
+        logger.error('[GSMRS] Telegram 长轮询失败，稍后重试', { error: error.message });
+
+        if (error.response?.status === 409) {
+          await this.dispatcher.telegram.deleteWebhook();
+        }
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+      }
+    }
+
+    logger.info('[GSMRS] Telegram 长轮询已停止');
+  }
+}
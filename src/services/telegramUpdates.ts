@@ -0,0 +1,118 @@
+/**
+ * Telegram 更新处理模块
+ *
+ * 原理：
+ * - Webhook 和长轮询收到的 Update 走同一条处理路径：去重 → Bot 命令 → 标准化 → 清理 → 下载附件 → 路由
+ * - update_id 在命令执行或消息入队后才记录为已处理，处理出错时重新收到的同一更新仍会被处理
+ * - 附件在路由前通过 getFile 下载到媒体存储，超过大小限制、类型不在白名单或下载失败的附件记录原因后跳过
+ * - 返回处理结果，由调用方决定如何响应（HTTP 响应或仅记录日志）
+ *
+ * 选型理由：
+ * - 单一处理路径：两种接入模式的行为完全一致，避免逻辑分叉
+ */
+import { TelegramMessage, TargetRef, NormalizedMessage } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { logger } from '../utils/logger';
+import { Dispatcher } from './dispatcher';
+import { MessageSanitizer } from './sanitizer';
+import { TelegramCommands } from './commands';
+
+export interface TelegramUpdateOutcome {
+  status: 'invalid' | 'duplicate' | 'command' | 'routed';
+  messageId?: string;
+  targets?: TargetRef[];
+}
+
+export class TelegramUpdateProcessor {
+  private dispatcher: Dispatcher;
+  private commands: TelegramCommands;
+
+  constructor(dispatcher: Dispatcher) {
+    this.dispatcher = dispatcher;
+    this.commands = new TelegramCommands(dispatcher);
+  }
+
+  /**
+   * Deduplicate, run bot commands, or normalize and route an update
+   */
+  async process(payload: TelegramMessage): Promise<TelegramUpdateOutcome> {
+    if (!payload.message) {
+      return { status: 'invalid' };
+    }
+
+    // 去重：同一 update_id 只处理一次
+    const updateKey = payload.update_id !== undefined ? `telegram:${payload.update_id}` : undefined;
+    if (updateKey && this.dispatcher.isDuplicate(updateKey)) {
+      logger.info('[GSMRS] 重复的 Telegram 更新，跳过', { updateId: payload.update_id });
+      return { status: 'duplicate' };
+    }
+
+    // Bot 命令：执行后直接返回，不转发
+    if (await this.commands.handle(payload)) {
+      if (updateKey) {
+        this.dispatcher.markProcessed(updateKey);
+      }
+      return { status: 'command' };
+    }
+
+    // Normalize message
+    const normalized = MessageSanitizer.normalize('telegram', payload);
+
+    // Sanitize
+    const config = ConfigLoader.getConfig();
+    const sanitized = MessageSanitizer.sanitizeMessage(
+      normalized,
+      config.security.hide_sensitive
+    );
+
+    await this.fetchAttachments(sanitized);
+
+    logger.info('[GSMRS] 收到 Telegram 消息', {
+      messageId: sanitized.id,
+      chatId: sanitized.metadata?.chatId,
+      author: sanitized.author,
+      attachments: sanitized.attachments?.length,
+    });
+
+    // Route and queue messages
+    const targets = this.dispatcher.route(sanitized);
+    if (updateKey) {
+      this.dispatcher.markProcessed(updateKey);
+    }
+
+    return { status: 'routed', messageId: sanitized.id, targets };
+  }
+
+  /**
+   * Download attachments into the media store
+   */
+  private async fetchAttachments(message: NormalizedMessage): Promise<void> {
+    const media = this.dispatcher.media;
+
+    for (const attachment of message.attachments || []) {
+      if (!media.enabled) {
+        attachment.error = 'Media relay is disabled';
+        continue;
+      }
+
+      const rejection = media.check(attachment.mimeType, attachment.size);
+      if (rejection) {
+        attachment.error = rejection;
+        logger.info('[GSMRS] 附件未转发', { messageId: message.id, name: attachment.name, reason: rejection });
+        continue;
+      }
+
+      try {
+        const data = await this.dispatcher.telegram.downloadFile(attachment.fileId, media.maxSize);
+        media.save(attachment, data);
+      } catch (error: any) {
+        attachment.error = `Download failed: ${error.message}`;
+        logger.error('[GSMRS] 下载 Telegram 附件失败', {
+          messageId: message.id,
+          name: attachment.name,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
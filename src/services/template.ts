@@ -0,0 +1,362 @@
+/**
+ * 消息模板模块
+ *
+ * 原理：
+ * - 轻量 Mustache 风格语法：{{变量}}、{{{原样输出}}}、{{变量 | 过滤器}}、{{#区块}}…{{/区块}}、{{^反向区块}}…{{/区块}}
+ * - 区块为数组时逐项渲染，{{.}} 表示当前项；为真值时渲染一次；反向区块在值为空时渲染
+ * - 变量默认按目标格式自动转义（Telegram MarkdownV2 / HTML / GitHub Markdown / Slack mrkdwn / Discord Markdown / 飞书卡片 / 纯文本，
+ *   钉钉和企业微信的 Markdown 没有转义方式），模板本身的字面内容不转义
+ * - {{content}} 经 Markdown 中间文档渲染为目标格式：Markdown 正文保留代码块、链接、列表、标题等结构，纯文本正文只转义；
+ *   带过滤器时按纯文本处理，{{{content}}} 输出原文
+ * - 模板按“目标:频道 → 目标”以及“来源 → default”的顺序查找，都未配置时使用各服务内置的默认模板
+ * - 上下文包含 NormalizedMessage 的全部字段、metadata 以及便于生成表格的 metadata_entries
+ * - 构造时编译内置模板和 config.yaml 中该目标（含各频道）的全部模板，语法错误和未知过滤器在启动时报错，错误信息包含模板位置
+ *
+ * 选型理由：
+ * - 自实现而非引入模板库：语法足够简单，可控制转义规则，避免模板注入执行代码
+ * - 编译缓存：同一模板只解析一次，启动时校验后渲染不再解析
+ */
+import { NormalizedMessage, TargetType, TemplateSet } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { MessageSanitizer } from './sanitizer';
+import { MarkdownDocument, MarkdownFormat, parseMarkdown, plainDocument, renderMarkdown } from '../utils/markdown';
+
+// Telegram HTML 只支持部分标签，与邮件 HTML 分开渲染
+export type TemplateFormat = MarkdownFormat;
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+  text: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string; filters: string[]; raw: boolean }
+  | { type: 'section'; path: string; inverted: boolean; children: TemplateNode[] };
+
+/**
+ * Per-format escaping helpers
+ */
+export const escapeHelpers: Record<TemplateFormat, (text: string) => string> = {
+  markdown_v2: (text) => MessageSanitizer.escapeMarkdown(text),
+  markdown: (text) => text,
+  html: (text) => text.replace(/[&<>"']/g, (m) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  } as Record<string, string>)[m]),
+  telegram_html: (text) => escapeHelpers.html(text),
+  text: (text) => text,
+  slack_mrkdwn: (text) => text.replace(/[&<>]/g, (m) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;' } as Record<string, string>)[m]),
+  discord_markdown: (text) => text.replace(/[\\`*_\[\]<>~|]/g, '\\$&'),
+  lark_md: (text) => escapeHelpers.slack_mrkdwn(text),
+  dingtalk_markdown: (text) => text,
+  wecom_markdown: (text) => text,
+};
+
+/**
+ * Message content, parsed once and rendered per output format
+ */
+class MessageContent {
+  readonly source: string;
+  private markdown: boolean;
+  private document?: MarkdownDocument;
+
+  constructor(source: string, markdown: boolean) {
+    this.source = source;
+    this.markdown = markdown;
+  }
+
+  render(format: TemplateFormat): string {
+    this.document = this.document || (this.markdown ? parseMarkdown(this.source) : plainDocument(this.source));
+    return renderMarkdown(this.document, format);
+  }
+
+  toString(): string {
+    return this.render('text');
+  }
+}
+
+/**
+ * Filters return [output, alreadyEscaped]
+ */
+const FILTERS: Record<string, (value: string, arg?: string) => [string, boolean]> = {
+  raw: (value) => [value, true],
+  escape_markdown_v2: (value) => [escapeHelpers.markdown_v2(value), true],
+  escape_html: (value) => [escapeHelpers.html(value), true],
+  escape_markdown: (value) => [value.replace(/([\\`*_{}\[\]()#+\-.!|>~])/g, '\\$1'), true],
+  json: (value) => [JSON.stringify(value), true],
+  nl2br: (value) => [escapeHelpers.html(value).replace(/\n/g, '<br>'), true],
+  upper: (value) => [value.toUpperCase(), false],
+  lower: (value) => [value.toLowerCase(), false],
+  oneline: (value) => [value.replace(/\s*\n\s*/g, ' ').trim(), false],
+  truncate: (value, arg) => {
+    const max = parseInt(arg || '100', 10);
+    return [value.length > max ? `${value.substring(0, max)}…` : value, false];
+  },
+  date: (value) => {
+    const numeric = Number(value);
+    const date = new Date(isNaN(numeric) ? value : numeric);
+    return [isNaN(date.getTime()) ? value : date.toISOString(), false];
+  },
+};
+
+export class TemplateRenderer {
+  private static cache: Map<string, TemplateNode[]> = new Map();
+
+  private target: TargetType;
+  private format: TemplateFormat;
+  private defaults: TemplateSet;
+
+  constructor(target: TargetType, format: TemplateFormat, defaults: TemplateSet) {
+    this.target = target;
+    this.format = format;
+    this.defaults = defaults;
+    this.validate();
+  }
+
+  /**
+   * Compile the defaults and every configured template of this target and its channels
+   */
+  private validate(): void {
+    const sets: Array<[string, string | TemplateSet]> = [[`default ${this.target} template`, this.defaults]];
+    for (const [key, group] of Object.entries(ConfigLoader.getConfig().templates || {})) {
+      if (key === this.target || key.startsWith(`${this.target}:`)) {
+        sets.push(...Object.entries(group || {}).map(([source, template]): [string, string | TemplateSet] =>
+          [`templates.${key}.${source}`, template]));
+      }
+    }
+
+    for (const [name, set] of sets) {
+      if (typeof set === 'string') {
+        TemplateRenderer.validate(set, name);
+        continue;
+      }
+      if (set === null || typeof set !== 'object') {
+        throw new Error(`Invalid template ${name}: expected a string or an object with subject, body and text`);
+      }
+      TemplateRenderer.validate(set.body, `${name}.body`);
+      for (const field of ['subject', 'text'] as const) {
+        if (set[field] !== undefined) {
+          TemplateRenderer.validate(set[field], `${name}.${field}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Compile a template string, naming it in the error when it is invalid
+   */
+  static validate(template: unknown, name: string): void {
+    if (typeof template !== 'string') {
+      throw new Error(`Invalid template ${name}: expected a string`);
+    }
+    try {
+      this.compile(template);
+    } catch (error: any) {
+      throw new Error(`Invalid template ${name}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Render subject, body and plain-text alternative for a message
+   */
+  render(message: NormalizedMessage, channel?: string, format: TemplateFormat = this.format): RenderedMessage {
+    const templates = this.resolve(message.source, channel);
+    const context = TemplateRenderer.buildContext(message, this.target, channel);
+
+    return {
+      subject: TemplateRenderer.render(templates.subject || this.defaults.subject || '', context, 'text'),
+      body: TemplateRenderer.render(templates.body, context, format),
+      text: TemplateRenderer.render(templates.text || this.defaults.text || '', context, 'text'),
+    };
+  }
+
+  /**
+   * Configured template or the service default
+   */
+  private resolve(source: string, channel?: string): TemplateSet {
+    return this.findConfigured(source, channel) || this.defaults;
+  }
+
+  /**
+   * Whether config.yaml defines a template for this source and channel
+   */
+  hasTemplate(source: string, channel?: string): boolean {
+    return this.findConfigured(source, channel) !== undefined;
+  }
+
+  /**
+   * Find configured template: target:channel before target, source before default
+   */
+  private findConfigured(source: string, channel?: string): TemplateSet | undefined {
+    const config = ConfigLoader.getConfig();
+    const keys = channel ? [`${this.target}:${channel}`, this.target] : [this.target];
+
+    for (const key of keys) {
+      const group = config.templates?.[key];
+      const template = group?.[source] ?? group?.default;
+      if (template !== undefined) {
+        return typeof template === 'string' ? { body: template } : template;
+      }
+    }
+    return undefined;
+  }
+
+  static buildContext(message: NormalizedMessage, target?: string, channel?: string): Record<string, any> {
+    const metadata = message.metadata || {};
+    return {
+      ...message,
+      content: new MessageContent(message.content, message.format === 'markdown'),
+      metadata,
+      metadata_entries: Object.entries(metadata)
+        .filter(([, value]) => value !== undefined && value !== null && typeof value !== 'object')
+        .map(([key, value]) => ({ key, value: String(value) })),
+      date: new Date(message.timestamp).toISOString(),
+      target,
+      channel,
+    };
+  }
+
+  /**
+   * Render a template string against a context
+   */
+  static render(template: string, context: Record<string, any>, format: TemplateFormat): string {
+    return this.renderNodes(this.compile(template), [context], format);
+  }
+
+  private static compile(template: string): TemplateNode[] {
+    let nodes = this.cache.get(template);
+    if (!nodes) {
+      nodes = this.parse(template);
+      this.cache.set(template, nodes);
+    }
+    return nodes;
+  }
+
+  private static parse(template: string): TemplateNode[] {
+    const tagPattern = /\{\{\{\s*([^}]+?)\s*\}\}\}|\{\{\s*([#^\/]?)\s*([^}]+?)\s*\}\}/g;
+    const root: TemplateNode[] = [];
+    const stack: Array<{ path: string; children: TemplateNode[] }> = [{ path: '', children: root }];
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(template)) !== null) {
+      const current = stack[stack.length - 1];
+      if (match.index > lastIndex) {
+        current.children.push({ type: 'text', value: template.substring(lastIndex, match.index) });
+      }
+      lastIndex = tagPattern.lastIndex;
+
+      if (match[1] !== undefined) {
+        current.children.push({ type: 'var', path: match[1], filters: [], raw: true });
+        continue;
+      }
+
+      const [, , sigil, expression] = match;
+      if (sigil === '#' || sigil === '^') {
+        const section: TemplateNode = { type: 'section', path: expression, inverted: sigil === '^', children: [] };
+        current.children.push(section);
+        stack.push({ path: expression, children: section.children });
+      } else if (sigil === '/') {
+        if (stack.length === 1 || current.path !== expression) {
+          throw new Error(`Template error: unexpected closing tag {{/${expression}}}`);
+        }
+        stack.pop();
+      } else {
+        const [path, ...filters] = expression.split('|').map(part => part.trim());
+        const unknown = filters.map(filter => filter.split(':')[0].trim()).find(name => !Object.prototype.hasOwnProperty.call(FILTERS, name));
+        if (unknown !== undefined) {
+          throw new Error(`Template error: unknown filter "${unknown}"`);
+        }
+        current.children.push({ type: 'var', path, filters, raw: false });
+      }
+    }
+
+    if (stack.length > 1) {
+      throw new Error(`Template error: unclosed section {{#${stack[stack.length - 1].path}}}`);
+    }
+    if (lastIndex < template.length) {
+      root.push({ type: 'text', value: template.substring(lastIndex) });
+    }
+    return root;
+  }
+
+  private static renderNodes(nodes: TemplateNode[], stack: any[], format: TemplateFormat): string {
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        output += node.value;
+      } else if (node.type === 'var') {
+        output += this.renderVar(node.path, node.filters, node.raw, stack, format);
+      } else {
+        const value = this.lookup(node.path, stack);
+        const empty = value === undefined || value === null || value === false || value === '' ||
+          (Array.isArray(value) && value.length === 0) || (value instanceof MessageContent && !value.source.trim());
+
+        if (node.inverted) {
+          if (empty) {
+            output += this.renderNodes(node.children, stack, format);
+          }
+        } else if (Array.isArray(value)) {
+          for (const item of value) {
+            output += this.renderNodes(node.children, [...stack, item], format);
+          }
+        } else if (!empty) {
+          const scope = typeof value === 'object' && !(value instanceof MessageContent) ? [...stack, value] : stack;
+          output += this.renderNodes(node.children, scope, format);
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private static renderVar(path: string, filters: string[], raw: boolean, stack: any[], format: TemplateFormat): string {
+    const value = this.lookup(path, stack);
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (value instanceof MessageContent && filters.length === 0) {
+      return raw ? value.source : value.render(format);
+    }
+
+    let output = typeof value === 'object' && !(value instanceof MessageContent) ? JSON.stringify(value) : String(value);
+    let escaped = raw;
+
+    for (const filter of filters) {
+      const [name, arg] = filter.split(':').map(part => part.trim());
+      const fn = FILTERS[name];
+      if (!fn) {
+        throw new Error(`Template error: unknown filter "${name}"`);
+      }
+      const [result, safe] = fn(output, arg);
+      output = result;
+      escaped = escaped || safe;
+    }
+
+    return escaped ? output : escapeHelpers[format](output);
+  }
+
+  /**
+   * Resolve dotted path, searching the context stack from innermost scope
+   */
+  private static lookup(path: string, stack: any[]): any {
+    if (path === '.') {
+      return stack[stack.length - 1];
+    }
+
+    const [head, ...rest] = path.split('.');
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const scope = stack[i];
+      if (scope !== null && typeof scope === 'object' && head in scope) {
+        return rest.reduce((value, key) => (value == null ? undefined : value[key]), scope[head]);
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * 会话线程映射模块
+ *
+ * 原理：
+ * - 记录 Telegram 消息与 GitHub Issue/评论的对应关系，实现双向串联：
+ *   - Telegram 消息 (chatId, messageId) → GitHub Issue（及评论 ID），在 Telegram 中回复转发的帖子时评论到对应 Issue
+ *   - GitHub Issue (repo, issueNumber) → 每个聊天中的首条转发帖子，Issue 的后续评论以回复形式发送到该帖子下
+ *   - 邮件 Message-ID → GitHub Issue：转发 Issue 的邮件和收到的回复邮件，按 In-Reply-To / References 找到对应 Issue
+ * - 映射保存为 JSON 快照，重启后恢复
+ * - 超过上限时按插入顺序淘汰最早的记录
+ *
+ * 选型理由：
+ * - 独立存储而非放在消息中：Telegram 回复只携带被回复消息的 ID，需要反查
+ * - 插入顺序淘汰：Map 保持插入顺序，实现简单，旧会话很少再被回复
+ */
+import { JsonSnapshot, readJsonFile } from '../utils/jsonFile';
+import { logger } from '../utils/logger';
+
+export interface GitHubThreadRef {
+  repo: string;
+  issueNumber: number;
+  commentId?: number;
+}
+
+export interface TelegramThreadRef {
+  chatId: number;
+  messageId: number;
+}
+
+interface ThreadSnapshot {
+  telegram: Array<[string, GitHubThreadRef]>;
+  github: Array<[string, TelegramThreadRef[]]>;
+  mail?: Array<[string, GitHubThreadRef]>;
+}
+
+export class ThreadStore {
+  private telegramToGitHub: Map<string, GitHubThreadRef> = new Map();
+  private githubToTelegram: Map<string, TelegramThreadRef[]> = new Map();
+  private mailToGitHub: Map<string, GitHubThreadRef> = new Map();
+  private maxEntries: number;
+  private snapshot?: JsonSnapshot;
+
+  constructor(maxEntries: number, filePath?: string) {
+    this.maxEntries = maxEntries;
+
+    if (filePath) {
+      this.load(filePath);
+      this.snapshot = new JsonSnapshot(filePath, () => ({
+        telegram: Array.from(this.telegramToGitHub.entries()),
+        github: Array.from(this.githubToTelegram.entries()),
+        mail: Array.from(this.mailToGitHub.entries()),
+      }));
+    }
+  }
+
+  private static telegramKey(chatId: number, messageId: number): string {
+    return `${chatId}:${messageId}`;
+  }
+
+  private static githubKey(repo: string, issueNumber: number): string {
+    return `${repo.toLowerCase()}#${issueNumber}`;
+  }
+
+  /**
+   * Find GitHub issue a Telegram message belongs to
+   */
+  getGitHubThread(chatId: number, messageId: number): GitHubThreadRef | undefined {
+    return this.telegramToGitHub.get(ThreadStore.telegramKey(chatId, messageId));
+  }
+
+  /**
+   * Find the first relayed post of an issue in a chat
+   */
+  getTelegramThread(repo: string, issueNumber: number, chatId: number): TelegramThreadRef | undefined {
+    return this.githubToTelegram.get(ThreadStore.githubKey(repo, issueNumber))
+      ?.find(post => post.chatId === chatId);
+  }
+
+  /**
+   * Link a Telegram message to a GitHub issue; with asRoot, the first such post per chat becomes the thread root
+   */
+  link(post: TelegramThreadRef, thread: GitHubThreadRef, asRoot: boolean = true): void {
+    this.telegramToGitHub.set(ThreadStore.telegramKey(post.chatId, post.messageId), thread);
+
+    const key = ThreadStore.githubKey(thread.repo, thread.issueNumber);
+    const posts = this.githubToTelegram.get(key) || [];
+    if (asRoot && !posts.some(existing => existing.chatId === post.chatId)) {
+      posts.push(post);
+      this.githubToTelegram.set(key, posts);
+    }
+
+    this.evict();
+    this.snapshot?.markDirty();
+  }
+
+  /**
+   * Find GitHub issue of an email thread; ids are In-Reply-To first, then References newest first
+   */
+  getGitHubThreadByMail(messageIds: string[]): GitHubThreadRef | undefined {
+    for (const id of messageIds) {
+      const thread = this.mailToGitHub.get(id.toLowerCase());
+      if (thread) {
+        return thread;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Link an email Message-ID to a GitHub issue
+   */
+  linkMail(messageId: string, thread: GitHubThreadRef): void {
+    this.mailToGitHub.set(messageId.toLowerCase(), thread);
+    this.evict();
+    this.snapshot?.markDirty();
+  }
+
+  get size(): number {
+    return this.telegramToGitHub.size;
+  }
+
+  private evict(): void {
+    for (const map of [this.telegramToGitHub, this.githubToTelegram, this.mailToGitHub] as Map<string, unknown>[]) {
+      while (map.size > this.maxEntries) {
+        const oldest = map.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        map.delete(oldest);
+      }
+    }
+  }
+
+  private load(filePath: string): void {
+    const data = readJsonFile<ThreadSnapshot>(filePath);
+    if (!data) {
+      return;
+    }
+
+    this.telegramToGitHub = new Map(data.telegram || []);
+    this.githubToTelegram = new Map(data.github || []);
+    this.mailToGitHub = new Map(data.mail || []);
+    logger.info('[GSMRS] 已加载会话线程映射', { file: filePath, entries: this.telegramToGitHub.size });
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * 出站 Webhook 服务模块
+ *
+ * 原理：
+ * - 作为 api 目标，把消息以 HTTP POST 发送到配置的地址，供其他内部系统订阅转发服务的消息
+ * - 请求体默认为 NormalizedMessage 的 JSON；配置了 templates.api（或 api:频道）模板时改为发送渲染结果，
+ *   模板中可用 {{content | json}} 等写法生成 JSON 字符串
+ * - 配置 secret 后以 HMAC-SHA256 签名请求体（sha256=<hex>），写入签名头，默认与入站 API 验证使用的签名头一致，
+ *   另一个转发服务实例可以直接用 security.auth.api 验证
+ * - 每个请求附带 X-GSMRS-Message-Id，同一消息重试时不变，接收方可据此去重
+ * - 支持多个命名频道（api.channels），每个频道对应一个地址，可单独设置请求头、密钥和超时
+ * - 按状态码判断成功（默认 2xx，可配置）；429 / 503 携带 Retry-After 时返回等待时间，由队列按该时间重新调度
+ *
+ * 选型理由：
+ * - Axios：与其他出站服务一致，自带超时控制
+ * - 不跟随状态码抛异常（validateStatus），成功与否只由配置的状态码决定
+ */
+import axios, { AxiosInstance } from 'axios';
+import { NormalizedMessage, DeliveryResult, WebhookEndpointConfig } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { logger, safeLog } from '../utils/logger';
+import { computeHmacSignature } from '../middlewares/hmac';
+import { TemplateRenderer } from './template';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_SIGNATURE_HEADER = 'x-signature';
+const DEFAULT_CONTENT_TYPE = 'application/json';
+const RETRY_AFTER_STATUS = [429, 503];
+
+/**
+ * Retry-After header (seconds or HTTP date) in milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+export class WebhookService {
+  private endpoint?: WebhookEndpointConfig;
+  private channels: Record<string, WebhookEndpointConfig>;
+  private signatureHeader: string;
+  private client: AxiosInstance;
+  private enabled: boolean;
+  // 未配置模板时不使用，默认请求体为消息 JSON
+  private templates: TemplateRenderer = new TemplateRenderer('api', 'text', { body: '' });
+
+  constructor() {
+    const config = ConfigLoader.getConfig();
+    this.enabled = config.api?.enable ?? false;
+    this.endpoint = config.api?.url ? config.api : undefined;
+    this.channels = config.api?.channels || {};
+    this.signatureHeader = config.security.auth?.api?.header || DEFAULT_SIGNATURE_HEADER;
+    this.client = axios.create({
+      headers: { 'User-Agent': 'DS-GSMRS/1.0' },
+      // 所有状态码都按响应处理，由 success_status 判断成功
+      validateStatus: () => true,
+    });
+
+    if (!this.enabled) {
+      logger.info('[GSMRS] 出站 Webhook 已禁用');
+    } else if (!this.endpoint && Object.keys(this.channels).length === 0) {
+      logger.warn('[GSMRS] 出站 Webhook 已启用但未配置地址');
+    }
+  }
+
+  /**
+   * POST message to the default endpoint or a named channel
+   */
+  async deliver(message: NormalizedMessage, channel?: string): Promise<DeliveryResult> {
+    if (!this.enabled) {
+      logger.warn('[GSMRS] 出站 Webhook 已禁用');
+      return { success: false, error: 'Webhook target is disabled' };
+    }
+
+    const endpoint = channel ? this.channels[channel] : this.endpoint;
+    if (!endpoint?.url) {
+      logger.error('[GSMRS] 未知的 Webhook 频道或未配置地址', { channel });
+      return { success: false, error: channel ? `Unknown api channel: ${channel}` : 'Webhook URL is not configured' };
+    }
+
+    try {
+      const { body, contentType } = this.buildBody(message, channel, endpoint);
+      const headers: Record<string, string> = {
+        'Content-Type': contentType,
+        'X-GSMRS-Message-Id': message.id,
+        ...endpoint.headers,
+      };
+      if (endpoint.secret) {
+        headers[endpoint.signature_header || this.signatureHeader] = computeHmacSignature(endpoint.secret, body);
+      }
+
+      const response = await this.client.post(endpoint.url, body, {
+        headers,
+        timeout: endpoint.timeout_ms || DEFAULT_TIMEOUT_MS,
+        // 请求体已序列化，签名基于原样发送的字符串
+        transformRequest: [(data) => data],
+      });
+
+      if (WebhookService.isSuccess(response.status, endpoint)) {
+        logger.info('[GSMRS] Webhook 投递成功', {
+          messageId: message.id,
+          channel,
+          status: response.status,
+        });
+        return { success: true };
+      }
+
+      const retryAfterMs = RETRY_AFTER_STATUS.includes(response.status)
+        ? parseRetryAfter(response.headers['retry-after'])
+        : undefined;
+      if (retryAfterMs !== undefined) {
+        logger.warn('[GSMRS] Webhook 接收方要求稍后重试', {
+          messageId: message.id,
+          channel,
+          status: response.status,
+          retryAfterMs,
+        });
+      } else {
+        logger.error('[GSMRS] Webhook 投递失败', {
+          messageId: message.id,
+          channel,
+          status: response.status,
+          data: safeLog(response.data),
+        });
+      }
+      return {
+        success: false,
+        error: `Webhook responded with status ${response.status}`,
+        retryAfterMs,
+      };
+    } catch (error: any) {
+      logger.error('[GSMRS] 发送 Webhook 请求时出错', {
+        error: error.message,
+        messageId: message.id,
+        channel,
+      });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Rendered template when configured, otherwise the message as JSON
+   */
+  private buildBody(
+    message: NormalizedMessage,
+    channel: string | undefined,
+    endpoint: WebhookEndpointConfig
+  ): { body: string; contentType: string } {
+    if (this.templates.hasTemplate(message.source, channel)) {
+      return {
+        body: this.templates.render(message, channel).body,
+        contentType: endpoint.content_type || DEFAULT_CONTENT_TYPE,
+      };
+    }
+
+    // 附件的本地路径只在本机有意义，不发送给接收方
+    const attachments = message.attachments?.map(({ path, ...attachment }) => attachment);
+    return {
+      body: JSON.stringify({ ...message, attachments, channel }),
+      contentType: DEFAULT_CONTENT_TYPE,
+    };
+  }
+
+  private static isSuccess(status: number, endpoint: WebhookEndpointConfig): boolean {
+    return endpoint.success_status ? endpoint.success_status.includes(status) : status >= 200 && status < 300;
+  }
+
+  /**
+   * Health check - GET each health_url, endpoints without one only need a URL
+   */
+  async healthCheck(): Promise<boolean> {
+    const endpoints = [this.endpoint, ...Object.values(this.channels)].filter(Boolean) as WebhookEndpointConfig[];
+    if (!this.enabled || endpoints.length === 0) {
+      return false;
+    }
+
+    for (const endpoint of endpoints) {
+      if (!endpoint.url) {
+        return false;
+      }
+      if (!endpoint.health_url) {
+        continue;
+      }
+
+      try {
+        const response = await this.client.get(endpoint.health_url, {
+          headers: endpoint.headers,
+          timeout: endpoint.timeout_ms || DEFAULT_TIMEOUT_MS,
+        });
+        if (response.status < 200 || response.status >= 300) {
+          logger.error('[GSMRS] Webhook 健康检查失败', { url: endpoint.health_url, status: response.status });
+          return false;
+        }
+      } catch (error: any) {
+        logger.error('[GSMRS] Webhook 健康检查失败', { url: endpoint.health_url, error: error.message });
+        return false;
+      }
+    }
+    return true;
+  }
+}
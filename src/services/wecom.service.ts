@@ -0,0 +1,70 @@
+/**
+ * 企业微信群机器人服务模块
+ *
+ * 原理：
+ * - 向群机器人的 Webhook 地址（qyapi.weixin.qq.com/cgi-bin/webhook/send?key=…）发送消息，公共流程见 groupBot.ts
+ * - 消息类型：
+ *   - text：文本消息（最长 2048 字节）
+ *   - markdown：Markdown 消息（最长 4096 字节）
+ *   - card：文本通知模板卡片，标题为一级标题，正文按纯文本截断为二级文本，点击卡片打开消息链接
+ * - 企业微信机器人没有签名和关键词设置，地址中的 key 即凭据；配置的 keywords 仍会生效
+ * - 响应 errcode 为 0 表示成功；超过频率限制（45009，每分钟 20 条）时等待一分钟后重试
+ *
+ * 选型理由：
+ * - 企业微信 Markdown 支持标题、粗体、链接、行内代码和引用，不支持斜体、删除线、列表和代码块，这些内容以普通文本输出
+ */
+import { AxiosResponse } from 'axios';
+import { GroupBotChannelConfig } from '../types';
+import { ConfigLoader } from '../config/loader';
+import { GroupBotContent, GroupBotRequest, GroupBotResponse, GroupBotService, truncateBytes } from './groupBot';
+
+const RATE_LIMIT_CODES = [45009];
+const RATE_LIMIT_WAIT_MS = 60 * 1000;
+// 模板卡片一级标题建议不超过 26 个字，二级文本不超过 112 个字
+const MAX_CARD_TITLE_BYTES = 26 * 3;
+
+export class WeComService extends GroupBotService {
+  constructor() {
+    super('wecom', ConfigLoader.getConfig().wecom, {
+      name: '企业微信',
+      format: 'wecom_markdown',
+      cardFormat: 'text',
+      maxBytes: { text: 2048, markdown: 4096, card: 112 * 3 },
+    });
+  }
+
+  protected buildRequest(bot: GroupBotChannelConfig, content: GroupBotContent): GroupBotRequest {
+    switch (content.type) {
+      case 'text':
+        return { url: bot.webhook_url, body: { msgtype: 'text', text: { content: content.text } } };
+      case 'markdown':
+        return { url: bot.webhook_url, body: { msgtype: 'markdown', markdown: { content: content.text } } };
+      case 'card':
+        return {
+          url: bot.webhook_url,
+          body: {
+            msgtype: 'template_card',
+            template_card: {
+              card_type: 'text_notice',
+              main_title: { title: truncateBytes(content.title, MAX_CARD_TITLE_BYTES) },
+              sub_title_text: content.text,
+              card_action: { type: 1, url: content.url },
+            },
+          },
+        };
+    }
+  }
+
+  protected parseResponse(response: AxiosResponse): GroupBotResponse {
+    const data = response.data || {};
+    if (response.status === 200 && data.errcode === 0) {
+      return { ok: true };
+    }
+
+    const error = `${data.errcode ?? `HTTP ${response.status}`} ${data.errmsg || ''}`.trim();
+    if (response.status === 429 || RATE_LIMIT_CODES.includes(data.errcode)) {
+      return { ok: false, error, retryAfterMs: GroupBotService.retryAfter(response, RATE_LIMIT_WAIT_MS) };
+    }
+    return { ok: false, error };
+  }
+}
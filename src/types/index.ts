@@ -1,83 +1,429 @@
+export type MessageSource = 'telegram' | 'github' | 'api' | 'internal' | 'mail';
+
+// 正文格式：text 为纯文本，markdown 为 GitHub 风格 Markdown，由各目标转换为自身格式
+export type ContentFormat = 'text' | 'markdown';
+
 export interface NormalizedMessage {
   id: string;
-  source: 'telegram' | 'github' | 'api' | 'internal';
+  source: MessageSource;
   timestamp: number;
   title?: string;
   content: string;
+  format?: ContentFormat;
   author?: string;
   metadata?: Record<string, any>;
+  attachments?: MessageAttachment[];
   sanitized: boolean;
 }
 
+export interface MessageAttachment {
+  kind: 'photo' | 'document' | 'video' | 'voice' | 'sticker';
+  // 来源平台的文件 ID（Telegram file_id；邮件为 Content-ID 或部件序号）
+  fileId: string;
+  name: string;
+  mimeType?: string;
+  size?: number;
+  image?: boolean;
+  // 下载到媒体存储后填写
+  id?: string;
+  path?: string;
+  url?: string;
+  // 未转发的原因（超过大小限制、类型不在白名单、下载失败等）
+  error?: string;
+}
+
+export interface TelegramFile {
+  file_id: string;
+  file_unique_id?: string;
+  file_size?: number;
+}
+
+export interface TelegramUser {
+  id: number;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
 export interface TelegramMessage {
   message?: {
+    message_id?: number;
     text?: string;
+    caption?: string;
     chat?: {
       id: number;
       title?: string;
     };
-    from?: {
+    from?: TelegramUser;
+    // 同一张图片的多个尺寸，最后一个最大
+    photo?: Array<TelegramFile & { width: number; height: number }>;
+    document?: TelegramFile & { file_name?: string; mime_type?: string };
+    video?: TelegramFile & { file_name?: string; mime_type?: string; duration?: number };
+    voice?: TelegramFile & { mime_type?: string; duration?: number };
+    sticker?: TelegramFile & { emoji?: string; is_animated?: boolean; is_video?: boolean };
+    location?: {
+      latitude: number;
+      longitude: number;
+    };
+    forward_from?: TelegramUser;
+    forward_from_chat?: {
       id: number;
+      title?: string;
       username?: string;
-      first_name?: string;
+    };
+    forward_sender_name?: string;
+    // 被回复的消息，用于串联到对应的 GitHub Issue
+    reply_to_message?: {
+      message_id: number;
     };
   };
   update_id?: number;
 }
 
+export interface GitHubUser {
+  login: string;
+  type?: string;
+}
+
 export interface GitHubWebhookPayload {
   action?: string;
   issue?: {
     number: number;
     title: string;
     body: string;
-    user?: {
-      login: string;
+    html_url?: string;
+    user?: GitHubUser;
+    // 存在时表示该 Issue 实际是 Pull Request
+    pull_request?: { url: string };
+  };
+  comment?: {
+    id: number;
+    body: string;
+    html_url?: string;
+    user?: GitHubUser;
+  };
+  pull_request?: {
+    number: number;
+    title: string;
+    body: string | null;
+    html_url?: string;
+    merged?: boolean;
+    user?: GitHubUser;
+    base?: { ref: string };
+    head?: { ref: string };
+  };
+  review?: {
+    id: number;
+    state: string;
+    body: string | null;
+    html_url?: string;
+    user?: GitHubUser;
+  };
+  // push 事件
+  ref?: string;
+  created?: boolean;
+  deleted?: boolean;
+  compare?: string;
+  pusher?: {
+    name: string;
+    email?: string;
+  };
+  commits?: Array<{
+    id: string;
+    message: string;
+    url?: string;
+    author?: {
+      name?: string;
+      username?: string;
     };
+  }>;
+  release?: {
+    tag_name: string;
+    name: string | null;
+    body: string | null;
+    html_url?: string;
+    prerelease?: boolean;
+    author?: GitHubUser;
   };
-  repository?: {
+  workflow_run?: {
+    name: string;
+    conclusion: string | null;
+    head_branch: string;
+    head_sha: string;
+    run_number: number;
+    html_url?: string;
+    actor?: GitHubUser;
+    head_commit?: { message: string };
+  };
+  check_run?: {
+    name: string;
+    conclusion: string | null;
+    head_sha: string;
+    html_url?: string;
+    output?: {
+      title?: string | null;
+      summary?: string | null;
+    };
+  };
+  discussion?: {
+    number: number;
+    title: string;
+    body: string;
+    html_url?: string;
+    user?: GitHubUser;
+    category?: { name: string };
+  };
+  // fork 事件中新建的仓库
+  forkee?: {
     full_name: string;
+    html_url?: string;
+    owner?: GitHubUser;
   };
-  sender?: {
-    login: string;
-    type: string;
+  repository?: {
+    full_name: string;
+    html_url?: string;
+    stargazers_count?: number;
   };
+  sender?: GitHubUser;
+}
+
+export type TargetType = 'telegram' | 'github' | 'mail' | 'api' | 'slack' | 'discord' | 'feishu' | 'dingtalk' | 'wecom';
+
+// 目标引用："telegram" 表示平台默认目标，"telegram:ops" 表示该平台的命名频道
+export type TargetRef = TargetType | `${TargetType}:${string}`;
+
+export interface DeliveryResult {
+  success: boolean;
+  error?: string;
+  // 目标平台上创建的消息 ID（Telegram message_id / GitHub 评论 ID）；拆分发送中途失败时为已发送的第一段
+  messageId?: number;
+  // 目标平台要求的等待时间（如 Telegram 429 的 retry_after），队列按此延迟重新调度且不计入重试次数
+  retryAfterMs?: number;
+  // 拆分发送时已成功发送的段数
+  partsDelivered?: number;
+}
+
+export interface JobFailure {
+  attempt: number;
+  at: number;
+  error: string;
 }
 
 export interface QueueJob {
   id: string;
   message: NormalizedMessage;
-  target: 'telegram' | 'github' | 'mail' | 'api';
+  target: TargetType;
+  channel?: string;
   retries: number;
   maxRetries: number;
+  // 因目标要求等待（429 等）而重新调度的次数，不计入 retries，超过上限同样移入死信队列
+  rateLimited?: number;
   createdAt: number;
+  nextAttemptAt?: number;
+  failures?: JobFailure[];
+  // 拆分发送时已成功发送的段数，重试时跳过
+  partsDelivered?: number;
+  // 拆分发送时第一段的消息 ID，从中间段继续发送时用于关联会话
+  firstMessageId?: number;
+}
+
+export interface RouteMatch {
+  source?: string | string[];
+  event?: string | string[];
+  author?: string | string[];
+  title?: string;
+  content?: string;
+  repository?: string | string[];
+  action?: string | string[];
+  chat_id?: number | number[];
+}
+
+export interface RouteRule {
+  name?: string;
+  match?: RouteMatch;
+  targets: TargetRef[];
+  continue?: boolean;
+}
+
+export interface TemplateSet {
+  subject?: string;
+  body: string;
+  text?: string;
+}
+
+/**
+ * GitHub 投递方式，可在顶层配置并按频道覆盖
+ */
+export interface GitHubDeliveryConfig {
+  // comment：评论到固定 Issue（默认）；issue：每条消息新建 Issue；conversation：每个会话一个 Issue
+  mode?: 'comment' | 'issue' | 'conversation';
+  // 会话键模板，未配置时依次使用 metadata.thread、来源 + 聊天 ID
+  conversation_key?: string;
+  // 新建 Issue 时附加的标签、指派人和里程碑（编号或标题）
+  labels?: string[];
+  assignees?: string[];
+  milestone?: number | string;
+  // 按消息字段追加标签，键为 "字段:值"，如 "source:telegram"、"priority:high"
+  label_map?: Record<string, string[]>;
+  // 是否允许通过 /close、/reopen 消息关闭或重新打开 Issue
+  state_commands?: boolean;
+  // 可以通过邮件使用 /close、/reopen 的发件人（地址或 @域名），邮件须经 mail.inbound.trusted_relays 转投；
+  // Telegram 消息只接受 telegram.admins
+  state_command_senders?: string[];
+}
+
+export interface GitHubChannelConfig extends GitHubDeliveryConfig {
+  repo: string;
+  issue_number?: number;
+}
+
+/**
+ * 邮件收件人，地址可写作 "a@b.c" 或 "Name <a@b.c>"，多个地址用数组或逗号分隔
+ */
+export interface MailRecipientConfig {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+}
+
+export interface SlackChannelConfig {
+  // Incoming Webhook 地址，设置时优先于 Bot Token
+  webhook_url?: string;
+  // chat.postMessage 的频道（ID 或 #名称），需要 token
+  channel?: string;
+}
+
+export interface DiscordChannelConfig {
+  webhook_url: string;
+  // 发送到论坛帖子或子区
+  thread_id?: string;
+}
+
+export type GroupBotMessageType = 'text' | 'markdown' | 'card';
+
+export interface GroupBotChannelConfig {
+  webhook_url: string;
+  // 加签密钥（飞书“签名校验”、钉钉“加签”安全设置），企业微信不支持
+  secret?: string;
+  // 安全设置中的自定义关键词，消息不包含任何一个时在开头补上第一个
+  keywords?: string[];
+  msg_type?: GroupBotMessageType;
+}
+
+export type GroupBotConfig = GroupBotChannelConfig & {
+  enable: boolean;
+  channels?: Record<string, GroupBotChannelConfig>;
+};
+
+export interface WebhookEndpointConfig {
+  url: string;
+  headers?: Record<string, string>;
+  // 设置后以 HMAC-SHA256 签名请求体，写入 signature_header（默认 x-signature）
+  secret?: string;
+  signature_header?: string;
+  timeout_ms?: number;
+  // 视为成功的状态码，默认 2xx
+  success_status?: number[];
+  // 使用模板渲染请求体时的 Content-Type
+  content_type?: string;
+  // 健康检查时 GET 的地址，未设置时只检查配置
+  health_url?: string;
+}
+
+export interface SecretRuleConfig {
+  name: string;
+  // 支持 "/pattern/flags" 写法
+  pattern: string;
+  // 敏感值所在的捕获组，未设置时掩码整个匹配
+  group?: number;
 }
 
+export interface SecretsConfig {
+  // 启用的内置检测器，未配置时全部启用
+  detectors?: string[];
+  rules?: SecretRuleConfig[];
+  // 不掩码的值，支持 "/pattern/flags" 写法
+  allowlist?: string[];
+  // 键为消息来源，值为该来源启用的检测器（含自定义规则）
+  sources?: Record<string, string[]>;
+  // 是否在 metadata.redactions 中记录命中的检测器，默认 true
+  report?: boolean;
+}
+
+// 疑似垃圾消息的处理方式：quarantine 暂存待审核，drop 直接丢弃，allow 照常投递
+export type QuarantinePolicy = 'quarantine' | 'drop' | 'allow';
+
 export interface Config {
   server: {
     port: number;
     https: boolean;
     ip_whitelist?: string[];
+    // 对外访问地址，用于生成媒体文件链接
+    public_url?: string;
   };
   security: {
     enable_hmac: boolean;
     hmac_secret: string;
     hide_sensitive: boolean;
+    secrets?: SecretsConfig;
     rate_limit: {
       max: number;
       window_ms: number;
     };
+    auth?: {
+      telegram?: {
+        enable?: boolean;
+        secret_token?: string;
+      };
+      github?: {
+        enable?: boolean;
+        secret?: string;
+      };
+      api?: {
+        enable?: boolean;
+        secret?: string;
+        header?: string;
+      };
+      // 队列和隔离区管理接口的访问令牌（Authorization: Bearer <token>）
+      admin?: {
+        token?: string;
+      };
+    };
   };
   telegram?: {
     token: string;
     enable: boolean;
     default_target_chat: number;
+    // 论坛群组的话题 ID（message_thread_id）
+    default_thread_id?: number;
+    parse_mode?: 'MarkdownV2' | 'HTML';
+    channels?: Record<string, { chat: number; thread_id?: number; parse_mode?: 'MarkdownV2' | 'HTML' }>;
+    // 允许使用 Bot 命令的用户（Telegram 用户 ID 或用户名）
+    admins?: Array<number | string>;
+    // 接入模式：webhook（默认）或 polling（getUpdates 长轮询）
+    mode?: 'webhook' | 'polling';
+    polling?: {
+      timeout?: number;
+      offset_path?: string;
+    };
   };
-  github?: {
-    token: string;
+  github?: GitHubDeliveryConfig & {
+    // 个人访问令牌；配置 app 时可省略
+    token?: string;
+    // GitHub App 认证，配置后优先于 token
+    app?: {
+      app_id: number | string;
+      private_key_path: string;
+      installation_id: number | string;
+    };
     enable: boolean;
     repo: string;
-    issue_number: number;
+    issue_number?: number;
+    channels?: Record<string, GitHubChannelConfig>;
+    // 转发的事件及动作白名单，"*" 表示全部动作
+    events?: Record<string, string[] | '*'>;
+    // conversation 模式下会话键与 Issue 的对应关系文件
+    conversations_path?: string;
   };
   mail?: {
     enable: boolean;
@@ -88,7 +434,106 @@ export interface Config {
       user: string;
       pass: string;
     };
-    to: string;
+    to: string | string[];
+    cc?: string | string[];
+    bcc?: string | string[];
+    // 发件地址（默认为 SMTP 账号）及显示名称
+    from?: string;
+    from_name?: string;
+    // 回复地址（默认为入站邮件的 address）及显示名称
+    reply_to?: string;
+    reply_to_name?: string;
+    channels?: Record<string, MailRecipientConfig>;
+    // 允许消息通过 metadata.mailTo / mailCc / mailBcc 指定收件人
+    overrides?: {
+      enable?: boolean;
+      // 允许的收件人（地址或 @域名），未配置时不限制
+      allowed?: string[];
+    };
+    // 入站邮件：内置 SMTP 监听，收到的邮件作为 mail 来源的消息路由
+    inbound?: {
+      enable?: boolean;
+      host?: string;
+      port?: number;
+      // SMTP 问候语中的主机名
+      hostname?: string;
+      // 转发服务的收件地址，出站邮件以此作为 Reply-To，回复邮件即可评论到对应 Issue
+      address?: string;
+      // 接受的收件人（地址或 @域名），未配置时只接受 address
+      recipients?: string[];
+      // 允许的发件人（地址或 @域名），未配置时不限制
+      allowed_senders?: string[];
+      // 可信的前置 MTA（IP 地址），由其完成发件人认证（SPF / DKIM / DMARC）；只有经它们转投的邮件才能使用状态命令
+      trusted_relays?: string[];
+      max_size?: number;
+    };
+  };
+  slack?: SlackChannelConfig & {
+    enable: boolean;
+    // Bot Token（xoxb-），通过 chat.postMessage 发送
+    token?: string;
+    username?: string;
+    icon_emoji?: string;
+    channels?: Record<string, SlackChannelConfig>;
+  };
+  discord?: DiscordChannelConfig & {
+    enable: boolean;
+    username?: string;
+    avatar_url?: string;
+    // 以 Embed 卡片发送（默认），false 时发送纯文本消息
+    embed?: boolean;
+    // Embed 侧边颜色，如 0x5865F2 或 "#5865F2"
+    color?: number | string;
+    channels?: Record<string, DiscordChannelConfig>;
+  };
+  // 群机器人：飞书 / Lark、钉钉、企业微信
+  feishu?: GroupBotConfig;
+  dingtalk?: GroupBotConfig;
+  wecom?: GroupBotConfig;
+  // 出站 Webhook（目标 api）：POST 消息到其他系统
+  api?: WebhookEndpointConfig & {
+    enable: boolean;
+    channels?: Record<string, WebhookEndpointConfig>;
+  };
+  queue?: {
+    type?: 'memory' | 'file';
+    path?: string;
+  };
+  media?: {
+    enable?: boolean;
+    path?: string;
+    max_size?: number;
+    mime_allowlist?: string[];
+    retention_days?: number;
+  };
+  threads?: {
+    enable?: boolean;
+    path?: string;
+    max_entries?: number;
+  };
+  dedup?: {
+    ttl_ms?: number;
+    path?: string;
+  };
+  quarantine?: {
+    // 默认关闭
+    enable?: boolean;
+    path?: string;
+    max_entries?: number;
+    // 替换内置的垃圾关键词列表
+    keywords?: string[];
+    // 命名的正则规则，支持 "/pattern/flags" 写法
+    patterns?: Record<string, string>;
+    // 键为消息来源或 default；都未命中时 mail 隔离，其余来源照常投递
+    sources?: Record<string, QuarantinePolicy>;
+    // 键为目标（mail）或目标:频道（mail:ops），优先于来源策略
+    targets?: Record<string, QuarantinePolicy>;
+  };
+  routes?: RouteRule[];
+  default_route?: {
+    targets: TargetRef[];
   };
+  // 键为目标（telegram）或目标:频道（telegram:ops），内层键为消息来源或 default
+  templates?: Record<string, Record<string, string | TemplateSet>>;
 }
 
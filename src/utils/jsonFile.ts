@@ -0,0 +1,91 @@
+/**
+ * JSON 快照文件工具
+ *
+ * 原理：
+ * - 读取：文件不存在返回 undefined，内容损坏时记录警告并返回 undefined，由调用方从空状态开始
+ * - 写入：先写临时文件再 rename，避免进程中途退出留下半个文件
+ * - 延迟写入：短时间内多次变更只落盘一次，进程退出时同步写入剩余变更
+ *
+ * 选型理由：
+ * - 同步 API：数据量小，且需要在 process 'exit' 事件中完成写入
+ * - 统一实现：去重记录、会话映射等小型状态共用同一套落盘逻辑
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+/**
+ * Read and parse JSON file, undefined if missing or corrupt
+ */
+export function readJsonFile<T>(filePath: string): T | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error: any) {
+    logger.warn('[GSMRS] 读取 JSON 文件失败，将从空状态开始', {
+      file: filePath,
+      error: error.message,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Write JSON via temp file and rename
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data), 'utf8');
+    fs.renameSync(tmpPath, filePath);
+  } catch (error: any) {
+    logger.error('[GSMRS] 写入 JSON 文件失败', {
+      file: filePath,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Debounced snapshot writer, flushed synchronously on process exit
+ */
+export class JsonSnapshot {
+  private filePath: string;
+  private serialize: () => unknown;
+  private delay: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string, serialize: () => unknown, delay: number = 1000) {
+    this.filePath = filePath;
+    this.serialize = serialize;
+    this.delay = delay;
+    process.on('exit', () => this.flush());
+  }
+
+  /**
+   * Schedule a write, coalescing changes within the delay
+   */
+  markDirty(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => this.flush(), this.delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Write pending changes now
+   */
+  flush(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = null;
+    writeJsonFile(this.filePath, this.serialize());
+  }
+}
@@ -0,0 +1,1160 @@
+/**
+ * Markdown 转换工具
+ *
+ * 原理：
+ * - 将 GitHub 风格 Markdown（GFM）解析为与平台无关的中间文档：块级节点（段落、标题、代码块、引用、列表、任务列表、表格、分隔线）
+ *   和行内节点（文本、粗体、斜体、删除线、行内代码、链接、图片、换行）
+ * - 同一文档按目标格式渲染：Telegram MarkdownV2、Telegram HTML、邮件 HTML、纯文本、GitHub Markdown、Slack mrkdwn、Discord Markdown，
+ *   以及飞书卡片、钉钉、企业微信各自支持的 Markdown 子集；每种格式按自身规则转义文本，平台不支持的结构
+ *   （Telegram / Slack / 飞书的标题、除 HTML 和 GitHub 外的表格、钉钉和企业微信的代码块）降级为粗体、等宽文本或普通文本
+ * - 不安全的 HTML 被中和：原始 HTML 标签和注释在解析时丢弃（<br> 视为换行），只保留其中的文本；
+ *   链接和图片只接受 http / https / mailto 地址，其余协议（如 javascript:）只输出链接文字
+ * - 纯文本消息也转换为文档（只有段落和换行），模板中的正文对两种消息使用同一条渲染路径
+ * - 行内解析按 CommonMark 的定界符栈和括号栈单遍完成，匹配强调和链接时不回头重扫，耗时与输入长度成线性；
+ *   引用和列表的嵌套层数、行内节点的嵌套深度设有上限，超出的部分按普通文本输出，恶意输入不会拖慢解析或耗尽调用栈
+ *
+ * 选型理由：
+ * - 自实现而非引入 markdown-it / marked：需要输出 Telegram 的两种格式和纯文本，通用库只生成 HTML，且需额外做 HTML 清理
+ * - 中间文档：解析一次，多个目标各自渲染，新增目标格式时只需增加渲染函数
+ * - 只覆盖 Issue、评论和发布说明中常见的 GFM 子集（不支持引用式链接和脚注），无法识别的语法按普通文本输出
+ */
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; url: string; children: InlineNode[] }
+  | { type: 'image'; url: string; alt: string }
+  | { type: 'break' };
+
+export interface ListItem {
+  // 任务列表项的勾选状态，普通列表项为 undefined
+  checked?: boolean;
+  children: BlockNode[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | undefined;
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'code_block'; lang?: string; value: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' };
+
+export type MarkdownDocument = BlockNode[];
+
+export type MarkdownFormat =
+  | 'markdown_v2' | 'telegram_html' | 'html' | 'markdown' | 'text' | 'slack_mrkdwn' | 'discord_markdown'
+  | 'lark_md' | 'dingtalk_markdown' | 'wecom_markdown';
+
+// 引用和列表的最大嵌套层数，更深的内容按普通文本输出
+const MAX_BLOCK_DEPTH = 16;
+// 行内节点（强调、链接）的最大嵌套深度，更深的节点只保留文字
+const MAX_INLINE_DEPTH = 32;
+// 表格的最大列数，列数过多的行不视为表格（每个数据行都按表头列数展开）
+const MAX_TABLE_COLUMNS = 64;
+
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})([^`]*)$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const TABLE_DELIMITER_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const COMMENT_START_PATTERN = /^ {0,3}<!--/;
+const TASK_PATTERN = /^\[([ xX])\][ \t]+/;
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+// 行内语法使用粘性正则，从当前位置直接匹配，不截取剩余文本
+const URL_AUTOLINK_PATTERN = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/iy;
+const EMAIL_AUTOLINK_PATTERN = /<([^\s<>@]+@[^\s<>@.]+(?:\.[^\s<>@.]+)+)>/y;
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/y;
+const HTML_TAG_PATTERN = /<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/y;
+const ENTITY_PATTERN = /&(#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z]{1,32});/y;
+// 结尾的标点和不配对的 ) 由 trimBareUrl 去除
+const BARE_URL_PATTERN = /(?:https?:\/\/|www\.)[^\s<]*/iy;
+const URL_TRAILING_PATTERN = /[?!.,:;*_~'"\]]/;
+const LINK_TARGET_PATTERN = /\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+("[^"]*"|'[^']*'|\([^()]*\)))?\s*\)/y;
+const ESCAPABLE_PATTERN = /[!-\/:-@\[-`{-~]/;
+const WHITESPACE_PATTERN = /\s/;
+const PUNCTUATION_PATTERN = /[\p{P}\p{S}]/u;
+// 段落行首会被 GitHub 当作块级语法的内容：标题、引用、列表标记、setext 下划线
+const GFM_BLOCK_START_PATTERN = /^( *)(#{1,6}(?=[ \t]|$)|>|[-+*](?=[ \t])|[-=](?=[-=]*[ \t]*$)|\d+(?=[.)](?:[ \t]|$)))/gm;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse GitHub-flavoured markdown into a document
+ */
+export function parseMarkdown(source: string): MarkdownDocument {
+  const lines = source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return parseBlocks(lines);
+}
+
+/**
+ * Document of a plain-text message: paragraphs split on blank lines, no markup
+ */
+export function plainDocument(text: string): MarkdownDocument {
+  return text.replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/)
+    .filter(paragraph => paragraph.trim() !== '')
+    .map(paragraph => ({ type: 'paragraph', children: textWithBreaks(paragraph) }));
+}
+
+function textWithBreaks(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  text.split('\n').forEach((line, i) => {
+    if (i > 0) nodes.push({ type: 'break' });
+    if (line) nodes.push({ type: 'text', value: line });
+  });
+  return nodes;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Whether a line starts a block that interrupts a paragraph
+ */
+function startsBlock(line: string): boolean {
+  const list = line.match(LIST_PATTERN);
+  return FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) || COMMENT_START_PATTERN.test(line) ||
+    (!!list && list[3] !== '' && (!/\d/.test(list[2]) || list[2].startsWith('1')));
+}
+
+/**
+ * Text of an ATX heading without the optional closing #s
+ */
+function headingText(content: string): string {
+  const text = content.trimEnd();
+  let end = text.length;
+  while (end > 0 && text[end - 1] === '#') end--;
+  return end < text.length && (text[end - 1] === ' ' || text[end - 1] === '\t') ? text.substring(0, end).trimEnd() : text;
+}
+
+/**
+ * Parse the body of a quote or list item; beyond MAX_BLOCK_DEPTH it is kept as plain text
+ */
+function parseNested(lines: string[], depth: number): BlockNode[] {
+  if (depth < MAX_BLOCK_DEPTH) {
+    return parseBlocks(lines, depth);
+  }
+  const text = lines.map(line => line.trim()).filter(Boolean).join('\n');
+  return text ? [{ type: 'paragraph', children: textWithBreaks(text) }] : [];
+}
+
+function parseBlocks(lines: string[], depth = 0): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const [, indent, marker, info] = fence;
+      const lang = info.trim().split(/\s+/)[0];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`).test(lines[i])) {
+        body.push(lines[i].replace(new RegExp(`^ {0,${indent.length}}`), ''));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code_block', lang: lang || undefined, value: body.join('\n') });
+      continue;
+    }
+
+    // 多行 HTML 注释（如 Issue 模板中的说明）整体丢弃
+    if (COMMENT_START_PATTERN.test(line)) {
+      while (i < lines.length && !lines[i].includes('-->')) {
+        i++;
+      }
+      const rest = (lines[i] || '').substring((lines[i] || '').indexOf('-->') + 3);
+      if (isBlank(rest)) {
+        i++;
+      } else {
+        lines[i] = rest;
+      }
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(headingText(heading[2] || '')) });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        body.push(lines[i].replace(QUOTE_PATTERN, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseNested(body, depth + 1) });
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      i = parseList(lines, i, blocks, depth);
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1]) &&
+      lines[i + 1].includes('|') && splitTableRow(line).length <= MAX_TABLE_COLUMNS) {
+      i = parseTable(lines, i, blocks);
+      continue;
+    }
+
+    // Paragraph, possibly closed by a setext underline
+    const body: string[] = [line.trim()];
+    i++;
+    let level = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const setext = lines[i].match(SETEXT_PATTERN);
+      if (setext) {
+        level = setext[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i])) {
+        break;
+      }
+      body.push(lines[i].trim());
+      i++;
+    }
+
+    // 只有 HTML 标签的行（如 </details>）丢弃标签后为空
+    const children = parseInline(body.join('\n'));
+    if (children.some(node => node.type !== 'break' && (node.type !== 'text' || node.value.trim() !== ''))) {
+      blocks.push(level ? { type: 'heading', level, children } : { type: 'paragraph', children });
+    }
+  }
+
+  return blocks;
+}
+
+function parseList(lines: string[], start: number, blocks: BlockNode[], depth: number): number {
+  const first = lines[start].match(LIST_PATTERN)!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = lines[i].match(LIST_PATTERN);
+    if (!marker || /\d/.test(marker[2]) !== ordered || marker[2].slice(-1) !== delimiter) {
+      break;
+    }
+
+    // 标记后超过 4 个空格时内容只缩进一格（其余视为内容的一部分）
+    const spacing = marker[3].length > 4 ? 1 : Math.max(marker[3].length, 1);
+    const offset = marker[1].length + marker[2].length + spacing;
+    const body = [lines[i].substring(Math.min(offset, lines[i].length))];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        let next = i + 1;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next < lines.length && indentOf(lines[next]) >= offset) {
+          for (; i < next; i++) {
+            body.push('');
+          }
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) >= offset) {
+        body.push(line.substring(offset));
+      } else if (!isBlank(body[body.length - 1]) && !startsBlock(line) && !LIST_PATTERN.test(line)) {
+        // 段落的惰性续行
+        body.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const item: ListItem = { children: [] };
+    const task = body[0].match(TASK_PATTERN);
+    if (task) {
+      item.checked = task[1] !== ' ';
+      body[0] = body[0].substring(task[0].length);
+    }
+    item.children = parseNested(body, depth + 1);
+    items.push(item);
+
+    // 列表项之间的空行
+    while (i < lines.length && isBlank(lines[i]) && i + 1 < lines.length && LIST_PATTERN.test(lines[i + 1])) {
+      i++;
+    }
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items });
+  return i;
+}
+
+function splitTableRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  const trimmed = line.trim().replace(/^\|/, '');
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === '\\' && trimmed[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (trimmed[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += trimmed[i];
+    }
+  }
+  if (current.trim() !== '') {
+    cells.push(current.trim());
+  }
+  return cells;
+}
+
+function parseTable(lines: string[], start: number, blocks: BlockNode[]): number {
+  const header = splitTableRow(lines[start]);
+  const align: TableAlign[] = splitTableRow(lines[start + 1]).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : undefined;
+  });
+
+  const rows: InlineNode[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|') && !startsBlock(lines[i])) {
+    const cells = splitTableRow(lines[i]);
+    rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+    i++;
+  }
+
+  blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+  return i;
+}
+
+/**
+ * Parse inline markup; raw HTML tags are dropped, <br> becomes a line break
+ */
+export function parseInline(text: string): InlineNode[] {
+  return limitDepth(new InlineParser(text).parse());
+}
+
+type TextNode = Extract<InlineNode, { type: 'text' }>;
+
+// 解析中的行内节点组成双向链表，匹配到强调或链接时把一段节点原地收拢为子节点
+interface InlineItem {
+  node: InlineNode;
+  prev?: InlineItem;
+  next?: InlineItem;
+}
+
+// 定界符栈中的一段 * _ ~，length 为尚未匹配的个数
+interface Delimiter {
+  item: InlineItem;
+  text: TextNode;
+  char: string;
+  length: number;
+  originalLength: number;
+  canOpen: boolean;
+  canClose: boolean;
+  prev?: Delimiter;
+  next?: Delimiter;
+}
+
+// 括号栈中的 [ 或 ![
+interface Bracket {
+  item: InlineItem;
+  image: boolean;
+  // 入栈序号：构成链接后，之前入栈的 [ 不能再构成链接（链接中不嵌套链接）
+  index: number;
+  // 入栈时的定界符栈顶，链接文字中的强调只在它之上匹配
+  delimiter?: Delimiter;
+  prev?: Bracket;
+}
+
+/**
+ * Single-pass inline parser built on the CommonMark delimiter and bracket stacks
+ */
+class InlineParser {
+  private readonly text: string;
+  private pos = 0;
+  private buffer = '';
+  private head?: InlineItem;
+  private tail?: InlineItem;
+  private delimiters?: Delimiter;
+  private brackets?: Bracket;
+  private bracketCount = 0;
+  private linkBarrier = 0;
+  // 各长度反引号段的起始位置（升序）及查找游标；行内代码的结尾只向后查找，不重复扫描
+  private readonly codeRuns = new Map<number, number[]>();
+  private readonly codeCursors = new Map<number, number>();
+  // 最后一个 --> 的位置，其后的 <!-- 不可能闭合，不再尝试匹配注释
+  private readonly commentEnd: number;
+
+  constructor(text: string) {
+    this.text = text;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '`') {
+        const start = i;
+        while (text[i + 1] === '`') i++;
+        const runs = this.codeRuns.get(i - start + 1) || [];
+        runs.push(start);
+        this.codeRuns.set(i - start + 1, runs);
+      }
+    }
+    this.commentEnd = text.lastIndexOf('-->');
+  }
+
+  parse(): InlineNode[] {
+    const text = this.text;
+    while (this.pos < text.length) {
+      const char = text[this.pos];
+      if (char === '\\' && ESCAPABLE_PATTERN.test(text[this.pos + 1] || '')) {
+        this.buffer += text[this.pos + 1];
+        this.pos += 2;
+      } else if (char === '\n') {
+        this.lineBreak();
+      } else if (char === '`') {
+        this.codeSpan();
+      } else if (char === '[' || (char === '!' && text[this.pos + 1] === '[')) {
+        this.openBracket(char === '!');
+      } else if (char === ']') {
+        this.closeBracket();
+      } else if (char === '*' || char === '_' || char === '~') {
+        this.delimiterRun(char);
+      } else if (!((char === '<' || char === '&' || char === 'h' || char === 'w') && this.token(char))) {
+        this.buffer += char;
+        this.pos++;
+      }
+    }
+    this.flush();
+    this.processEmphasis(undefined);
+    return this.collect(this.head, undefined);
+  }
+
+  private flush(): void {
+    if (this.buffer) {
+      this.push({ type: 'text', value: this.buffer });
+      this.buffer = '';
+    }
+  }
+
+  private push(node: InlineNode): InlineItem {
+    const item: InlineItem = { node, prev: this.tail };
+    if (this.tail) {
+      this.tail.next = item;
+    } else {
+      this.head = item;
+    }
+    this.tail = item;
+    return item;
+  }
+
+  private append(node: InlineNode): InlineItem {
+    this.flush();
+    return this.push(node);
+  }
+
+  private removeItem(item: InlineItem): void {
+    if (item.prev) item.prev.next = item.next; else this.head = item.next;
+    if (item.next) item.next.prev = item.prev; else this.tail = item.prev;
+  }
+
+  private removeDelimiter(delimiter: Delimiter): void {
+    if (delimiter.prev) delimiter.prev.next = delimiter.next;
+    if (delimiter.next) delimiter.next.prev = delimiter.prev; else this.delimiters = delimiter.prev;
+  }
+
+  /**
+   * Nodes from an item up to (excluding) another, adjacent text merged
+   */
+  private collect(from: InlineItem | undefined, to: InlineItem | undefined): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    for (let item = from; item && item !== to; item = item.next) {
+      const node = item.node;
+      const last = nodes[nodes.length - 1];
+      if (node.type !== 'text') {
+        nodes.push(node);
+      } else if (last?.type === 'text') {
+        last.value += node.value;
+      } else if (node.value) {
+        nodes.push({ type: 'text', value: node.value });
+      }
+    }
+    return nodes;
+  }
+
+  private lineBreak(): void {
+    // 行尾两个空格或反斜杠是硬换行；GitHub 评论中的普通换行同样按换行显示
+    let end = this.buffer.length;
+    while (end > 0 && this.buffer[end - 1] === ' ') end--;
+    if (end === this.buffer.length && this.buffer.endsWith('\\')) end--;
+    this.buffer = this.buffer.substring(0, end);
+    this.append({ type: 'break' });
+    this.pos++;
+  }
+
+  private codeSpan(): void {
+    const text = this.text;
+    let end = this.pos;
+    while (text[end] === '`') end++;
+    const length = end - this.pos;
+    const close = this.findCodeClose(end, length);
+    if (close === -1) {
+      this.buffer += text.substring(this.pos, end);
+      this.pos = end;
+      return;
+    }
+    let value = text.substring(end, close).replace(/\n/g, ' ');
+    if (value.startsWith(' ') && value.endsWith(' ') && /[^ ]/.test(value)) {
+      value = value.slice(1, -1);
+    }
+    this.append({ type: 'code', value });
+    this.pos = close + length;
+  }
+
+  /**
+   * Start of the next backtick run of exactly the given length at or after a position
+   */
+  private findCodeClose(from: number, length: number): number {
+    const runs = this.codeRuns.get(length);
+    if (!runs) {
+      return -1;
+    }
+    let cursor = this.codeCursors.get(length) || 0;
+    while (cursor < runs.length && runs[cursor] < from) cursor++;
+    this.codeCursors.set(length, cursor);
+    return cursor < runs.length ? runs[cursor] : -1;
+  }
+
+  /**
+   * Autolinks, raw HTML, entities and bare URLs; false when nothing matched
+   */
+  private token(char: string): boolean {
+    const text = this.text;
+    if (char === '<') {
+      const autolink = matchAt(URL_AUTOLINK_PATTERN, text, this.pos) || matchAt(EMAIL_AUTOLINK_PATTERN, text, this.pos);
+      if (autolink) {
+        const url = autolink[1].includes(':') ? autolink[1] : `mailto:${autolink[1]}`;
+        this.append({ type: 'link', url, children: [{ type: 'text', value: autolink[1] }] });
+        this.pos += autolink[0].length;
+        return true;
+      }
+      const comment = this.pos < this.commentEnd ? matchAt(HTML_COMMENT_PATTERN, text, this.pos) : null;
+      const tag = comment || matchAt(HTML_TAG_PATTERN, text, this.pos);
+      if (tag) {
+        if (/^<br\s*\/?>$/i.test(tag[0])) {
+          this.append({ type: 'break' });
+        }
+        this.pos += tag[0].length;
+        return true;
+      }
+    } else if (char === '&') {
+      const entity = matchAt(ENTITY_PATTERN, text, this.pos);
+      const decoded = entity ? decodeEntity(entity[1]) : undefined;
+      if (entity && decoded !== undefined) {
+        this.buffer += decoded;
+        this.pos += entity[0].length;
+        return true;
+      }
+    } else if (!/[A-Za-z0-9]/.test(text[this.pos - 1] || '')) {
+      const match = matchAt(BARE_URL_PATTERN, text, this.pos);
+      const url = match ? trimBareUrl(match[0]) : '';
+      if (/^(?:https?:\/\/|www\.)./i.test(url)) {
+        const href = url.toLowerCase().startsWith('www.') ? `http://${url}` : url;
+        this.append({ type: 'link', url: href, children: [{ type: 'text', value: url }] });
+        this.pos += url.length;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private openBracket(image: boolean): void {
+    const item = this.append({ type: 'text', value: image ? '![' : '[' });
+    this.brackets = { item, image, index: ++this.bracketCount, delimiter: this.delimiters, prev: this.brackets };
+    this.pos += image ? 2 : 1;
+  }
+
+  /**
+   * Close the nearest bracket as [label](url "title") or ![alt](url), otherwise keep a literal ]
+   */
+  private closeBracket(): void {
+    const opener = this.brackets;
+    this.pos++;
+    if (!opener) {
+      this.buffer += ']';
+      return;
+    }
+    this.brackets = opener.prev;
+    const target = opener.image || opener.index > this.linkBarrier ? matchAt(LINK_TARGET_PATTERN, this.text, this.pos) : null;
+    if (!target) {
+      this.buffer += ']';
+      return;
+    }
+    this.pos += target[0].length;
+
+    this.flush();
+    this.processEmphasis(opener.delimiter);
+    const children = this.collect(opener.item.next, undefined);
+    this.tail = opener.item.prev;
+    if (this.tail) {
+      this.tail.next = undefined;
+    } else {
+      this.head = undefined;
+    }
+
+    const url = (target[1] ?? target[2] ?? '').replace(/\\([!-\/:-@\[-`{-~])/g, '$1');
+    if (opener.image) {
+      this.push({ type: 'image', url, alt: plainText(children) });
+    } else {
+      // 链接文字中不再嵌套链接
+      this.push({ type: 'link', url, children: children.flatMap(node => node.type === 'link' ? node.children : [node]) });
+      this.linkBarrier = this.bracketCount;
+    }
+  }
+
+  private delimiterRun(char: string): void {
+    const text = this.text;
+    let end = this.pos;
+    while (text[end] === char) end++;
+    const length = end - this.pos;
+
+    // CommonMark 的左右侧定界规则，文本首尾视为空白
+    const before = text[this.pos - 1] || ' ';
+    const after = text[end] || ' ';
+    const beforePunctuation = PUNCTUATION_PATTERN.test(before);
+    const afterPunctuation = PUNCTUATION_PATTERN.test(after);
+    const left = !WHITESPACE_PATTERN.test(after) && (!afterPunctuation || WHITESPACE_PATTERN.test(before) || beforePunctuation);
+    const right = !WHITESPACE_PATTERN.test(before) && (!beforePunctuation || WHITESPACE_PATTERN.test(after) || afterPunctuation);
+    // 下划线不能在单词内部开始或结束强调；删除线最多两个 ~
+    let canOpen = char === '_' ? left && (!right || beforePunctuation) : left;
+    let canClose = char === '_' ? right && (!left || afterPunctuation) : right;
+    if (char === '~' && length > 2) {
+      canOpen = canClose = false;
+    }
+
+    const node: TextNode = { type: 'text', value: text.substring(this.pos, end) };
+    const item = this.append(node);
+    if (canOpen || canClose) {
+      const delimiter: Delimiter = { item, text: node, char, length, originalLength: length, canOpen, canClose, prev: this.delimiters };
+      if (this.delimiters) {
+        this.delimiters.next = delimiter;
+      }
+      this.delimiters = delimiter;
+    }
+    this.pos = end;
+  }
+
+  /**
+   * Match closers with openers above the stack bottom, then drop those delimiters
+   */
+  private processEmphasis(stackBottom: Delimiter | undefined): void {
+    // 某类结束定界符找不到开始定界符时记下查找下界，之后同类定界符不再重复向下查找
+    const openersBottom = new Map<string, Delimiter | undefined>();
+    let closer = this.delimiters === stackBottom ? undefined : this.delimiters;
+    while (closer && closer.prev !== stackBottom) closer = closer.prev;
+
+    while (closer) {
+      if (!closer.canClose) {
+        closer = closer.next;
+        continue;
+      }
+      const key = closer.char === '~'
+        ? `~${closer.length}`
+        : `${closer.char}${closer.canOpen ? 1 : 0}${closer.originalLength % 3}`;
+      const bottom = openersBottom.has(key) ? openersBottom.get(key) : stackBottom;
+      let opener = closer.prev;
+      while (opener && opener !== bottom && opener !== stackBottom && !canMatch(opener, closer)) {
+        opener = opener.prev;
+      }
+
+      if (opener && opener !== bottom && opener !== stackBottom) {
+        this.wrap(opener, closer);
+        if (closer.length === 0) {
+          const next = closer.next;
+          this.removeItem(closer.item);
+          this.removeDelimiter(closer);
+          closer = next;
+        }
+      } else {
+        openersBottom.set(key, closer.prev);
+        const next = closer.next;
+        if (!closer.canOpen) {
+          this.removeDelimiter(closer);
+        }
+        closer = next;
+      }
+    }
+
+    while (this.delimiters && this.delimiters !== stackBottom) {
+      this.removeDelimiter(this.delimiters);
+    }
+  }
+
+  /**
+   * Move the nodes between a matched opener and closer into a strong, emphasis or strike node
+   */
+  private wrap(opener: Delimiter, closer: Delimiter): void {
+    const used = opener.char === '~' ? opener.length : opener.length >= 2 && closer.length >= 2 ? 2 : 1;
+    opener.length -= used;
+    closer.length -= used;
+    opener.text.value = opener.text.value.substring(0, opener.length);
+    closer.text.value = closer.text.value.substring(used);
+
+    const type = opener.char === '~' ? 'strike' : used === 2 ? 'strong' : 'emphasis';
+    const item: InlineItem = {
+      node: { type, children: this.collect(opener.item.next, closer.item) },
+      prev: opener.item,
+      next: closer.item,
+    };
+    opener.item.next = item;
+    closer.item.prev = item;
+    // 开始和结束之间的定界符不再参与匹配
+    opener.next = closer;
+    closer.prev = opener;
+
+    if (opener.length === 0) {
+      this.removeItem(opener.item);
+      this.removeDelimiter(opener);
+    }
+  }
+}
+
+/**
+ * Whether a delimiter run can open emphasis closed by another
+ */
+function canMatch(opener: Delimiter, closer: Delimiter): boolean {
+  if (opener.char !== closer.char || !opener.canOpen) {
+    return false;
+  }
+  if (opener.char === '~') {
+    return opener.length === closer.length;
+  }
+  // CommonMark 的“3 的倍数”规则：避免 *a**b* 这类内容被错误配对
+  return !((opener.canClose || closer.canOpen) && (opener.originalLength + closer.originalLength) % 3 === 0 &&
+    !(opener.originalLength % 3 === 0 && closer.originalLength % 3 === 0));
+}
+
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+/**
+ * Drop trailing punctuation of a bare URL, and a closing parenthesis only when it has no opening one (GFM)
+ */
+function trimBareUrl(url: string): string {
+  let end = url.length;
+  let unmatched = countChar(url, ')') - countChar(url, '(');
+  while (end > 0) {
+    const char = url[end - 1];
+    if (URL_TRAILING_PATTERN.test(char)) {
+      end--;
+    } else if (char === ')' && unmatched > 0) {
+      end--;
+      unmatched--;
+    } else {
+      break;
+    }
+  }
+  return url.substring(0, end);
+}
+
+function countChar(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+/**
+ * Replace nodes nested deeper than MAX_INLINE_DEPTH with their text, without recursion
+ */
+function limitDepth(nodes: InlineNode[]): InlineNode[] {
+  const pending: Array<{ nodes: InlineNode[]; depth: number }> = [{ nodes, depth: 1 }];
+  while (pending.length > 0) {
+    const { nodes: list, depth } = pending.pop()!;
+    list.forEach((node, i) => {
+      if (node.type === 'strong' || node.type === 'emphasis' || node.type === 'strike' || node.type === 'link') {
+        if (depth < MAX_INLINE_DEPTH) {
+          pending.push({ nodes: node.children, depth: depth + 1 });
+        } else {
+          list[i] = { type: 'text', value: plainText(node.children) };
+        }
+      }
+    });
+  }
+  return nodes;
+}
+
+function decodeEntity(name: string): string | undefined {
+  if (name.startsWith('#')) {
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : undefined;
+  }
+  return ENTITIES[name.toLowerCase()];
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const escapeV2 = (text: string) => text.replace(/[_*\[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+const escapeV2Code = (text: string) => text.replace(/[`\\]/g, '\\$&');
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, (m) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' } as Record<string, string>)[m]);
+const escapeGfm = (text: string) => text.replace(/[\\`*_\[\]<>~|]/g, '\\$&');
+// Slack 和飞书只需转义 & < >，其余标记字符没有转义方式
+const escapeEntities = (text: string) => text.replace(/[&<>]/g, (m) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;' } as Record<string, string>)[m]);
+// Slack 行内代码不能包含反引号，替换为形近字符
+const slackCode = (text: string) => escapeEntities(text.replace(/`/g, 'ˋ'));
+// Slack 链接 <url|label> 中的 | 和 > 需要编码
+const slackUrl = (url: string) => url.replace(/[|>]/g, encodeURIComponent);
+const percentEncode = (char: string) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`;
+
+function safeUrl(url: string): string | undefined {
+  return SAFE_URL_PATTERN.test(url.trim()) ? url.trim() : undefined;
+}
+
+/**
+ * Text content of inline nodes without markup
+ */
+export function plainText(nodes: InlineNode[]): string {
+  // 用显式栈遍历，嵌套再深也不会耗尽调用栈
+  const pending = [...nodes].reverse();
+  let text = '';
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        text += node.value;
+        break;
+      case 'image':
+        text += node.alt;
+        break;
+      case 'break':
+        text += '\n';
+        break;
+      default:
+        for (let i = node.children.length - 1; i >= 0; i--) {
+          pending.push(node.children[i]);
+        }
+    }
+  }
+  return text;
+}
+
+/**
+ * Render a document in the given format
+ */
+export function renderMarkdown(document: MarkdownDocument, format: MarkdownFormat): string {
+  const blocks = document.map(block => renderBlock(block, format));
+  return format === 'html' ? blocks.join('\n') : blocks.filter(Boolean).join('\n\n');
+}
+
+function renderInline(nodes: InlineNode[], format: MarkdownFormat): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return {
+          markdown_v2: escapeV2,
+          telegram_html: escapeHtml,
+          html: escapeHtml,
+          markdown: escapeGfm,
+          text: (t: string) => t,
+          slack_mrkdwn: escapeEntities,
+          discord_markdown: escapeGfm,
+          lark_md: escapeEntities,
+          // 钉钉和企业微信没有转义方式，原样输出
+          dingtalk_markdown: (t: string) => t,
+          wecom_markdown: (t: string) => t,
+        }[format](node.value);
+      case 'break':
+        return format === 'html' ? '<br>\n' : '\n';
+      case 'code':
+        switch (format) {
+          case 'markdown_v2': return `\`${escapeV2Code(node.value)}\``;
+          case 'telegram_html':
+          case 'html': return `<code>${escapeHtml(node.value)}</code>`;
+          case 'markdown':
+          case 'discord_markdown': return inlineCodeGfm(node.value);
+          case 'slack_mrkdwn': return `\`${slackCode(node.value)}\``;
+          case 'lark_md': return `\`${escapeEntities(node.value.replace(/`/g, 'ˋ'))}\``;
+          case 'wecom_markdown': return `\`${node.value.replace(/`/g, 'ˋ')}\``;
+          default: return node.value;
+        }
+      case 'strong':
+      case 'emphasis':
+      case 'strike':
+        return wrapInline(node.type, renderInline(node.children, format), format);
+      case 'link': {
+        const url = safeUrl(node.url);
+        const label = renderInline(node.children, format);
+        if (!url) return label;
+        switch (format) {
+          case 'markdown_v2': return `[${label}](${url.replace(/[)\\]/g, '\\$&')})`;
+          case 'telegram_html':
+          case 'html': return `<a href="${escapeHtml(url)}">${label}</a>`;
+          case 'markdown': return `[${label}](${gfmUrl(url)})`;
+          case 'slack_mrkdwn': return label === escapeEntities(url) ? `<${slackUrl(url)}>` : `<${slackUrl(url)}|${label.replace(/\|/g, '∣')}>`;
+          // Discord 自动链接不包含结尾的 )，这类地址写成链接
+          case 'discord_markdown': return plainText(node.children) === url && !url.endsWith(')') ? url : `[${label}](${encodeUrlParens(url)})`;
+          case 'lark_md':
+          case 'dingtalk_markdown':
+          case 'wecom_markdown': return `[${label}](${encodeUrlParens(url)})`;
+          default: return label === url || `mailto:${label}` === url ? label : `${label} (${url})`;
+        }
+      }
+      case 'image': {
+        const url = safeUrl(node.url);
+        const alt = node.alt || 'image';
+        switch (format) {
+          case 'markdown_v2': return url ? `[🖼 ${escapeV2(alt)}](${url.replace(/[)\\]/g, '\\$&')})` : escapeV2(alt);
+          case 'telegram_html': return url ? `<a href="${escapeHtml(url)}">🖼 ${escapeHtml(alt)}</a>` : escapeHtml(alt);
+          case 'html': return url ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(node.alt)}">` : escapeHtml(alt);
+          case 'markdown': return url ? `![${escapeGfm(node.alt)}](${gfmUrl(url)})` : escapeGfm(alt);
+          case 'slack_mrkdwn': return url ? `<${slackUrl(url)}|🖼 ${escapeEntities(alt).replace(/\|/g, '∣')}>` : escapeEntities(alt);
+          case 'discord_markdown': return url ? `[🖼 ${escapeGfm(alt)}](${encodeUrlParens(url)})` : escapeGfm(alt);
+          case 'dingtalk_markdown': return url ? `![${alt}](${encodeUrlParens(url)})` : alt;
+          // 飞书卡片中的图片需要先上传获取 image_key，以链接代替
+          case 'lark_md': return url ? `[🖼 ${escapeEntities(alt)}](${encodeUrlParens(url)})` : escapeEntities(alt);
+          case 'wecom_markdown': return url ? `[🖼 ${alt}](${encodeUrlParens(url)})` : alt;
+          default: return url ? `${alt} (${url})` : alt;
+        }
+      }
+    }
+  }).join('');
+}
+
+function wrapInline(type: 'strong' | 'emphasis' | 'strike', inner: string, format: MarkdownFormat): string {
+  if (!inner) return '';
+  const marks: Record<MarkdownFormat, Record<typeof type, [string, string]>> = {
+    markdown_v2: { strong: ['*', '*'], emphasis: ['_', '_'], strike: ['~', '~'] },
+    telegram_html: { strong: ['<b>', '</b>'], emphasis: ['<i>', '</i>'], strike: ['<s>', '</s>'] },
+    html: { strong: ['<strong>', '</strong>'], emphasis: ['<em>', '</em>'], strike: ['<del>', '</del>'] },
+    markdown: { strong: ['**', '**'], emphasis: ['*', '*'], strike: ['~~', '~~'] },
+    text: { strong: ['', ''], emphasis: ['', ''], strike: ['', ''] },
+    slack_mrkdwn: { strong: ['*', '*'], emphasis: ['_', '_'], strike: ['~', '~'] },
+    discord_markdown: { strong: ['**', '**'], emphasis: ['*', '*'], strike: ['~~', '~~'] },
+    lark_md: { strong: ['**', '**'], emphasis: ['*', '*'], strike: ['~~', '~~'] },
+    dingtalk_markdown: { strong: ['**', '**'], emphasis: ['*', '*'], strike: ['', ''] },
+    wecom_markdown: { strong: ['**', '**'], emphasis: ['', ''], strike: ['', ''] },
+  };
+  const [open, close] = marks[format][type];
+  return `${open}${inner}${close}`;
+}
+
+function inlineCodeGfm(value: string): string {
+  const longest = Math.max(0, ...(value.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = value.startsWith('`') || value.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${value}${pad}${fence}`;
+}
+
+/**
+ * Link URL for formats without escapes in link targets: one level of balanced parentheses is kept,
+ * otherwise parentheses are percent-encoded so the first ) does not end the link
+ */
+function encodeUrlParens(url: string): string {
+  let depth = 0;
+  let balanced = true;
+  for (const char of url) {
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    balanced = balanced && depth >= 0 && depth <= 1;
+  }
+  return url.replace(balanced && depth === 0 ? /\s/g : /[()\s]/g, percentEncode);
+}
+
+function gfmUrl(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+/**
+ * Drop nested strong inside headings, Telegram does not allow nesting the same entity
+ */
+function unwrapStrong(nodes: InlineNode[]): InlineNode[] {
+  return nodes.flatMap(node => node.type === 'strong' ? unwrapStrong(node.children) : [node]);
+}
+
+function renderBlock(block: BlockNode, format: MarkdownFormat): string {
+  switch (block.type) {
+    case 'paragraph': {
+      const inline = renderInline(block.children, format);
+      if (format === 'html') return `<p>${inline}</p>`;
+      // 行首的 #、>、- 等在 GitHub 和 Discord 中会被解析为块级语法
+      return format === 'markdown' || format === 'discord_markdown'
+        ? inline.replace(GFM_BLOCK_START_PATTERN, (m, indent, mark) => /\d/.test(mark) ? `${indent}${mark}\\` : `${indent}\\${mark}`)
+        : inline;
+    }
+
+    case 'heading': {
+      switch (format) {
+        case 'markdown_v2': return `*${renderInline(unwrapStrong(block.children), format)}*`;
+        case 'telegram_html': return `<b>${renderInline(unwrapStrong(block.children), format)}</b>`;
+        case 'html': return `<h${block.level}>${renderInline(block.children, format)}</h${block.level}>`;
+        case 'markdown': return `${'#'.repeat(block.level)} ${renderInline(block.children, format).replace(/\n/g, ' ')}`;
+        case 'slack_mrkdwn': return `*${renderInline(unwrapStrong(block.children), format)}*`;
+        case 'lark_md': return `**${renderInline(unwrapStrong(block.children), format)}**`;
+        case 'dingtalk_markdown':
+        case 'wecom_markdown': return `${'#'.repeat(block.level)} ${renderInline(block.children, format).replace(/\n/g, ' ')}`;
+        // Discord 只支持三级标题
+        case 'discord_markdown':
+          return block.level <= 3
+            ? `${'#'.repeat(block.level)} ${renderInline(block.children, format).replace(/\n/g, ' ')}`
+            : `**${renderInline(unwrapStrong(block.children), format)}**`;
+        default: return renderInline(block.children, format);
+      }
+    }
+
+    case 'code_block': {
+      const lang = (block.lang || '').replace(/[^\w+#.-]/g, '');
+      switch (format) {
+        case 'markdown_v2': return `\`\`\`${lang}\n${escapeV2Code(block.value)}\n\`\`\``;
+        case 'telegram_html':
+          return lang
+            ? `<pre><code class="language-${lang}">${escapeHtml(block.value)}</code></pre>`
+            : `<pre>${escapeHtml(block.value)}</pre>`;
+        case 'html': return `<pre><code>${escapeHtml(block.value)}</code></pre>`;
+        case 'slack_mrkdwn': return `\`\`\`\n${escapeEntities(block.value)}\n\`\`\``;
+        case 'markdown':
+        case 'discord_markdown':
+        case 'lark_md': {
+          const longest = Math.max(2, ...(block.value.match(/^`{3,}/gm) || []).map(run => run.length));
+          const fence = '`'.repeat(longest + 1);
+          return `${fence}${lang}\n${block.value}\n${fence}`;
+        }
+        default: return block.value;
+      }
+    }
+
+    case 'blockquote': {
+      const inner = renderMarkdown(block.children, format);
+      switch (format) {
+        case 'telegram_html': return `<blockquote>${inner}</blockquote>`;
+        case 'html': return `<blockquote>${inner}</blockquote>`;
+        case 'markdown_v2': return inner.split('\n').map(line => `>${line}`).join('\n');
+        default: return inner.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+      }
+    }
+
+    case 'list':
+      return renderList(block, format);
+
+    case 'table':
+      return renderTable(block, format);
+
+    case 'rule':
+      switch (format) {
+        case 'html': return '<hr>';
+        case 'markdown': return '---';
+        case 'text': return '----------';
+        default: return '——————';
+      }
+  }
+}
+
+function renderList(list: Extract<BlockNode, { type: 'list' }>, format: MarkdownFormat): string {
+  if (format === 'html') {
+    const tag = list.ordered ? 'ol' : 'ul';
+    const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+    const items = list.items.map(item => {
+      const box = item.checked === undefined ? '' : item.checked ? '☑ ' : '☐ ';
+      // 列表项中的段落不加 <p>，避免多余的间距
+      const body = item.children
+        .map(child => child.type === 'paragraph' ? renderInline(child.children, format) : renderBlock(child, format))
+        .join('\n');
+      return `<li>${box}${body}</li>`;
+    });
+    return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+  }
+
+  return list.items.map((item, index) => {
+    let marker: string;
+    if (list.ordered) {
+      const number = list.start + index;
+      marker = format === 'markdown_v2' ? `${number}\\.` : `${number}.`;
+    } else {
+      marker = format === 'markdown_v2' || format === 'telegram_html' || format === 'slack_mrkdwn' ? '•' : '-';
+    }
+    if (item.checked !== undefined) {
+      marker += format === 'markdown' || format === 'text'
+        ? (item.checked ? ' [x]' : ' [ ]')
+        : (item.checked ? ' ☑' : ' ☐');
+    }
+
+    // 列表项内的多个块以单个换行分隔，续行缩进到内容位置
+    const indent = ' '.repeat(['markdown', 'discord_markdown', 'lark_md', 'dingtalk_markdown'].includes(format) ? marker.replace(/ \[.\]$/, '').length + 1 : 2);
+    const body = item.children.map(child => renderBlock(child, format)).join('\n');
+    return `${marker} ${body.split('\n').map((line, i) => i === 0 || !line ? line : `${indent}${line}`).join('\n')}`;
+  }).join('\n');
+}
+
+function renderTable(table: Extract<BlockNode, { type: 'table' }>, format: MarkdownFormat): string {
+  if (format === 'html') {
+    const cell = (tag: string, nodes: InlineNode[], column: number) => {
+      const align = table.align[column] ? ` align="${table.align[column]}"` : '';
+      return `<${tag}${align}>${renderInline(nodes, format)}</${tag}>`;
+    };
+    return '<table border="1" cellpadding="4" cellspacing="0" style="border-collapse: collapse">\n' +
+      `<thead><tr>${table.header.map((nodes, i) => cell('th', nodes, i)).join('')}</tr></thead>\n` +
+      `<tbody>\n${table.rows.map(row => `<tr>${row.map((nodes, i) => cell('td', nodes, i)).join('')}</tr>`).join('\n')}\n</tbody>\n` +
+      '</table>';
+  }
+
+  if (format === 'markdown') {
+    const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    const delimiter = table.align.map(align =>
+      align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---'
+    );
+    return [
+      row(table.header.map(nodes => renderInline(nodes, format))),
+      row(table.header.map((_, i) => delimiter[i] || '---')),
+      ...table.rows.map(cells => row(cells.map(nodes => renderInline(nodes, format)))),
+    ].join('\n');
+  }
+
+  // 其余格式没有表格，按列对齐后作为等宽文本输出（钉钉和企业微信不支持代码块，只能输出普通文本）
+  const rows = [table.header, ...table.rows].map(cells => cells.map(nodes => plainText(nodes).replace(/\n/g, ' ')));
+  const widths = table.header.map((_, i) => Math.max(...rows.map(cells => (cells[i] || '').length)));
+  const lines = rows.map(cells => cells.map((value, i) => {
+    const pad = widths[i] - value.length;
+    if (table.align[i] === 'right') return ' '.repeat(pad) + value;
+    if (table.align[i] === 'center') return ' '.repeat(Math.floor(pad / 2)) + value + ' '.repeat(Math.ceil(pad / 2));
+    return value + ' '.repeat(pad);
+  }).join(' | ').trimEnd());
+  lines.splice(1, 0, widths.map(width => '-'.repeat(width)).join('-+-'));
+
+  const text = lines.join('\n');
+  switch (format) {
+    case 'markdown_v2': return `\`\`\`\n${escapeV2Code(text)}\n\`\`\``;
+    case 'telegram_html': return `<pre>${escapeHtml(text)}</pre>`;
+    case 'slack_mrkdwn': return `\`\`\`\n${escapeEntities(text)}\n\`\`\``;
+    case 'discord_markdown': return `\`\`\`\n${text}\n\`\`\``;
+    case 'lark_md': return `\`\`\`\n${escapeEntities(text)}\n\`\`\``;
+    default: return text;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * MIME 邮件解析工具
+ *
+ * 原理：
+ * - 解析 RFC 5322 邮件头（折行展开、RFC 2047 编码字）和 MIME 结构（multipart 递归、base64 / quoted-printable 传输编码）
+ * - 按 charset 解码文本部分（TextDecoder，支持 GBK 等常见中文编码），取第一个 text/plain 和 text/html 作为正文
+ * - 非文本部分和 Content-Disposition: attachment 的部分作为附件返回原始内容
+ * - 提取 From / To / Cc 地址、Message-ID、In-Reply-To、References，用于回复串联
+ *
+ * 选型理由：
+ * - 自实现而非引入 mailparser：只需入站转发所需的子集，避免额外依赖
+ */
+
+export interface MailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface ParsedAttachment {
+  filename: string;
+  contentType: string;
+  contentId?: string;
+  content: Buffer;
+}
+
+export interface ParsedMail {
+  headers: Record<string, string[]>;
+  subject?: string;
+  from?: MailAddress;
+  to: MailAddress[];
+  cc: MailAddress[];
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  date?: Date;
+  text?: string;
+  html?: string;
+  attachments: ParsedAttachment[];
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const MAX_DEPTH = 10;
+
+/**
+ * Parse a raw RFC 5322 message
+ */
+export function parseMail(raw: Buffer): ParsedMail {
+  const mail: ParsedMail = { headers: {}, to: [], cc: [], references: [], attachments: [] };
+  const { headers, body } = splitPart(raw);
+  mail.headers = headers;
+
+  const header = (name: string) => headers[name]?.[0];
+  mail.subject = header('subject') !== undefined ? decodeWords(header('subject')!).trim() : undefined;
+  mail.from = parseAddressList(header('from') || '')[0];
+  mail.to = parseAddressList((headers['to'] || []).join(', '));
+  mail.cc = parseAddressList((headers['cc'] || []).join(', '));
+  mail.messageId = parseMessageIds(header('message-id') || '')[0];
+  mail.inReplyTo = parseMessageIds(header('in-reply-to') || '')[0];
+  mail.references = parseMessageIds((headers['references'] || []).join(' '));
+
+  const date = header('date') ? new Date(header('date')!) : undefined;
+  mail.date = date && !isNaN(date.getTime()) ? date : undefined;
+
+  walkPart(headers, body, mail, 0);
+  return mail;
+}
+
+/**
+ * Split addresses like `"Name" <a@b.c>, d@e.f`
+ */
+export function parseAddressList(value: string): MailAddress[] {
+  const items: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    else if (char === '<' && !quoted) angle = true;
+    else if (char === '>' && !quoted) angle = false;
+    if (char === ',' && !quoted && !angle) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  const addresses: MailAddress[] = [];
+  for (const item of items) {
+    const match = item.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+    const address = (match ? match[2] : item).trim();
+    if (!address.includes('@')) {
+      continue;
+    }
+    const name = match ? decodeWords(match[1].replace(/^"|"$/g, '')).trim() : '';
+    addresses.push(name ? { name, address } : { address });
+  }
+  return addresses;
+}
+
+/**
+ * Match an address against entries of addresses or @domains
+ */
+export function matchesAddress(address: string, patterns: string[]): boolean {
+  const lower = address.toLowerCase();
+  return patterns.some(pattern => {
+    const expected = pattern.toLowerCase();
+    return expected.startsWith('@') ? lower.endsWith(expected) : lower === expected;
+  });
+}
+
+/**
+ * Extract `<id>` tokens, returned without angle brackets
+ */
+export function parseMessageIds(value: string): string[] {
+  return (value.match(/<[^<>\s]+>/g) || []).map(id => id.slice(1, -1));
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?utf-8?B?...?=`)
+ */
+export function decodeWords(value: string): string {
+  return value
+    // 相邻编码字之间的空白不属于内容
+    .replace(/(=\?[^?]+\?[bqBQ]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([bqBQ])\?([^?]*)\?=/g, (whole, charset: string, encoding: string, text: string) => {
+      try {
+        const bytes = encoding.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset);
+      } catch {
+        return whole;
+      }
+    });
+}
+
+function splitPart(raw: Buffer): { headers: Record<string, string[]>; body: Buffer } {
+  let separator = raw.indexOf('\r\n\r\n');
+  let skip = 4;
+  const lf = raw.indexOf('\n\n');
+  if (separator === -1 || (lf !== -1 && lf < separator)) {
+    separator = lf;
+    skip = 2;
+  }
+
+  const headerText = (separator === -1 ? raw : raw.subarray(0, separator)).toString('utf8');
+  const body = separator === -1 ? Buffer.alloc(0) : raw.subarray(separator + skip);
+
+  const headers: Record<string, string[]> = {};
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.substring(0, colon).trim().toLowerCase();
+    (headers[name] = headers[name] || []).push(line.substring(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function walkPart(headers: Record<string, string[]>, body: Buffer, mail: ParsedMail, depth: number): void {
+  const contentType = parseHeaderValue(headers['content-type']?.[0] || 'text/plain');
+  const type = contentType.value.toLowerCase();
+
+  if (type.startsWith('multipart/') && contentType.params.boundary && depth < MAX_DEPTH) {
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      const parsed = splitPart(part);
+      walkPart(parsed.headers, parsed.body, mail, depth + 1);
+    }
+    return;
+  }
+
+  const disposition = parseHeaderValue(headers['content-disposition']?.[0] || '');
+  const filename = disposition.params.filename || contentType.params.name;
+  const content = decodeTransfer(body, headers['content-transfer-encoding']?.[0]);
+  const isText = type === 'text/plain' || type === 'text/html';
+
+  // 非文本部分（图片、文件、转发的邮件等）都作为附件
+  if (disposition.value.toLowerCase() === 'attachment' || !isText) {
+    mail.attachments.push({
+      filename: filename ? decodeWords(filename) : `attachment-${mail.attachments.length + 1}`,
+      contentType: type,
+      contentId: parseMessageIds(headers['content-id']?.[0] || '')[0],
+      content,
+    });
+    return;
+  }
+
+  const text = decodeCharset(content, contentType.params.charset || 'utf-8');
+  if (type === 'text/html') {
+    mail.html = mail.html ?? text;
+  } else {
+    mail.text = mail.text ?? text;
+  }
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const text = body.toString('latin1');
+  const delimiter = `--${boundary}`;
+  const parts: Buffer[] = [];
+
+  let start = text.indexOf(delimiter);
+  while (start !== -1) {
+    const lineEnd = text.indexOf('\n', start);
+    if (lineEnd === -1 || text.startsWith(`${delimiter}--`, start)) {
+      break;
+    }
+    const next = text.indexOf(`\n${delimiter}`, lineEnd);
+    const end = next === -1 ? text.length : next;
+    // 去掉分隔符前的换行（\r\n 中的 \r）
+    const partEnd = end > 0 && text[end - 1] === '\r' ? end - 1 : end;
+    parts.push(Buffer.from(text.substring(lineEnd + 1, partEnd), 'latin1'));
+    start = next === -1 ? -1 : next + 1;
+  }
+  return parts;
+}
+
+function parseHeaderValue(header: string): HeaderValue {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+
+  for (const item of rest) {
+    const equals = item.indexOf('=');
+    if (equals === -1) {
+      continue;
+    }
+    let key = item.substring(0, equals).trim().toLowerCase();
+    let paramValue = item.substring(equals + 1).trim().replace(/^"(.*)"$/, '$1');
+
+    // RFC 2231：filename*=utf-8''%E6%96%87.txt（不支持分段续写）
+    if (key.endsWith('*')) {
+      key = key.slice(0, -1);
+      const match = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+      if (match) {
+        const bytes = Buffer.from(match[2].replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+        paramValue = decodeCharset(bytes, match[1] || 'utf-8');
+      }
+    }
+    params[key] = paramValue;
+  }
+
+  return { value: value.trim(), params };
+}
+
+function decodeTransfer(body: Buffer, encoding?: string): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const cleaned = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < cleaned.length; i++) {
+    if (cleaned[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(cleaned.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(cleaned.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(cleaned.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * TTL 键存储模块
+ *
+ * 原理：
+ * - 使用 Map 保存键及其过期时间，过期后视为不存在
+ * - 定时清理过期条目，防止内存无限增长
+ * - 可选持久化：变更后延迟写入 JSON 快照文件，进程退出时同步落盘，启动时加载未过期的条目
+ *
+ * 选型理由：
+ * - 基于时间而非数量淘汰：去重窗口可预期，不会因流量突增提前丢失记录
+ * - JSON 快照：数据量小，读写简单，无需额外依赖
+ */
+import { logger } from './logger';
+import { JsonSnapshot, readJsonFile } from './jsonFile';
+
+export class TtlStore {
+  private entries: Map<string, number> = new Map();
+  private ttlMs: number;
+  private snapshot?: JsonSnapshot;
+
+  constructor(ttlMs: number, filePath?: string) {
+    this.ttlMs = ttlMs;
+
+    if (filePath) {
+      this.load(filePath);
+      this.snapshot = new JsonSnapshot(filePath, () => Object.fromEntries(this.entries));
+    }
+
+    // Clean up expired entries every minute
+    setInterval(() => this.cleanup(), 60000).unref();
+  }
+
+  has(key: string): boolean {
+    const expiresAt = this.entries.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (Date.now() > expiresAt) {
+      this.entries.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  add(key: string): void {
+    this.entries.set(key, Date.now() + this.ttlMs);
+    this.snapshot?.markDirty();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, expiresAt] of this.entries.entries()) {
+      if (now > expiresAt) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.snapshot?.markDirty();
+    }
+  }
+
+  private load(filePath: string): void {
+    const data = readJsonFile<Record<string, number>>(filePath);
+    if (!data) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, expiresAt] of Object.entries(data)) {
+      if (expiresAt > now) {
+        this.entries.set(key, expiresAt);
+      }
+    }
+    logger.info('[GSMRS] 已加载 TTL 存储', { file: filePath, entries: this.entries.size });
+  }
+
+  /**
+   * Write pending changes to disk synchronously
+   */
+  flush(): void {
+    this.snapshot?.flush();
+  }
+}
@@ -0,0 +1,71 @@
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { Express } from 'express';
+import { ConfigLoader } from '../src/config/loader';
+import { Config, NormalizedMessage } from '../src/types';
+
+/**
+ * Minimal valid config with the given sections, returned by ConfigLoader.getConfig for the rest of the test
+ */
+export function mockConfig(overrides: Partial<Config> = {}): Config {
+  const config: Config = {
+    server: { port: 3000, https: false },
+    security: {
+      enable_hmac: false,
+      hmac_secret: '',
+      hide_sensitive: false,
+      rate_limit: { max: 100, window_ms: 60000 },
+    },
+    ...overrides,
+  };
+  jest.spyOn(ConfigLoader, 'getConfig').mockReturnValue(config);
+  return config;
+}
+
+/**
+ * Normalized message with defaults for the fields a test does not care about
+ */
+export function makeMessage(overrides: Partial<NormalizedMessage> = {}): NormalizedMessage {
+  return {
+    id: 'msg_1',
+    source: 'api',
+    timestamp: 0,
+    content: 'hello',
+    metadata: {},
+    sanitized: true,
+    ...overrides,
+  };
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+/**
+ * Send one JSON request to the app on an ephemeral port
+ */
+export async function request(
+  app: Express,
+  method: string,
+  path: string,
+  options: { body?: unknown; headers?: Record<string, string> } = {}
+): Promise<TestResponse> {
+  const server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method,
+      headers: { 'content-type': 'application/json', ...options.headers },
+      body: options.body === undefined ? undefined : typeof options.body === 'string' ? options.body : JSON.stringify(options.body),
+    });
+    const text = await response.text();
+    const json = response.headers.get('content-type')?.includes('json');
+    return { status: response.status, headers: response.headers, body: json ? JSON.parse(text) : text };
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+}
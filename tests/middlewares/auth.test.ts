@@ -0,0 +1,158 @@
+import express from 'express';
+import { adminAuthMiddleware, apiAuthMiddleware, githubAuthMiddleware, telegramAuthMiddleware } from '../../src/middlewares/auth';
+import { computeHmacSignature, safeCompare } from '../../src/middlewares/hmac';
+import { Config } from '../../src/types';
+import { mockConfig, request } from '../helpers';
+
+const SECRET = 's3cret';
+const PAYLOAD = JSON.stringify({ action: 'opened' });
+
+/**
+ * App that keeps the raw body for signature checks, like the server does
+ */
+function createApp(path: string, middleware: express.RequestHandler) {
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf.toString('utf8');
+    },
+  }));
+  app.use(path, middleware, (_req, res) => res.json({ ok: true }));
+  return app;
+}
+
+function security(auth: NonNullable<Config['security']['auth']>, overrides: Partial<Config['security']> = {}): Partial<Config> {
+  return {
+    security: { enable_hmac: false, hmac_secret: '', hide_sensitive: false, rate_limit: { max: 100, window_ms: 60000 }, auth, ...overrides },
+  };
+}
+
+describe('safeCompare', () => {
+  it('compares strings of any length', () => {
+    expect(safeCompare('abc', 'abc')).toBe(true);
+    expect(safeCompare('abc', 'abd')).toBe(false);
+    expect(safeCompare('abc', 'abcd')).toBe(false);
+    expect(safeCompare('abc', '')).toBe(false);
+  });
+});
+
+describe('telegramAuthMiddleware', () => {
+  const app = createApp('/telegram', telegramAuthMiddleware);
+
+  it('accepts the configured secret token', async () => {
+    mockConfig(security({ telegram: { secret_token: 'tok' } }));
+
+    const response = await request(app, 'POST', '/telegram', { body: {}, headers: { 'x-telegram-bot-api-secret-token': 'tok' } });
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects a missing or wrong token', async () => {
+    mockConfig(security({ telegram: { secret_token: 'tok' } }));
+
+    const missing = await request(app, 'POST', '/telegram', { body: {} });
+    expect(missing.status).toBe(401);
+    expect(missing.body.reason).toBe('Missing X-Telegram-Bot-Api-Secret-Token header');
+    const wrong = await request(app, 'POST', '/telegram', { body: {}, headers: { 'x-telegram-bot-api-secret-token': 'tok2' } });
+    expect(wrong.body.reason).toBe('Invalid secret token');
+  });
+
+  it('fails closed when enabled without a token', async () => {
+    mockConfig(security({ telegram: {} }));
+
+    expect((await request(app, 'POST', '/telegram', { body: {} })).status).toBe(401);
+  });
+
+  it('passes through when not configured', async () => {
+    mockConfig(security({}));
+
+    expect((await request(app, 'POST', '/telegram', { body: {} })).status).toBe(200);
+  });
+});
+
+describe('githubAuthMiddleware', () => {
+  const app = createApp('/github', githubAuthMiddleware);
+
+  it('verifies the signature of the raw body with the GitHub secret', async () => {
+    mockConfig(security({ github: { enable: true, secret: SECRET } }, { hmac_secret: 'global' }));
+
+    const valid = await request(app, 'POST', '/github', {
+      body: PAYLOAD,
+      headers: { 'x-hub-signature-256': computeHmacSignature(SECRET, PAYLOAD) },
+    });
+    expect(valid.status).toBe(200);
+
+    const wrongSecret = await request(app, 'POST', '/github', {
+      body: PAYLOAD,
+      headers: { 'x-hub-signature-256': computeHmacSignature('global', PAYLOAD) },
+    });
+    expect(wrongSecret.status).toBe(401);
+    expect(wrongSecret.body.reason).toBe('Invalid signature');
+  });
+
+  it('falls back to the global enable_hmac and hmac_secret', async () => {
+    mockConfig(security({}, { enable_hmac: true, hmac_secret: 'global' }));
+
+    const response = await request(app, 'POST', '/github', {
+      body: PAYLOAD,
+      headers: { 'x-hub-signature-256': computeHmacSignature('global', PAYLOAD) },
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects missing and malformed signatures', async () => {
+    mockConfig(security({ github: { enable: true, secret: SECRET } }));
+
+    const missing = await request(app, 'POST', '/github', { body: PAYLOAD });
+    expect(missing.body.reason).toBe('Missing signature header (x-hub-signature-256)');
+    const malformed = await request(app, 'POST', '/github', { body: PAYLOAD, headers: { 'x-hub-signature-256': 'md5=abc' } });
+    expect(malformed.body.reason).toBe('Malformed signature, expected sha256=<hex>');
+  });
+
+  it('fails closed when enabled without a secret', async () => {
+    mockConfig(security({ github: { enable: true } }));
+
+    const response = await request(app, 'POST', '/github', { body: PAYLOAD, headers: { 'x-hub-signature-256': 'sha256=00' } });
+    expect(response.body.reason).toBe('HMAC secret is not configured on the server');
+  });
+});
+
+describe('apiAuthMiddleware', () => {
+  const app = createApp('/api', apiAuthMiddleware);
+
+  it('checks the configured signature header except on the health check', async () => {
+    mockConfig(security({ api: { enable: true, secret: SECRET, header: 'X-Relay-Signature' } }));
+
+    expect((await request(app, 'POST', '/api/send', { body: PAYLOAD })).status).toBe(401);
+    expect((await request(app, 'POST', '/api/send', {
+      body: PAYLOAD,
+      headers: { 'x-relay-signature': computeHmacSignature(SECRET, PAYLOAD) },
+    })).status).toBe(200);
+    expect((await request(app, 'GET', '/api/health')).status).toBe(200);
+  });
+});
+
+describe('adminAuthMiddleware', () => {
+  const app = createApp('/admin', adminAuthMiddleware);
+
+  it('requires the admin bearer token when configured', async () => {
+    mockConfig(security({ admin: { token: 'admin-token' } }));
+
+    expect((await request(app, 'GET', '/admin')).status).toBe(401);
+    expect((await request(app, 'GET', '/admin', { headers: { authorization: 'Bearer nope' } })).status).toBe(401);
+    expect((await request(app, 'GET', '/admin', { headers: { authorization: 'Bearer admin-token' } })).status).toBe(200);
+  });
+
+  it('relies on the API signature when there is no admin token', async () => {
+    mockConfig(security({ api: { enable: true, secret: SECRET } }));
+
+    expect((await request(app, 'GET', '/admin')).status).toBe(200);
+  });
+
+  it('denies access when no authentication is configured', async () => {
+    mockConfig(security({}));
+
+    const response = await request(app, 'GET', '/admin');
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('Forbidden');
+  });
+});
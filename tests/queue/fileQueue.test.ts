@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileQueue } from '../../src/queue/fileQueue';
+import { QueueJob } from '../../src/types';
+import { makeMessage } from '../helpers';
+
+function makeJob(id: string, overrides: Partial<QueueJob> = {}): QueueJob {
+  return {
+    id,
+    message: makeMessage({ id: `msg_${id}` }),
+    target: 'telegram',
+    retries: 0,
+    maxRetries: 3,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function readJournal(filePath: string): any[] {
+  return fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+describe('FileQueue', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsmrs-queue-'));
+    filePath = path.join(dir, 'main.journal');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays the journal into pending jobs and the DLQ', () => {
+    const later = Date.now() + 60000;
+    fs.writeFileSync(filePath, [
+      { op: 'enqueue', job: makeJob('a') },
+      { op: 'enqueue', job: makeJob('b') },
+      { op: 'enqueue', job: makeJob('c') },
+      { op: 'retry', id: 'a', retries: 2, nextAttemptAt: later, failures: [{ attempt: 1, at: 0, error: 'boom' }] },
+      { op: 'complete', id: 'b' },
+      { op: 'dead', job: makeJob('c', { retries: 3 }) },
+    ].map(entry => JSON.stringify(entry)).join('\n') + '\n{"op":"enq');
+
+    const queue = new FileQueue(filePath);
+
+    expect(queue.getPending().map(job => job.id)).toEqual(['a']);
+    expect(queue.getJob('a')).toMatchObject({ retries: 2, nextAttemptAt: later, failures: [{ error: 'boom' }] });
+    expect(queue.getDLQ().map(job => job.id)).toEqual(['c']);
+  });
+
+  it('compacts the journal to live state on startup', () => {
+    fs.writeFileSync(filePath, [
+      { op: 'enqueue', job: makeJob('a') },
+      { op: 'enqueue', job: makeJob('b') },
+      { op: 'cancel', id: 'b' },
+      { op: 'enqueue', job: makeJob('c') },
+      { op: 'dead', job: makeJob('c') },
+    ].map(entry => JSON.stringify(entry)).join('\n') + '\n');
+
+    new FileQueue(filePath);
+
+    expect(readJournal(filePath).map(entry => [entry.op, entry.job.id])).toEqual([['enqueue', 'a'], ['dead', 'c']]);
+  });
+
+  it('waits for the recorded backoff before retrying recovered jobs', async () => {
+    fs.writeFileSync(filePath, [
+      { op: 'enqueue', job: makeJob('a') },
+      { op: 'retry', id: 'a', retries: 1, nextAttemptAt: Date.now() + 5000 },
+    ].map(entry => JSON.stringify(entry)).join('\n') + '\n');
+
+    const queue = new FileQueue(filePath);
+    const handler = jest.fn().mockResolvedValue(true);
+    queue.registerHandler('telegram', handler);
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(handler).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it('recovers jobs that were pending when the process stopped', async () => {
+    const first = new FileQueue(filePath);
+    first.registerHandler('telegram', jest.fn().mockResolvedValue({ success: false, error: 'down' }));
+    const jobId = first.enqueue(makeMessage(), 'telegram', 'ops');
+    await jest.advanceTimersByTimeAsync(0);
+
+    const second = new FileQueue(filePath);
+    expect(second.getJob(jobId)).toMatchObject({ target: 'telegram', channel: 'ops', retries: 1, failures: [{ error: 'down' }] });
+  });
+
+  it('recovers the rate-limit count of rescheduled jobs', async () => {
+    const first = new FileQueue(filePath);
+    first.registerHandler('telegram', jest.fn().mockResolvedValue({ success: false, error: 'Too Many Requests', retryAfterMs: 30000 }));
+    const jobId = first.enqueue(makeMessage(), 'telegram');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(new FileQueue(filePath).getJob(jobId)).toMatchObject({ retries: 0, rateLimited: 1 });
+  });
+
+  it('does not recover completed jobs', async () => {
+    const first = new FileQueue(filePath);
+    first.registerHandler('telegram', jest.fn().mockResolvedValue(true));
+    first.enqueue(makeMessage(), 'telegram');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(new FileQueue(filePath).getPending()).toEqual([]);
+  });
+
+  it('compacts the journal after many writes', async () => {
+    const queue = new FileQueue(filePath);
+    queue.registerHandler('telegram', jest.fn().mockResolvedValue(true));
+    for (let i = 0; i < 300; i++) {
+      queue.enqueue(makeMessage(), 'telegram');
+      await jest.advanceTimersByTimeAsync(0);
+    }
+
+    // 600 条记录（入队 + 完成）在第 500 条时压缩
+    expect(readJournal(filePath).length).toBe(100);
+  });
+});
@@ -0,0 +1,206 @@
+import { MemoryQueue } from '../../src/queue/memoryQueue';
+import { makeMessage } from '../helpers';
+
+describe('MemoryQueue', () => {
+  let queue: MemoryQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queue = new MemoryQueue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('retries with exponential backoff and records every failure', async () => {
+    const handler = jest.fn().mockResolvedValue({ success: false, error: 'bad token' });
+    queue.registerHandler('telegram', handler);
+    const jobId = queue.enqueue(makeMessage(), 'telegram');
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(handler).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(handler).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(handler).toHaveBeenCalledTimes(3);
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(handler).toHaveBeenCalledTimes(4);
+
+    expect(queue.getPending()).toEqual([]);
+    const [dead] = queue.getDLQ();
+    expect(dead).toMatchObject({ id: jobId, retries: 3, nextAttemptAt: undefined });
+    expect(dead.failures?.map(failure => [failure.attempt, failure.error])).toEqual([
+      [1, 'bad token'], [2, 'bad token'], [3, 'bad token'], [4, 'bad token'],
+    ]);
+  });
+
+  it('records thrown handler errors as failures', async () => {
+    queue.registerHandler('telegram', jest.fn().mockRejectedValue(new Error('socket hang up')));
+    const jobId = queue.enqueue(makeMessage(), 'telegram', undefined, 0);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJob(jobId)?.failures?.[0].error).toBe('socket hang up');
+    expect(queue.getDLQ()).toHaveLength(1);
+  });
+
+  it('moves jobs without a handler straight to the DLQ', async () => {
+    queue.enqueue(makeMessage(), 'slack');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(queue.getDLQ()[0].failures?.[0].error).toBe('No handler registered for target: slack');
+  });
+
+  it('requeues a dead job with a fresh retry budget', async () => {
+    const handler = jest.fn().mockResolvedValue(false);
+    queue.registerHandler('telegram', handler);
+    const jobId = queue.enqueue(makeMessage(), 'telegram', undefined, 1);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(queue.getDLQ().map(job => job.id)).toEqual([jobId]);
+
+    handler.mockResolvedValue(true);
+    expect(queue.retryDLQ(jobId)).toBe(true);
+    expect(queue.retryDLQ(jobId)).toBe(false);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(handler.mock.calls[2][0]).toMatchObject({ id: jobId, retries: 0 });
+    expect(queue.getDLQ()).toEqual([]);
+  });
+
+  it('requeues dead jobs by target', async () => {
+    queue.registerHandler('telegram', jest.fn().mockResolvedValue(false));
+    queue.registerHandler('github', jest.fn().mockResolvedValue(false));
+    queue.enqueue(makeMessage(), 'telegram', undefined, 0);
+    queue.enqueue(makeMessage(), 'telegram', undefined, 0);
+    queue.enqueue(makeMessage(), 'github', undefined, 0);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(queue.retryDLQByTarget('telegram')).toBe(2);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(queue.getDLQ().map(job => job.target).sort()).toEqual(['github', 'telegram', 'telegram']);
+    expect(queue.retryDLQByTarget()).toBe(3);
+  });
+
+  it('removes and clears DLQ entries', async () => {
+    queue.enqueue(makeMessage(), 'slack');
+    queue.enqueue(makeMessage(), 'slack');
+    await jest.advanceTimersByTimeAsync(0);
+    const [first] = queue.getDLQ();
+
+    expect(queue.removeDLQ(first.id)).toBe(true);
+    expect(queue.removeDLQ(first.id)).toBe(false);
+    expect(queue.getDLQ()).toHaveLength(1);
+    queue.clearDLQ();
+    expect(queue.getStats().dlqLength).toBe(0);
+  });
+
+  it('cancels a job waiting for a retry', async () => {
+    const handler = jest.fn().mockResolvedValue(false);
+    queue.registerHandler('telegram', handler);
+    const jobId = queue.enqueue(makeMessage(), 'telegram');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(queue.getStats().scheduledLength).toBe(1);
+
+    expect(queue.cancel(jobId)).toBe(true);
+    expect(queue.cancel(jobId)).toBe(false);
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(queue.getJob(jobId)).toBeUndefined();
+  });
+
+  describe('rate limits', () => {
+    const limited = { success: false, error: 'Too Many Requests', retryAfterMs: 30000 };
+
+    it('reschedules after the requested delay without using a retry', async () => {
+      const handler = jest.fn().mockResolvedValueOnce(limited).mockResolvedValue(true);
+      queue.registerHandler('telegram', handler);
+      const jobId = queue.enqueue(makeMessage(), 'telegram');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(queue.getJob(jobId)).toMatchObject({ retries: 0, rateLimited: 1 });
+      await jest.advanceTimersByTimeAsync(29999);
+      expect(handler).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(queue.getPending()).toEqual([]);
+    });
+
+    it('moves a job that is always rate limited to the DLQ', async () => {
+      const handler = jest.fn().mockResolvedValue(limited);
+      queue.registerHandler('telegram', handler);
+      const jobId = queue.enqueue(makeMessage(), 'telegram');
+      await jest.advanceTimersByTimeAsync(20 * 30000);
+
+      expect(handler).toHaveBeenCalledTimes(21);
+      expect(queue.getPending()).toEqual([]);
+      expect(queue.getDLQ()[0]).toMatchObject({ id: jobId, retries: 0, rateLimited: 20 });
+
+      handler.mockResolvedValue(true);
+      queue.retryDLQ(jobId);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(handler.mock.calls[21][0].rateLimited).toBeUndefined();
+    });
+  });
+
+  describe('pause', () => {
+    it('holds jobs of a paused target and requeues them in order on resume', async () => {
+      const handler = jest.fn().mockResolvedValue(true);
+      queue.registerHandler('telegram', handler);
+      queue.registerHandler('github', handler);
+      queue.pause('telegram');
+      const first = queue.enqueue(makeMessage({ id: 'first' }), 'telegram');
+      queue.enqueue(makeMessage({ id: 'other' }), 'github');
+      const second = queue.enqueue(makeMessage({ id: 'second' }), 'telegram');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(handler.mock.calls.map(call => call[0].message.id)).toEqual(['other']);
+      expect(queue.getStats()).toMatchObject({ heldLength: 2, paused: ['telegram'] });
+      expect(queue.isPaused('telegram')).toBe(true);
+
+      expect(queue.resume('telegram')).toBe(2);
+      expect(queue.resume('telegram')).toBe(0);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(handler.mock.calls.slice(1).map(call => call[0].id)).toEqual([first, second]);
+      expect(queue.getStats().heldLength).toBe(0);
+    });
+
+    it('resumes a timed pause when it expires and only extends it', async () => {
+      const handler = jest.fn().mockResolvedValue(true);
+      queue.registerHandler('github', handler);
+      queue.pause('github', 60000);
+      queue.pause('github', 10000);
+      queue.enqueue(makeMessage(), 'github');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(queue.getStats().pausedUntil.github).toBe(new Date(Date.now() + 60000).toISOString());
+
+      await jest.advanceTimersByTimeAsync(59999);
+      expect(handler).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(queue.isPaused('github')).toBe(false);
+    });
+
+    it('does not let a timed pause end a manual one', async () => {
+      queue.registerHandler('github', jest.fn().mockResolvedValue(true));
+      queue.pause('github');
+      queue.pause('github', 1000);
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(queue.isPaused('github')).toBe(true);
+      expect(queue.getStats().pausedUntil).toEqual({});
+    });
+
+    it('cancels held jobs', async () => {
+      queue.pause('telegram');
+      const jobId = queue.enqueue(makeMessage(), 'telegram');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(queue.cancel(jobId)).toBe(true);
+      expect(queue.resume('telegram')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createApiRouter } from '../../src/routers/api.router';
+import { Dispatcher } from '../../src/services/dispatcher';
+import { QuarantineStore } from '../../src/services/quarantine';
+import { RoutingEngine } from '../../src/services/routing';
+import { Config, NormalizedMessage, TargetRef } from '../../src/types';
+import { makeMessage, mockConfig, request } from '../helpers';
+
+/**
+ * App with the API router over a dispatcher that only records routed messages
+ */
+function createApp(config: Config) {
+  const route = jest.fn((message: NormalizedMessage, targets: TargetRef[]) => targets);
+  const dispatcher = {
+    routing: new RoutingEngine(config, ['telegram', 'github']),
+    route,
+  } as unknown as Dispatcher;
+  const app = express();
+  app.use(express.json());
+  app.use('/api', createApiRouter(dispatcher));
+  return { app, route };
+}
+
+describe('POST /api/send', () => {
+  it('queues a message for an explicit target', async () => {
+    const { app, route } = createApp(mockConfig());
+    const response = await request(app, 'POST', '/api/send', { body: { content: 'hi', target: 'telegram' } });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, targets: ['telegram'] });
+    expect(route.mock.calls[0][0]).toMatchObject({ source: 'api', content: 'hi' });
+  });
+
+  it('resolves targets with routing rules when none is given', async () => {
+    const { app } = createApp(mockConfig());
+    const response = await request(app, 'POST', '/api/send', { body: { content: 'hi' } });
+
+    expect(response.body.targets).toEqual(['telegram', 'github']);
+  });
+
+  it.each([
+    ['a number', 42],
+    ['an object', { target: 'telegram' }],
+    ['a list', ['telegram']],
+    ['null', null],
+  ])('rejects %s as target', async (_, target) => {
+    const { app, route } = createApp(mockConfig());
+    const response = await request(app, 'POST', '/api/send', { body: { content: 'hi', target } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Target must be a string');
+    expect(route).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown targets and channels', async () => {
+    const { app } = createApp(mockConfig());
+
+    expect((await request(app, 'POST', '/api/send', { body: { content: 'hi', target: 'fax' } })).status).toBe(400);
+    expect((await request(app, 'POST', '/api/send', { body: { content: 'hi', target: 'telegram:ops' } })).status).toBe(400);
+  });
+
+  it('requires content', async () => {
+    const { app } = createApp(mockConfig());
+    const response = await request(app, 'POST', '/api/send', { body: { target: 'telegram' } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Content is required');
+  });
+});
+
+describe('quarantine API', () => {
+  const auth = { authorization: 'Bearer admin-token' };
+  let dir: string;
+
+  /**
+   * App over a real quarantine store holding one mail message for telegram
+   */
+  function createQuarantineApp() {
+    const config = mockConfig({
+      security: {
+        enable_hmac: false,
+        hmac_secret: '',
+        hide_sensitive: false,
+        rate_limit: { max: 100, window_ms: 60000 },
+        auth: { admin: { token: 'admin-token' } },
+      },
+      quarantine: { enable: true, path: path.join(dir, 'quarantine.json') },
+    });
+    const quarantine = new QuarantineStore();
+    quarantine.screen(makeMessage({ id: 'spam_1', source: 'mail', content: 'act now' }), ['telegram', 'github']);
+    const dispatch = jest.fn(() => ['job_1', 'job_2']);
+    const dispatcher = {
+      routing: new RoutingEngine(config, ['telegram', 'github']),
+      quarantine,
+      dispatch,
+    } as unknown as Dispatcher;
+    const app = express();
+    app.use('/api', createApiRouter(dispatcher));
+    return { app, quarantine, dispatch };
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsmrs-quarantine-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('requires the admin token', async () => {
+    const { app } = createQuarantineApp();
+
+    expect((await request(app, 'GET', '/api/quarantine')).status).toBe(401);
+  });
+
+  it('lists held messages', async () => {
+    const { app } = createQuarantineApp();
+    const response = await request(app, 'GET', '/api/quarantine', { headers: auth });
+
+    expect(response.status).toBe(200);
+    expect(JSON.stringify(response.body)).toContain('spam_1');
+  });
+
+  it('releases a held message to its held targets', async () => {
+    const { app, quarantine, dispatch } = createQuarantineApp();
+    const response = await request(app, 'POST', '/api/quarantine/spam_1/release', { headers: auth });
+
+    expect(response.body).toEqual({ success: true, messageId: 'spam_1', targets: ['telegram', 'github'], jobIds: ['job_1', 'job_2'] });
+    expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({ id: 'spam_1' }), ['telegram', 'github']);
+    expect(quarantine.get('spam_1')).toBeUndefined();
+    expect((await request(app, 'POST', '/api/quarantine/spam_1/release', { headers: auth })).status).toBe(404);
+  });
+
+  it('discards a held message without delivering it', async () => {
+    const { app, quarantine, dispatch } = createQuarantineApp();
+    const response = await request(app, 'DELETE', '/api/quarantine/spam_1', { headers: auth });
+
+    expect(response.body).toEqual({ success: true, messageId: 'spam_1' });
+    expect(dispatch).not.toHaveBeenCalled();
+    expect(quarantine.list()).toEqual([]);
+    expect((await request(app, 'DELETE', '/api/quarantine/spam_1', { headers: auth })).status).toBe(404);
+  });
+});
@@ -0,0 +1,71 @@
+import express from 'express';
+import { createGitHubRouter } from '../../src/routers/github.router';
+import { Dispatcher } from '../../src/services/dispatcher';
+import { TtlStore } from '../../src/utils/ttlStore';
+import { mockConfig, request } from '../helpers';
+
+const PAYLOAD = {
+  action: 'opened',
+  issue: { number: 7, title: 'Broken build', body: 'details', html_url: 'https://github.com/o/r/issues/7', user: { login: 'alice' } },
+  repository: { full_name: 'o/r' },
+  sender: { login: 'alice', type: 'User' },
+};
+
+/**
+ * App with the GitHub router over a dispatcher that deduplicates with a real TTL store
+ */
+function createApp() {
+  const deliveries = new TtlStore(60000);
+  const route = jest.fn(() => ['telegram']);
+  const dispatcher = {
+    github: { isBotUser: () => false },
+    isDuplicate: (key: string) => deliveries.has(key),
+    markProcessed: (key: string) => deliveries.add(key),
+    route,
+  } as unknown as Dispatcher;
+  const app = express();
+  app.use(express.json());
+  app.use('/github', createGitHubRouter(dispatcher));
+  return { app, route };
+}
+
+function deliver(app: express.Express, deliveryId?: string) {
+  return request(app, 'POST', '/github/webhook', {
+    body: PAYLOAD,
+    headers: { 'x-github-event': 'issues', ...(deliveryId ? { 'x-github-delivery': deliveryId } : {}) },
+  });
+}
+
+describe('GitHub webhook deduplication', () => {
+  beforeEach(() => {
+    mockConfig();
+  });
+
+  it('forwards a delivery ID only once', async () => {
+    const { app, route } = createApp();
+
+    expect((await deliver(app, 'd-1')).body).toMatchObject({ success: true, targets: ['telegram'] });
+    expect((await deliver(app, 'd-1')).body).toEqual({ success: true, message: 'Duplicate delivery ignored' });
+    expect((await deliver(app, 'd-2')).body.targets).toEqual(['telegram']);
+    expect(route).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not deduplicate deliveries without an ID', async () => {
+    const { app, route } = createApp();
+
+    await deliver(app);
+    await deliver(app);
+    expect(route).toHaveBeenCalledTimes(2);
+  });
+
+  it('processes a redelivery after a failed attempt', async () => {
+    const { app, route } = createApp();
+    route.mockImplementationOnce(() => {
+      throw new Error('queue unavailable');
+    });
+
+    expect((await deliver(app, 'd-1')).status).toBe(500);
+    expect((await deliver(app, 'd-1')).body.targets).toEqual(['telegram']);
+    expect(route).toHaveBeenCalledTimes(2);
+  });
+});
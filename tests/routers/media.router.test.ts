@@ -0,0 +1,60 @@
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMediaRouter } from '../../src/routers/media.router';
+import { Dispatcher } from '../../src/services/dispatcher';
+import { MediaStore } from '../../src/services/media';
+import { MessageAttachment } from '../../src/types';
+import { mockConfig, request } from '../helpers';
+
+describe('GET /media/:id', () => {
+  let dir: string;
+  let store: MediaStore;
+  let app: express.Express;
+
+  function save(name: string, mimeType: string, data: string): MessageAttachment {
+    const attachment: MessageAttachment = { kind: 'document', fileId: name, name, mimeType };
+    store.save(attachment, Buffer.from(data));
+    return attachment;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsmrs-media-'));
+    mockConfig({ media: { path: dir } });
+    store = new MediaStore();
+    app = express();
+    app.use('/media', createMediaRouter({ media: store } as unknown as Dispatcher));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves images inline', async () => {
+    const attachment = save('cat.png', 'image/png', 'png-bytes');
+    const response = await request(app, 'GET', `/media/${attachment.id}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toBe('png-bytes');
+    expect(response.headers.get('content-type')).toBe('image/png');
+    expect(response.headers.get('content-disposition')).toBe("inline; filename*=UTF-8''cat.png");
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(response.headers.get('content-security-policy')).toBe("default-src 'none'; sandbox");
+  });
+
+  it('serves other types, including SVG, as downloads', async () => {
+    const attachment = save('報告 1.svg', 'image/svg+xml', '<svg onload="alert(1)"/>');
+    const response = await request(app, 'GET', `/media/${attachment.id}`);
+
+    expect(response.headers.get('content-disposition')).toBe(`attachment; filename*=UTF-8''${encodeURIComponent('報告 1.svg')}`);
+  });
+
+  it('returns 404 for unknown IDs and files removed after lookup', async () => {
+    expect((await request(app, 'GET', `/media/${'a'.repeat(32)}`)).status).toBe(404);
+
+    const attachment = save('gone.txt', 'text/plain', 'x');
+    fs.rmSync(attachment.path!);
+    expect((await request(app, 'GET', `/media/${attachment.id}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,136 @@
+import { TelegramCommands } from '../../src/services/commands';
+import { Dispatcher } from '../../src/services/dispatcher';
+import { MemoryQueue } from '../../src/queue/memoryQueue';
+import { TelegramMessage } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+const ADMIN = { id: 42, username: 'Root', is_bot: false, first_name: 'Root' };
+const STRANGER = { id: 7, username: 'guest', is_bot: false, first_name: 'Guest' };
+
+function command(text: string, from = ADMIN): TelegramMessage {
+  return { message: { message_id: 100, text, chat: { id: -1 }, from } } as TelegramMessage;
+}
+
+/**
+ * Commands over a real queue; replies and GitHub issue switches are recorded
+ */
+function createCommands() {
+  const queue = new MemoryQueue();
+  const sendText = jest.fn().mockResolvedValue(undefined);
+  const setIssueNumber = jest.fn();
+  const dispatcher = {
+    queue,
+    telegram: { sendText },
+    github: { setIssueNumber },
+    getEnabledTargets: () => ['telegram', 'github'],
+    getStats: () => ({ ...queue.getStats(), duplicatesSuppressed: 3, dedupEntries: 0 }),
+    healthCheck: async () => ({ telegram: true, github: false }),
+  } as unknown as Dispatcher;
+  const commands = new TelegramCommands(dispatcher);
+  const reply = () => sendText.mock.calls[sendText.mock.calls.length - 1][1];
+  return { commands, queue, sendText, setIssueNumber, reply };
+}
+
+describe('TelegramCommands', () => {
+  beforeEach(() => {
+    mockConfig({ telegram: { enable: true, token: 't', default_target_chat: -1, admins: ['@root'] } });
+  });
+
+  it('relays commands when no admins are configured', async () => {
+    mockConfig({ telegram: { enable: true, token: 't', default_target_chat: -1 } });
+    const { commands, sendText } = createCommands();
+
+    expect(await commands.handle(command('/status'))).toBe(false);
+    expect(sendText).not.toHaveBeenCalled();
+  });
+
+  it('relays ordinary messages and unknown commands', async () => {
+    const { commands } = createCommands();
+
+    expect(await commands.handle(command('hello /status'))).toBe(false);
+    expect(await commands.handle(command('/deploy now'))).toBe(false);
+  });
+
+  it('swallows commands from users who are not admins', async () => {
+    const { commands, sendText } = createCommands();
+
+    expect(await commands.handle(command('/pause github', STRANGER))).toBe(true);
+    expect(sendText).not.toHaveBeenCalled();
+  });
+
+  it('matches admins by ID or username and accepts /cmd@BotName', async () => {
+    mockConfig({ telegram: { enable: true, token: 't', default_target_chat: -1, admins: [42] } });
+    const { commands, sendText, reply } = createCommands();
+
+    expect(await commands.handle(command('/help@RelayBot'))).toBe(true);
+    expect(sendText).toHaveBeenCalledWith(-1, expect.any(String), 100);
+    expect(reply()).toContain('/retry <jobId|all> - Requeue a dead job');
+  });
+
+  it('reports queue stats and service health', async () => {
+    const { commands, queue, reply } = createCommands();
+    queue.pause('github');
+
+    await commands.handle(command('/status'));
+    expect(reply()).toBe([
+      'Queue: 0 queued, 0 awaiting retry, 0 held, 0 dead',
+      'Paused: github',
+      'Duplicates suppressed: 3',
+      'Services:',
+      '  telegram: ok',
+      '  github: DOWN',
+    ].join('\n'));
+  });
+
+  it('pauses and resumes enabled targets', async () => {
+    const { commands, queue, reply } = createCommands();
+
+    await commands.handle(command('/pause GitHub'));
+    expect(reply()).toBe('Paused github');
+    queue.enqueue(makeMessage(), 'github');
+    await commands.handle(command('/resume github'));
+    expect(reply()).toBe('Resumed github, 1 held job(s) requeued');
+    await commands.handle(command('/resume github'));
+    expect(reply()).toBe('github is not paused');
+    await commands.handle(command('/pause slack'));
+    expect(reply()).toBe('Usage: /pause <target> (telegram, github)');
+  });
+
+  it('lists and requeues dead jobs', async () => {
+    const { commands, queue, reply } = createCommands();
+    await commands.handle(command('/dlq'));
+    expect(reply()).toBe('Dead letter queue is empty');
+
+    const jobId = queue.enqueue(makeMessage(), 'github', 'infra');
+    await new Promise(resolve => setImmediate(resolve));
+    await commands.handle(command('/dlq'));
+    expect(reply()).toBe(`${jobId} -> github:infra: No handler registered for target: github`);
+
+    await commands.handle(command('/retry'));
+    expect(reply()).toBe('Usage: /retry <jobId|all>');
+    await commands.handle(command('/retry job_missing'));
+    expect(reply()).toBe('Job not found in DLQ: job_missing');
+    await commands.handle(command(`/retry ${jobId}`));
+    expect(reply()).toBe(`Requeued ${jobId}`);
+  });
+
+  it('switches the default GitHub issue', async () => {
+    const { commands, setIssueNumber, reply } = createCommands();
+
+    await commands.handle(command('/issue 12'));
+    expect(setIssueNumber).toHaveBeenCalledWith(12);
+    expect(reply()).toBe('GitHub comments now go to issue #12');
+    await commands.handle(command('/issue 1.5'));
+    expect(reply()).toBe('Usage: /issue <number>');
+  });
+
+  it('replies with the error when a command fails', async () => {
+    const { commands, setIssueNumber, reply } = createCommands();
+    setIssueNumber.mockImplementation(() => {
+      throw new Error('not allowed');
+    });
+
+    expect(await commands.handle(command('/issue 3'))).toBe(true);
+    expect(reply()).toBe('Command failed: not allowed');
+  });
+});
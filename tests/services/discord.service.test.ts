@@ -0,0 +1,115 @@
+import axios from 'axios';
+import { DiscordService } from '../../src/services/discord.service';
+import { Config } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+const WEBHOOK = 'https://discord.example/api/webhooks/1/token';
+
+/**
+ * Service over a fake axios client answering every request with the given response
+ */
+function createService(discord: Partial<NonNullable<Config['discord']>>, response: object = { status: 200, data: { id: '9' }, headers: {} }) {
+  const api = {
+    post: jest.fn().mockResolvedValue(response),
+    get: jest.fn().mockResolvedValue(response),
+  };
+  jest.spyOn(axios, 'create').mockReturnValue(api as any);
+  mockConfig({ discord: { enable: true, webhook_url: WEBHOOK, ...discord } });
+  return { service: new DiscordService(), api };
+}
+
+describe('DiscordService', () => {
+  it('sends an embed without mentions to the webhook and waits for the message', async () => {
+    const { service, api } = createService({ username: 'relay', color: '#ff0000', thread_id: '77' });
+    const result = await service.sendMessage(makeMessage({
+      title: 'Build *failed*',
+      format: 'markdown',
+      content: '@everyone see [log](https://ci.example/run_(1))',
+      author: 'alice',
+      timestamp: Date.UTC(2026, 0, 1),
+      metadata: { url: 'https://github.com/o/r/issues/1' },
+    }));
+
+    expect(result).toEqual({ success: true });
+    const [url, payload, options] = api.post.mock.calls[0];
+    expect(url).toBe(WEBHOOK);
+    expect(options).toEqual({ params: { wait: true, thread_id: '77' } });
+    expect(payload).toEqual({
+      username: 'relay',
+      avatar_url: undefined,
+      allowed_mentions: { parse: [] },
+      embeds: [{
+        title: 'Build *failed*',
+        description: '@everyone see [log](https://ci.example/run_(1))',
+        url: 'https://github.com/o/r/issues/1',
+        color: 0xff0000,
+        author: { name: 'alice' },
+        footer: { text: 'Source: api' },
+        timestamp: '2026-01-01T00:00:00.000Z',
+      }],
+    });
+  });
+
+  it('sends truncated plain text when embeds are off', async () => {
+    const { service, api } = createService({ embed: false });
+    await service.sendMessage(makeMessage({ content: 'x'.repeat(3000) }));
+
+    const payload = api.post.mock.calls[0][1];
+    expect(payload.embeds).toBeUndefined();
+    expect(payload.content).toHaveLength(2000);
+    expect(payload.content.endsWith('x…')).toBe(true);
+  });
+
+  it('drops embed links that are not http URLs', async () => {
+    const { service, api } = createService({});
+    await service.sendMessage(makeMessage({ metadata: { url: 'javascript:alert(1)' } }));
+
+    expect(api.post.mock.calls[0][1].embeds[0].url).toBeUndefined();
+  });
+
+  it('prefers retry_after from the body over the Retry-After header on 429', async () => {
+    const body = createService({}, {
+      status: 429,
+      data: { message: 'You are being rate limited.', retry_after: 1.234, global: false },
+      headers: { 'retry-after': '2' },
+    });
+    expect(await body.service.sendMessage(makeMessage())).toEqual({
+      success: false,
+      error: 'Discord API error (429): You are being rate limited.',
+      retryAfterMs: 1234,
+    });
+
+    const header = createService({}, { status: 429, data: {}, headers: { 'retry-after': '2' } });
+    expect((await header.service.sendMessage(makeMessage())).retryAfterMs).toBe(2000);
+  });
+
+  it('reports other errors without a retry delay', async () => {
+    const { service } = createService({}, { status: 404, data: { message: 'Unknown Webhook' }, headers: { 'retry-after': '2' } });
+
+    expect(await service.sendMessage(makeMessage())).toEqual({
+      success: false,
+      error: 'Discord API error (404): Unknown Webhook',
+      retryAfterMs: undefined,
+    });
+  });
+
+  it('sends to named channels and rejects unknown ones', async () => {
+    const other = 'https://discord.example/api/webhooks/2/token';
+    const { service, api } = createService({ channels: { ops: { webhook_url: other } } });
+
+    expect((await service.sendMessage(makeMessage(), 'ops')).success).toBe(true);
+    expect(api.post.mock.calls[0][0]).toBe(other);
+    expect(await service.sendMessage(makeMessage(), 'dev')).toEqual({ success: false, error: 'Unknown discord channel: dev' });
+  });
+
+  it('checks that every webhook still exists', async () => {
+    const other = 'https://discord.example/api/webhooks/2/token';
+    const { service, api } = createService({ channels: { ops: { webhook_url: other } } });
+
+    expect(await service.healthCheck()).toBe(true);
+    expect(api.get.mock.calls.map(call => call[0])).toEqual([WEBHOOK, other]);
+
+    api.get.mockResolvedValueOnce({ status: 200, data: {} }).mockResolvedValueOnce({ status: 404, data: { message: 'Unknown Webhook' } });
+    expect(await service.healthCheck()).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import axios from 'axios';
+import * as os from 'os';
+import * as path from 'path';
+import { GitHubService } from '../../src/services/github.service';
+import { Config } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+/**
+ * Service over a fake axios client; issue 7 of owner/repo is the default comment target
+ */
+function createService(github: Partial<NonNullable<Config['github']>> = {}) {
+  const api = {
+    get: jest.fn(),
+    post: jest.fn().mockResolvedValue({ status: 201, data: { id: 1, number: 8 } }),
+    patch: jest.fn().mockResolvedValue({ status: 200, data: {} }),
+    interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } },
+  };
+  jest.spyOn(axios, 'create').mockReturnValue(api as any);
+  mockConfig({
+    github: {
+      enable: true,
+      token: 't',
+      repo: 'owner/repo',
+      issue_number: 7,
+      conversations_path: path.join(os.tmpdir(), 'gsmrs-github-unused.json'),
+      ...github,
+    },
+  });
+  return { service: new GitHubService(), api };
+}
+
+describe('GitHubService', () => {
+  describe('state commands from mail', () => {
+    const mail = (metadata: Record<string, unknown>) => makeMessage({
+      source: 'mail',
+      content: '/close fixed',
+      metadata: { from: 'dev@example.com', envelopeFrom: 'dev@example.com', trustedRelay: true, ...metadata },
+    });
+
+    it('are honoured from allowlisted senders relayed by a trusted MTA', async () => {
+      const { service, api } = createService({ state_commands: true, state_command_senders: ['@example.com'] });
+      await service.deliver(mail({}));
+
+      expect(api.patch).toHaveBeenCalledWith('/repos/owner/repo/issues/7', { state: 'closed' });
+    });
+
+    it('are posted as comments when the transport or either sender is not trusted', async () => {
+      const { service, api } = createService({ state_commands: true, state_command_senders: ['@example.com'] });
+      await service.deliver(mail({ trustedRelay: false }));
+      await service.deliver(mail({ trustedRelay: undefined }));
+      await service.deliver(mail({ envelopeFrom: 'spoofer@evil.example' }));
+      await service.deliver(mail({ from: 'spoofer@evil.example' }));
+
+      expect(api.patch).not.toHaveBeenCalled();
+      expect(api.post).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  it('maps labels from message fields and metadata', async () => {
+    const { service, api } = createService({
+      mode: 'issue',
+      label_map: { 'source:mail': ['from-mail'], 'priority:high': ['P1'], 'content:hello': ['never'], 'broken': ['never'] },
+    });
+    await service.deliver(makeMessage({ source: 'mail', metadata: { priority: 'HIGH', labels: 'triage' } }));
+
+    expect(api.post.mock.calls[0][1].labels).toEqual(['notification', 'triage', 'from-mail', 'P1']);
+  });
+});
@@ -0,0 +1,142 @@
+import axios from 'axios';
+import { truncateBytes, truncateLines } from '../../src/services/groupBot';
+import { WeComService } from '../../src/services/wecom.service';
+import { Config } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+const WEBHOOK = 'https://qyapi.example/cgi-bin/webhook/send?key=k';
+// 企业微信文本消息上限
+const TEXT_LIMIT = 2048;
+
+const bytes = (text: string) => Buffer.byteLength(text);
+
+/**
+ * WeCom text bot over a fake axios client, returning the sent text of each message
+ */
+function createBot(wecom: Partial<NonNullable<Config['wecom']>> = {}) {
+  const api = { post: jest.fn().mockResolvedValue({ status: 200, data: { errcode: 0 }, headers: {} }) };
+  jest.spyOn(axios, 'create').mockReturnValue(api as any);
+  mockConfig({ wecom: { enable: true, webhook_url: WEBHOOK, msg_type: 'text', ...wecom } });
+  const service = new WeComService();
+  return async (content: string): Promise<string> => {
+    expect(await service.sendMessage(makeMessage({ content }))).toEqual({ success: true });
+    return api.post.mock.calls[api.post.mock.calls.length - 1][1].text.content;
+  };
+}
+
+describe('truncateBytes', () => {
+  it('never splits a multibyte character', () => {
+    expect(truncateBytes('汉字汉字', 10)).toBe('汉字…');
+    expect(truncateBytes('😀😀😀', 9)).toBe('😀…');
+    expect(truncateBytes('a😀b', 5)).toBe('a…');
+  });
+
+  it('drops the ellipsis when it does not fit', () => {
+    expect(truncateBytes('abcdef', 2)).toBe('ab');
+    expect(truncateBytes('汉字', 2)).toBe('');
+    expect(truncateBytes('abc', 0)).toBe('');
+  });
+});
+
+describe('truncateLines', () => {
+  it('keeps text within the limit unchanged', () => {
+    expect(truncateLines('a\n\nb', 4)).toBe('a\n\nb');
+  });
+
+  it('cuts at the last paragraph that fits', () => {
+    const text = `**one**\n\n${'x'.repeat(30)}\n\n[link](https://example.com/${'y'.repeat(40)})`;
+    const result = truncateLines(text, 60);
+
+    expect(result).toBe(`**one**\n\n${'x'.repeat(30)}\n…`);
+    expect(bytes(result)).toBeLessThanOrEqual(60);
+  });
+
+  it('falls back to a line boundary when the last paragraph would drop too much', () => {
+    const text = `title\n\n${Array.from({ length: 10 }, (_, i) => `- item ${i}`).join('\n')}`;
+
+    expect(truncateLines(text, 50)).toBe('title\n\n- item 0\n- item 1\n- item 2\n- item 3\n…');
+  });
+
+  it('does not cut inside a code block', () => {
+    const text = `intro\n\n\`\`\`\n${'code line\n'.repeat(10)}\`\`\`\n\nafter`;
+
+    expect(truncateLines(text, 80)).toBe('intro\n…');
+  });
+
+  it('counts multibyte characters by their UTF-8 size', () => {
+    const text = Array.from({ length: 20 }, () => '汉字汉字').join('\n');
+    const result = truncateLines(text, 60);
+
+    // 每行 13 字节（含换行），省略号一行 4 字节
+    expect(result).toBe(`${Array.from({ length: 4 }, () => '汉字汉字').join('\n')}\n…`);
+    expect(bytes(result)).toBeLessThanOrEqual(60);
+  });
+
+  it('cuts by bytes when the first line alone is too long', () => {
+    expect(truncateLines(`${'汉'.repeat(10)}\nrest`, 10)).toBe('汉汉…');
+  });
+});
+
+describe('GroupBotService', () => {
+  it('truncates long messages to the platform byte limit on a line boundary', async () => {
+    const send = createBot();
+    const lines = Array.from({ length: 300 }, (_, i) => `第 ${i} 行：构建日志`);
+    const text = await send(lines.join('\n'));
+
+    expect(bytes(text)).toBeLessThanOrEqual(TEXT_LIMIT);
+    expect(text).not.toContain('�');
+    expect(text.endsWith('\n…')).toBe(true);
+    expect(lines).toContain(text.split('\n').slice(-2)[0]);
+  });
+
+  describe('keywords', () => {
+    it('leaves messages containing a keyword unchanged', async () => {
+      const send = createBot({ keywords: ['告警', 'alert'] });
+
+      expect(await send('disk alert on db-1')).toBe('disk alert on db-1');
+    });
+
+    it('prefixes the first keyword when none is present', async () => {
+      const send = createBot({ keywords: ['告警', 'alert'] });
+
+      expect(await send('disk full')).toBe('告警\ndisk full');
+    });
+
+    it('does not match a keyword that only appears with different case or split across lines', async () => {
+      const send = createBot({ keywords: ['alert'] });
+
+      expect(await send('ALERT')).toBe('alert\nALERT');
+      expect(await send('al\nert')).toBe('alert\nal\nert');
+    });
+
+    it('prefixes the keyword when it only appears in the truncated part', async () => {
+      const send = createBot({ keywords: ['alert'] });
+      const text = await send(`${'log line\n'.repeat(300)}alert`);
+
+      expect(text.startsWith('alert\nlog line\n')).toBe(true);
+      expect(bytes(text)).toBeLessThanOrEqual(TEXT_LIMIT);
+    });
+
+    it('reserves the prefix bytes when truncating', async () => {
+      const send = createBot({ keywords: ['告警'] });
+      const text = await send('汉字\n'.repeat(1000));
+
+      expect(text.startsWith('告警\n汉字\n')).toBe(true);
+      expect(text.endsWith('汉字\n…')).toBe(true);
+      expect(bytes(text)).toBeLessThanOrEqual(TEXT_LIMIT);
+    });
+
+    it('stays within the limit when the prefix is longer than the remaining budget', async () => {
+      const keyword = '警'.repeat(600);
+      const fits = await createBot({ keywords: [keyword] })('body text');
+      expect(fits).toBe(`${keyword}\nbody text`);
+
+      const tight = await createBot({ keywords: ['k'.repeat(TEXT_LIMIT - 2)] })('body text');
+      expect(tight).toBe(`${'k'.repeat(TEXT_LIMIT - 2)}\nb`);
+
+      const tooLong = await createBot({ keywords: ['警'.repeat(1000)] })('body text');
+      expect(tooLong).toBe(`${'警'.repeat(681)}…`);
+      expect(bytes(tooLong)).toBeLessThanOrEqual(TEXT_LIMIT);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import * as net from 'net';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { Dispatcher } from '../../src/services/dispatcher';
+import { MailReceiver } from '../../src/services/mailReceiver';
+import { MessageSanitizer } from '../../src/services/sanitizer';
+import { Config } from '../../src/types';
+import { mockConfig } from '../helpers';
+
+const MAIL = [
+  'From: Dev <dev@example.com>',
+  'To: relay@relay.example',
+  'Subject: Build failed',
+  'Message-ID: <1@example.com>',
+  '',
+  'See the log.',
+].join('\r\n');
+
+async function freePort(): Promise<number> {
+  const server = net.createServer().listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  server.close();
+  await once(server, 'close');
+  return port;
+}
+
+/**
+ * Send a whole pipelined SMTP session and return the server's replies
+ */
+async function session(port: number, sender: string, data: string): Promise<string[]> {
+  const socket = net.connect(port, '127.0.0.1');
+  let output = '';
+  socket.on('data', chunk => output += chunk.toString());
+  socket.write([
+    'EHLO client.example',
+    `MAIL FROM:<${sender}>`,
+    'RCPT TO:<relay@relay.example>',
+    'DATA',
+    data,
+    '.',
+    'QUIT',
+    '',
+  ].join('\r\n'));
+  await once(socket, 'close');
+  return output.trim().split('\r\n');
+}
+
+describe('MailReceiver', () => {
+  let receiver: MailReceiver;
+  let port: number;
+  let route: jest.Mock;
+
+  async function start(inbound: NonNullable<NonNullable<Config['mail']>['inbound']> = {}) {
+    port = await freePort();
+    mockConfig({ mail: { enable: true, inbound: { enable: true, port, address: 'relay@relay.example', ...inbound } } as Config['mail'] });
+    route = jest.fn();
+    const dispatcher = {
+      route,
+      isDuplicate: () => false,
+      markProcessed: jest.fn(),
+      media: { enabled: false },
+    } as unknown as Dispatcher;
+    receiver = new MailReceiver(dispatcher);
+    await receiver.start();
+  }
+
+  afterEach(() => {
+    receiver.stop();
+  });
+
+  it('records the envelope sender and whether a trusted relay delivered the mail', async () => {
+    await start({ trusted_relays: ['127.0.0.1'] });
+    const replies = await session(port, 'bounce+dev@example.com', MAIL);
+
+    expect(replies).toContain(`250 2.0.0 OK queued as ${route.mock.calls[0][0].id}`);
+    expect(route.mock.calls[0][0].metadata).toMatchObject({
+      from: 'dev@example.com',
+      envelopeFrom: 'bounce+dev@example.com',
+      trustedRelay: true,
+    });
+  });
+
+  it('does not trust connections from other addresses', async () => {
+    await start({ trusted_relays: ['10.0.0.1'] });
+    await session(port, 'dev@example.com', MAIL);
+
+    expect(route.mock.calls[0][0].metadata.trustedRelay).toBe(false);
+  });
+
+  it('rejects content that cannot be processed with a permanent error', async () => {
+    await start();
+    jest.spyOn(MessageSanitizer, 'normalize').mockImplementation(() => {
+      throw new Error('Invalid message');
+    });
+    const replies = await session(port, 'dev@example.com', MAIL);
+
+    expect(replies).toContain('554 5.6.0 Message content rejected');
+    expect(receiver.getStatus()).toMatchObject({ rejected: 1, lastError: 'Invalid message' });
+    expect(route).not.toHaveBeenCalled();
+  });
+
+  it('asks the sender to retry when routing fails', async () => {
+    await start();
+    route.mockImplementation(() => {
+      throw new Error('ENOSPC: no space left on device');
+    });
+    const replies = await session(port, 'dev@example.com', MAIL);
+
+    expect(replies).toContain('451 4.3.0 Error processing message');
+    expect(receiver.getStatus()).toMatchObject({ rejected: 0, lastError: 'ENOSPC: no space left on device' });
+  });
+});
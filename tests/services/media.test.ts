@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MediaStore, isInlineMediaType } from '../../src/services/media';
+import { Config, MessageAttachment } from '../../src/types';
+import { mockConfig } from '../helpers';
+
+describe('MediaStore', () => {
+  let dir: string;
+
+  function createStore(media: Config['media'] = {}, publicUrl = 'https://relay.example/'): MediaStore {
+    mockConfig({ server: { port: 3000, https: false, public_url: publicUrl }, media: { path: dir, ...media } });
+    return new MediaStore();
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsmrs-media-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('checks size and MIME type against the allowlist', () => {
+    const store = createStore({ max_size: 100, mime_allowlist: ['image/*', 'application/pdf'] });
+
+    expect(store.check('image/PNG', 100)).toBeUndefined();
+    expect(store.check('application/pdf', undefined)).toBeUndefined();
+    expect(store.check('image/png', 101)).toBe('File too large (101 bytes, limit 100)');
+    expect(store.check('application/zip', 1)).toBe('File type not allowed: application/zip');
+    expect(store.check(undefined, 1)).toBe('File type not allowed: application/octet-stream');
+  });
+
+  it('saves attachments under a random ID with a public link', () => {
+    const store = createStore();
+    const attachment: MessageAttachment = { kind: 'photo', fileId: 'f1', name: 'cat.png', mimeType: 'image/png' };
+    store.save(attachment, Buffer.from('png-bytes'));
+
+    expect(attachment.id).toMatch(/^[a-f0-9]{32}$/);
+    expect(attachment.url).toBe(`https://relay.example/media/${attachment.id}`);
+    expect(attachment.size).toBe(9);
+    expect(store.get(attachment.id!)).toMatchObject({ name: 'cat.png', mimeType: 'image/png', size: 9, path: attachment.path });
+    expect(fs.readFileSync(attachment.path!, 'utf8')).toBe('png-bytes');
+  });
+
+  it('leaves the link empty without a public URL', () => {
+    const store = createStore({}, '');
+    const attachment: MessageAttachment = { kind: 'document', fileId: 'f1', name: 'a.txt' };
+    store.save(attachment, Buffer.from('x'));
+
+    expect(attachment.url).toBeUndefined();
+    expect(store.get(attachment.id!)?.mimeType).toBe('application/octet-stream');
+  });
+
+  it('does not resolve IDs outside the store', () => {
+    const store = createStore();
+
+    expect(store.get('../../etc/passwd')).toBeUndefined();
+    expect(store.get('0'.repeat(32))).toBeUndefined();
+  });
+
+  it('removes files past the retention period', () => {
+    jest.useFakeTimers();
+    const store = createStore({ retention_days: 1 });
+    const old: MessageAttachment = { kind: 'document', fileId: 'f1', name: 'old.txt' };
+    store.save(old, Buffer.from('old'));
+    jest.advanceTimersByTime(23 * 60 * 60 * 1000);
+    const recent: MessageAttachment = { kind: 'document', fileId: 'f2', name: 'new.txt' };
+    store.save(recent, Buffer.from('new'));
+
+    jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+    expect(store.get(old.id!)).toBeUndefined();
+    expect(fs.existsSync(old.path!)).toBe(false);
+    expect(store.get(recent.id!)).toBeDefined();
+  });
+});
+
+describe('isInlineMediaType', () => {
+  it('only inlines raster images, audio and video', () => {
+    expect(isInlineMediaType('image/png')).toBe(true);
+    expect(isInlineMediaType('Video/MP4; codecs=avc1')).toBe(true);
+    expect(isInlineMediaType('image/svg+xml')).toBe(false);
+    expect(isInlineMediaType('text/html')).toBe(false);
+    expect(isInlineMediaType(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QuarantineStore } from '../../src/services/quarantine';
+import { Config } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+const SPAM = 'Click here to claim your prize';
+
+describe('QuarantineStore', () => {
+  let dir: string;
+
+  function createStore(quarantine: Config['quarantine'] = {}): QuarantineStore {
+    mockConfig({ quarantine: { enable: true, path: path.join(dir, 'quarantine.json'), ...quarantine } });
+    return new QuarantineStore();
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsmrs-quarantine-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('getPolicy', () => {
+    it('quarantines mail and allows other sources by default', () => {
+      const store = createStore();
+
+      expect(store.getPolicy('mail', 'telegram')).toBe('quarantine');
+      expect(store.getPolicy('telegram', 'mail')).toBe('allow');
+      expect(store.getPolicy('api', 'github')).toBe('allow');
+    });
+
+    it('prefers channel, target, source and default policies in that order', () => {
+      const store = createStore({
+        sources: { api: 'drop', default: 'allow' },
+        targets: { telegram: 'quarantine', 'telegram:ops': 'allow' },
+      });
+
+      expect(store.getPolicy('api', 'telegram:ops')).toBe('allow');
+      expect(store.getPolicy('api', 'telegram:alerts')).toBe('quarantine');
+      expect(store.getPolicy('api', 'github')).toBe('drop');
+      expect(store.getPolicy('mail', 'github')).toBe('allow');
+    });
+  });
+
+  it('passes messages without spam through', () => {
+    const store = createStore();
+
+    expect(store.screen(makeMessage({ source: 'mail' }), ['telegram', 'github'])).toEqual(['telegram', 'github']);
+    expect(store.list()).toEqual([]);
+  });
+
+  it('matches keywords and named patterns in the title and content', () => {
+    const store = createStore({ keywords: ['airdrop'], patterns: { wallet: '/0x[0-9a-f]{40}/i' } });
+
+    expect(store.check(makeMessage({ title: 'Free AIRDROP' }))?.rule).toBe('keyword:airdrop');
+    expect(store.check(makeMessage({ content: `send to 0x${'A'.repeat(40)}` }))?.rule).toBe('pattern:wallet');
+    expect(store.check(makeMessage({ content: SPAM }))).toBeUndefined();
+  });
+
+  it('holds, drops and delivers targets of a flagged message by policy', () => {
+    const store = createStore({ targets: { github: 'drop', 'telegram:ops': 'allow' } });
+    const message = makeMessage({ id: 'spam_1', source: 'mail', content: SPAM });
+
+    expect(store.screen(message, ['telegram', 'telegram:ops', 'github'])).toEqual(['telegram:ops']);
+    expect(store.get('spam_1')).toMatchObject({ targets: ['telegram'], rule: 'keyword:click here' });
+    expect(store.getStats()).toEqual({ quarantined: 1, quarantineDropped: 1 });
+  });
+
+  it('persists held messages and removes released or discarded ones', () => {
+    const first = createStore();
+    first.screen(makeMessage({ id: 'a', source: 'mail', content: SPAM }), ['telegram']);
+    first.screen(makeMessage({ id: 'b', source: 'mail', content: SPAM }), ['github']);
+    first.screen(makeMessage({ id: 'c', source: 'mail', content: SPAM }), ['telegram']);
+    jest.advanceTimersByTime(1000);
+
+    const second = createStore();
+    expect(second.list().map(entry => entry.id)).toEqual(['a', 'b', 'c']);
+    expect(second.release('b')?.targets).toEqual(['github']);
+    expect(second.release('b')).toBeUndefined();
+    expect(second.discard('c')).toBe(true);
+    expect(second.discard('c')).toBe(false);
+    jest.advanceTimersByTime(1000);
+
+    expect(createStore().list().map(entry => entry.id)).toEqual(['a']);
+  });
+
+  it('evicts the oldest entries beyond max_entries', () => {
+    const store = createStore({ max_entries: 2 });
+    for (const id of ['a', 'b', 'c']) {
+      store.screen(makeMessage({ id, source: 'mail', content: SPAM }), ['telegram']);
+    }
+
+    expect(store.list().map(entry => entry.id)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,80 @@
+import { RoutingEngine, parseTargetRef } from '../../src/services/routing';
+import { Config, TargetType } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+const ENABLED: TargetType[] = ['telegram', 'github', 'mail', 'slack'];
+
+function createEngine(overrides: Partial<Config> = {}, enabled: TargetType[] = ENABLED): RoutingEngine {
+  return new RoutingEngine(mockConfig(overrides), enabled);
+}
+
+describe('parseTargetRef', () => {
+  it('splits platform and channel', () => {
+    expect(parseTargetRef('telegram')).toEqual({ target: 'telegram' });
+    expect(parseTargetRef('telegram:ops:eu')).toEqual({ target: 'telegram', channel: 'ops:eu' });
+  });
+});
+
+describe('RoutingEngine', () => {
+  it('stops at the first matching rule', () => {
+    const engine = createEngine({
+      routes: [
+        { name: 'issues', match: { source: 'github', event: ['issues', 'pull_request'] }, targets: ['telegram'] },
+        { name: 'github', match: { source: 'github' }, targets: ['mail'] },
+      ],
+    });
+
+    expect(engine.resolve(makeMessage({ source: 'github', metadata: { event: 'issues' } }))).toEqual(['telegram']);
+    expect(engine.resolve(makeMessage({ source: 'github', metadata: { event: 'push' } }))).toEqual(['mail']);
+  });
+
+  it('collects targets across rules with continue', () => {
+    const engine = createEngine({
+      routes: [
+        { match: { author: 'alice' }, targets: ['telegram', 'slack'], continue: true },
+        { match: { title: '/^urgent/i' }, targets: ['mail', 'telegram'] },
+        { targets: ['github'] },
+      ],
+    });
+
+    expect(engine.resolve(makeMessage({ author: 'alice', title: 'URGENT: disk' }))).toEqual(['telegram', 'slack', 'mail']);
+    expect(engine.resolve(makeMessage({ author: 'alice', title: 'fyi' }))).toEqual(['telegram', 'slack', 'github']);
+  });
+
+  it('requires every condition of a rule to match', () => {
+    const engine = createEngine({
+      routes: [{ match: { source: 'telegram', chat_id: [1, 2], content: 'deploy' }, targets: ['github'] }],
+      default_route: { targets: ['mail'] },
+    });
+
+    expect(engine.resolve(makeMessage({ source: 'telegram', content: 'deploy now', metadata: { chatId: 2 } }))).toEqual(['github']);
+    expect(engine.resolve(makeMessage({ source: 'telegram', content: 'deploy now', metadata: { chatId: 3 } }))).toEqual(['mail']);
+    expect(engine.resolve(makeMessage({ source: 'telegram', content: 'hello', metadata: { chatId: 1 } }))).toEqual(['mail']);
+  });
+
+  it('sends unmatched messages to every enabled target except their source platform', () => {
+    const engine = createEngine();
+
+    expect(engine.resolve(makeMessage({ source: 'telegram' }))).toEqual(['github', 'mail', 'slack']);
+    expect(engine.resolve(makeMessage({ source: 'api' }))).toEqual(ENABLED);
+  });
+
+  it('drops targets that are not enabled', () => {
+    const engine = createEngine({ default_route: { targets: ['telegram', 'discord', 'slack:alerts'] }, slack: { enable: true, channels: { alerts: {} } } });
+
+    expect(engine.resolve(makeMessage())).toEqual(['telegram', 'slack:alerts']);
+  });
+
+  it('accepts configured channels and rejects unknown targets at startup', () => {
+    const telegram = { enable: true, token: 't', default_target_chat: 1, channels: { ops: { chat: 2 } } };
+
+    expect(() => createEngine({ telegram, routes: [{ targets: ['telegram:ops'] }] })).not.toThrow();
+    expect(() => createEngine({ routes: [{ name: 'r', targets: ['telegram:ops'] }] })).toThrow('Invalid route "r": unknown target "telegram:ops"');
+    expect(() => createEngine({ default_route: { targets: ['pager'] as any } })).toThrow('Invalid default_route: unknown target "pager"');
+  });
+
+  it('rejects invalid rules at startup', () => {
+    expect(() => createEngine({ routes: [{ targets: 'telegram' } as any] })).toThrow('Invalid route "route_1": targets must be a list');
+    expect(() => createEngine({ routes: [{ match: { title: '/(/' }, targets: ['mail'] }] })).toThrow(/Invalid regex in route "route_1"/);
+  });
+});
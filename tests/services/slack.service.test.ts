@@ -0,0 +1,125 @@
+import axios from 'axios';
+import { SlackService } from '../../src/services/slack.service';
+import { TemplateRenderer } from '../../src/services/template';
+import { Config } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+const WEBHOOK = 'https://hooks.slack.example/services/T1/B1/x';
+
+/**
+ * Service over a fake axios client answering every POST with the given response
+ */
+function createService(slack: Partial<NonNullable<Config['slack']>>, response: object = { status: 200, data: 'ok', headers: {} }) {
+  const api = { post: jest.fn().mockResolvedValue(response) };
+  jest.spyOn(axios, 'create').mockReturnValue(api as any);
+  mockConfig({ slack: { enable: true, ...slack } });
+  return { service: new SlackService(), api };
+}
+
+describe('SlackService', () => {
+  it('posts markdown rendered as mrkdwn to the incoming webhook', async () => {
+    const { service, api } = createService({ webhook_url: WEBHOOK, token: 'xoxb-1', channel: '#ops', username: 'relay' });
+    const result = await service.sendMessage(makeMessage({
+      title: 'Deploy <prod>',
+      format: 'markdown',
+      content: '**done** see [log](https://ci.example/run_(1))',
+      author: 'alice',
+    }));
+
+    expect(result).toEqual({ success: true });
+    expect(api.post).toHaveBeenCalledWith(WEBHOOK, {
+      text: '*Deploy &lt;prod&gt;*\n\n*done* see <https://ci.example/run_(1)|log>\n\n_From: alice_',
+      mrkdwn: true,
+      username: 'relay',
+      icon_emoji: undefined,
+    }, expect.anything());
+  });
+
+  it('uses chat.postMessage with the bot token for channels without a webhook', async () => {
+    const { service, api } = createService(
+      { token: 'xoxb-1', channels: { alerts: { channel: 'C123' } } },
+      { status: 200, data: { ok: true }, headers: {} }
+    );
+
+    expect(await service.sendMessage(makeMessage(), 'alerts')).toEqual({ success: true });
+    const [url, payload, options] = api.post.mock.calls[0];
+    expect(url).toBe('https://slack.com/api/chat.postMessage');
+    expect(payload).toMatchObject({ channel: 'C123', text: 'hello' });
+    expect(options.headers).toEqual({ Authorization: 'Bearer xoxb-1' });
+  });
+
+  it('reports the Web API error code when ok is false', async () => {
+    const { service } = createService(
+      { token: 'xoxb-1', channel: '#gone' },
+      { status: 200, data: { ok: false, error: 'channel_not_found' }, headers: {} }
+    );
+
+    expect(await service.sendMessage(makeMessage())).toEqual({
+      success: false,
+      error: 'Slack API error (200): channel_not_found',
+      retryAfterMs: undefined,
+    });
+  });
+
+  it('returns the Retry-After delay on 429', async () => {
+    const { service } = createService(
+      { webhook_url: WEBHOOK },
+      { status: 429, data: 'rate_limited', headers: { 'retry-after': '7' } }
+    );
+
+    expect(await service.sendMessage(makeMessage())).toEqual({
+      success: false,
+      error: 'Slack API error (429): rate_limited',
+      retryAfterMs: 7000,
+    });
+  });
+
+  it('truncates text beyond the Slack limit', async () => {
+    const { service, api } = createService({ webhook_url: WEBHOOK });
+    await service.sendMessage(makeMessage({ content: 'x'.repeat(50000) }));
+
+    const text = api.post.mock.calls[0][1].text;
+    expect(text).toHaveLength(40000);
+    expect(text.endsWith('x…')).toBe(true);
+  });
+
+  it('returns template errors as failures', async () => {
+    const { service, api } = createService({ webhook_url: WEBHOOK });
+    jest.spyOn(TemplateRenderer.prototype, 'render').mockImplementation(() => {
+      throw new Error('Unknown filter: shout');
+    });
+
+    expect(await service.sendMessage(makeMessage())).toEqual({ success: false, error: 'Unknown filter: shout' });
+    expect(api.post).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown channels and disabled delivery', async () => {
+    expect(await createService({ webhook_url: WEBHOOK }).service.sendMessage(makeMessage(), 'ops'))
+      .toEqual({ success: false, error: 'Unknown slack channel: ops' });
+    expect(await createService({ enable: false, webhook_url: WEBHOOK }).service.sendMessage(makeMessage()))
+      .toEqual({ success: false, error: 'Slack service is disabled' });
+  });
+
+  describe('healthCheck', () => {
+    it('only checks the configuration of webhook destinations', async () => {
+      const { service, api } = createService({ webhook_url: WEBHOOK });
+
+      expect(await service.healthCheck()).toBe(true);
+      expect(api.post).not.toHaveBeenCalled();
+    });
+
+    it('verifies the bot token with auth.test', async () => {
+      const { service, api } = createService(
+        { token: 'xoxb-1', channel: '#ops' },
+        { status: 200, data: { ok: false, error: 'invalid_auth' }, headers: {} }
+      );
+
+      expect(await service.healthCheck()).toBe(false);
+      expect(api.post.mock.calls[0][0]).toBe('https://slack.com/api/auth.test');
+    });
+
+    it('fails when a channel has no way to send', async () => {
+      expect(await createService({ channel: '#ops' }).service.healthCheck()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { TelegramService } from '../../src/services/telegram.service';
+
+const LIMIT = 1000;
+
+/**
+ * Lines of 99 repeated characters, joined by line breaks
+ */
+function lines(count: number, char: string = 'x'): string {
+  return Array.from({ length: count }, () => char.repeat(99)).join('\n');
+}
+
+describe('TelegramService.splitText', () => {
+  it('keeps short messages in one part', () => {
+    expect(TelegramService.splitText('*short*', LIMIT, 'MarkdownV2')).toEqual(['*short*']);
+  });
+
+  it('splits on line breaks and drops the break between parts', () => {
+    const parts = TelegramService.splitText(lines(12), LIMIT, 'MarkdownV2');
+
+    expect(parts).toHaveLength(2);
+    expect(parts.join('\n')).toBe(lines(12));
+  });
+
+  describe('MarkdownV2', () => {
+    it('closes and reopens nested inline entities', () => {
+      const parts = TelegramService.splitText(`*bold _italic ||spoiler ${lines(12)} end|| italic_ bold*`, LIMIT, 'MarkdownV2');
+
+      expect(parts).toHaveLength(2);
+      expect(parts[0]).toMatch(/^\*bold _italic \|\|spoiler x+\n[\s\S]*x\|\|_\*$/);
+      expect(parts[1]).toMatch(/^\*_\|\|x+[\s\S]* end\|\| italic_ bold\*$/);
+    });
+
+    it('treats a double underscore as underline and strike as its own entity', () => {
+      const parts = TelegramService.splitText(`__under ~strike ${lines(12)}~__`, LIMIT, 'MarkdownV2');
+
+      expect(parts[0].endsWith('x~__')).toBe(true);
+      expect(parts[1].startsWith('__~x')).toBe(true);
+    });
+
+    it('ignores escaped markers and markers inside code', () => {
+      const parts = TelegramService.splitText(`\\*not bold \`*code*\` ${lines(12)}`, LIMIT, 'MarkdownV2');
+
+      expect(parts[0].endsWith('x')).toBe(true);
+      expect(parts[1].startsWith('x')).toBe(true);
+    });
+
+    it('reopens code blocks with their language', () => {
+      const parts = TelegramService.splitText(`\`\`\`ts\n${lines(12, '*')}\n\`\`\``, LIMIT, 'MarkdownV2');
+
+      expect(parts).toHaveLength(2);
+      expect(parts[0].endsWith('*\n```')).toBe(true);
+      expect(parts[1].startsWith('```ts\n*')).toBe(true);
+      expect(parts[1].endsWith('*\n```')).toBe(true);
+    });
+
+    it('closes inline code cut inside a long line', () => {
+      const parts = TelegramService.splitText(`\`${'c'.repeat(1500)}\``, LIMIT, 'MarkdownV2');
+
+      expect(parts).toHaveLength(2);
+      expect(parts.every(part => /^`c+`$/.test(part))).toBe(true);
+    });
+
+    it('does not cut a long line inside a link', () => {
+      const link = `[${'word '.repeat(20)}](https://example.com/a)`;
+      const parts = TelegramService.splitText(`${'y'.repeat(800)} ${link} ${'z'.repeat(200)}`, LIMIT, 'MarkdownV2');
+
+      expect(parts).toEqual([`${'y'.repeat(800)} `, `${link} ${'z'.repeat(200)}`]);
+    });
+
+    it('moves a link that spans a line break to the next part', () => {
+      const head = `${lines(8)}\n${'x'.repeat(60)}`;
+      const link = '[multi\nline](https://example.com/a\\)b)';
+      const parts = TelegramService.splitText(`*${head}\n${link} after\n${lines(2)}*`, LIMIT, 'MarkdownV2');
+
+      expect(parts).toEqual([`*${head}\n*`, `*${link} after\n${lines(2)}*`]);
+    });
+
+    it('does not cut an escape sequence', () => {
+      const parts = TelegramService.splitText('\\.'.repeat(600), LIMIT, 'MarkdownV2');
+
+      expect(parts.every(part => /^(\\\.)+$/.test(part))).toBe(true);
+    });
+  });
+
+  describe('HTML', () => {
+    it('closes and reopens nested tags with their attributes', () => {
+      const parts = TelegramService.splitText(
+        `<b>bold <a href="https://example.com">link <tg-spoiler>${lines(12)}</tg-spoiler></a></b>`,
+        LIMIT,
+        'HTML'
+      );
+
+      expect(parts).toHaveLength(2);
+      expect(parts[0].endsWith('x</tg-spoiler></a></b>')).toBe(true);
+      expect(parts[1].startsWith('<b><a href="https://example.com"><tg-spoiler>x')).toBe(true);
+      expect(parts[1].endsWith('x</tg-spoiler></a></b>')).toBe(true);
+    });
+
+    it('reopens code blocks with their language class', () => {
+      const parts = TelegramService.splitText(
+        `<pre><code class="language-ts">${lines(12, 'a')}</code></pre>`,
+        LIMIT,
+        'HTML'
+      );
+
+      expect(parts[0].endsWith('a</code></pre>')).toBe(true);
+      expect(parts[1].startsWith('<pre><code class="language-ts">a')).toBe(true);
+    });
+
+    it('does not cut inside a tag or an entity', () => {
+      const parts = TelegramService.splitText(`${'y'.repeat(868)}&amp;<i>z</i>`.repeat(2), LIMIT, 'HTML');
+
+      expect(parts.every(part => !/&[a-z]*$|<[^>]*$/.test(part))).toBe(true);
+      expect(parts.join('')).toContain('&amp;');
+    });
+
+    it('keeps every part within the limit when reopened tags are long', () => {
+      const href = `https://example.com/${'u'.repeat(300)}`;
+      const parts = TelegramService.splitText(`<b><a href="${href}">${lines(20)}</a></b>`, LIMIT, 'HTML');
+
+      expect(parts.length).toBeGreaterThan(2);
+      expect(parts.every(part => part.length <= LIMIT)).toBe(true);
+      expect(parts.every(part => part.startsWith(`<b><a href="${href}">`) && part.endsWith('</a></b>'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { TemplateRenderer } from '../../src/services/template';
+import { makeMessage, mockConfig } from '../helpers';
+
+describe('TemplateRenderer', () => {
+  it('renders configured templates by channel, then target, then default', () => {
+    mockConfig({
+      templates: {
+        telegram: { github: 'gh: {{title}}', default: 'any: {{content}}' },
+        'telegram:ops': { default: 'ops: {{content | upper}}' },
+      },
+    });
+    const renderer = new TemplateRenderer('telegram', 'text', { body: 'builtin' });
+
+    expect(renderer.render(makeMessage({ source: 'github', title: 'T' })).body).toBe('gh: T');
+    expect(renderer.render(makeMessage()).body).toBe('any: hello');
+    expect(renderer.render(makeMessage(), 'ops').body).toBe('ops: HELLO');
+  });
+
+  it('escapes variables for the target format', () => {
+    mockConfig({ templates: { telegram: { default: '*{{title}}*' } } });
+    const renderer = new TemplateRenderer('telegram', 'markdown_v2', { body: '' });
+
+    expect(renderer.render(makeMessage({ title: 'v1.2 (beta)' })).body).toBe('*v1\\.2 \\(beta\\)*');
+  });
+
+  it.each([
+    ['an unclosed section', '{{#title}}{{title}}', 'templates.telegram.default: Template error: unclosed section {{#title}}'],
+    ['a mismatched closing tag', '{{#title}}x{{/author}}', 'templates.telegram.default: Template error: unexpected closing tag {{/author}}'],
+    ['an unknown filter', '{{title | shout}}', 'templates.telegram.default: Template error: unknown filter "shout"'],
+    ['an inherited property as filter', '{{title | constructor}}', 'unknown filter "constructor"'],
+  ])('rejects %s when constructed', (_, template, message) => {
+    mockConfig({ templates: { telegram: { default: template } } });
+
+    expect(() => new TemplateRenderer('telegram', 'text', { body: '' })).toThrow(message);
+  });
+
+  it('validates channel templates and every field of a template set', () => {
+    mockConfig({ templates: { 'mail:ops': { github: { subject: '{{title | nope}}', body: 'ok' } } } });
+    expect(() => new TemplateRenderer('mail', 'html', { body: '' })).toThrow('Invalid template templates.mail:ops.github.subject');
+
+    mockConfig({ templates: { mail: { default: { subject: 'only a subject' } as any } } });
+    expect(() => new TemplateRenderer('mail', 'html', { body: '' })).toThrow('Invalid template templates.mail.default.body: expected a string');
+  });
+
+  it('only validates templates of its own target', () => {
+    mockConfig({ templates: { slack: { default: '{{#broken}}' }, telegramx: { default: '{{#broken}}' } } });
+
+    expect(() => new TemplateRenderer('telegram', 'text', { body: '' })).not.toThrow();
+  });
+});
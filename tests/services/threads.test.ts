@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ThreadStore } from '../../src/services/threads';
+
+const ISSUE = { repo: 'Owner/Repo', issueNumber: 7 };
+
+describe('ThreadStore', () => {
+  it('maps Telegram posts to their issue and back', () => {
+    const store = new ThreadStore(100);
+    store.link({ chatId: -100, messageId: 1 }, ISSUE);
+    store.link({ chatId: -100, messageId: 2 }, { ...ISSUE, commentId: 55 });
+
+    expect(store.getGitHubThread(-100, 1)).toEqual(ISSUE);
+    expect(store.getGitHubThread(-100, 2)).toEqual({ ...ISSUE, commentId: 55 });
+    expect(store.getGitHubThread(-200, 1)).toBeUndefined();
+    expect(store.getTelegramThread('owner/repo', 7, -100)).toEqual({ chatId: -100, messageId: 1 });
+  });
+
+  it('keeps the first post per chat as the thread root', () => {
+    const store = new ThreadStore(100);
+    store.link({ chatId: 1, messageId: 10 }, ISSUE, false);
+    store.link({ chatId: 1, messageId: 11 }, ISSUE);
+    store.link({ chatId: 1, messageId: 12 }, ISSUE);
+    store.link({ chatId: 2, messageId: 20 }, ISSUE);
+
+    expect(store.getTelegramThread(ISSUE.repo, 7, 1)).toEqual({ chatId: 1, messageId: 11 });
+    expect(store.getTelegramThread(ISSUE.repo, 7, 2)).toEqual({ chatId: 2, messageId: 20 });
+    expect(store.getGitHubThread(1, 10)).toEqual(ISSUE);
+  });
+
+  it('finds mail threads by In-Reply-To before References, ignoring case', () => {
+    const store = new ThreadStore(100);
+    store.linkMail('<A@relay.example>', ISSUE);
+    store.linkMail('<b@relay.example>', { repo: 'o/r', issueNumber: 8 });
+
+    expect(store.getGitHubThreadByMail(['<a@RELAY.example>', '<b@relay.example>'])).toEqual(ISSUE);
+    expect(store.getGitHubThreadByMail(['<unknown@x>', '<b@relay.example>'])?.issueNumber).toBe(8);
+    expect(store.getGitHubThreadByMail([])).toBeUndefined();
+  });
+
+  it('evicts the oldest entries beyond the limit', () => {
+    const store = new ThreadStore(2);
+    store.link({ chatId: 1, messageId: 1 }, { repo: 'o/r', issueNumber: 1 });
+    store.link({ chatId: 1, messageId: 2 }, { repo: 'o/r', issueNumber: 2 });
+    store.link({ chatId: 1, messageId: 3 }, { repo: 'o/r', issueNumber: 3 });
+
+    expect(store.size).toBe(2);
+    expect(store.getGitHubThread(1, 1)).toBeUndefined();
+    expect(store.getTelegramThread('o/r', 1, 1)).toBeUndefined();
+    expect(store.getTelegramThread('o/r', 3, 1)).toEqual({ chatId: 1, messageId: 3 });
+  });
+
+  it('restores all mappings from its snapshot', () => {
+    jest.useFakeTimers();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsmrs-threads-'));
+    try {
+      const filePath = path.join(dir, 'threads.json');
+      const first = new ThreadStore(100, filePath);
+      first.link({ chatId: 1, messageId: 1 }, ISSUE);
+      first.linkMail('<m@relay.example>', ISSUE);
+      jest.advanceTimersByTime(1000);
+
+      const second = new ThreadStore(100, filePath);
+      expect(second.getGitHubThread(1, 1)).toEqual(ISSUE);
+      expect(second.getTelegramThread(ISSUE.repo, 7, 1)).toEqual({ chatId: 1, messageId: 1 });
+      expect(second.getGitHubThreadByMail(['<m@relay.example>'])).toEqual(ISSUE);
+    } finally {
+      jest.useRealTimers();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
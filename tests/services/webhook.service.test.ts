@@ -0,0 +1,171 @@
+import express from 'express';
+import { once } from 'events';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHmacMiddleware } from '../../src/middlewares/hmac';
+import { parseRetryAfter, WebhookService } from '../../src/services/webhook.service';
+import { Config } from '../../src/types';
+import { makeMessage, mockConfig } from '../helpers';
+
+const SECRET = 'shared-secret';
+
+interface Received {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  let reply: (res: express.Response) => void;
+
+  function createService(api: Partial<NonNullable<Config['api']>> = {}, overrides: Partial<Config> = {}): WebhookService {
+    mockConfig({ api: { enable: true, url: `${url}/hook`, ...api }, ...overrides });
+    return new WebhookService();
+  }
+
+  beforeEach(async () => {
+    received = [];
+    reply = res => res.status(200).json({ ok: true });
+
+    // 接收方使用与入站 API 相同的签名验证
+    const app = express();
+    app.use(express.json({ verify: (req: any, _res, buf) => req.rawBody = buf.toString('utf8') }));
+    app.use(express.text({ type: 'text/*', verify: (req: any, _res, buf) => req.rawBody = buf.toString('utf8') }));
+    app.post('/hook', (req: any, _res, next) => {
+      received.push({ headers: req.headers, body: req.rawBody });
+      next();
+    });
+    app.post('/hook', createHmacMiddleware({
+      name: 'test',
+      resolve: () => ({ secret: SECRET, headers: ['x-signature', 'x-relay-signature'] }),
+    }));
+    app.post('/hook', (_req, res) => reply(res));
+
+    server = app.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  describe('signing', () => {
+    it('signs the message JSON so the HMAC middleware accepts it', async () => {
+      const service = createService({ secret: SECRET });
+      const message = makeMessage({
+        id: 'msg_42',
+        content: 'héllo "world"',
+        attachments: [{ kind: 'document', fileId: 'f1', name: 'a.txt', path: '/var/data/a.txt' }],
+      });
+
+      expect(await service.deliver(message)).toEqual({ success: true });
+      const [request] = received;
+      expect(request.headers['x-gsmrs-message-id']).toBe('msg_42');
+      expect(request.headers['x-signature']).toMatch(/^sha256=[a-f0-9]{64}$/);
+      expect(JSON.parse(request.body)).toMatchObject({ id: 'msg_42', content: 'héllo "world"', attachments: [{ name: 'a.txt' }] });
+      expect(request.body).not.toContain('/var/data');
+    });
+
+    it('signs a templated body exactly as sent', async () => {
+      const service = createService(
+        { secret: SECRET, content_type: 'text/plain' },
+        { templates: { api: { default: 'alert: {{content}}' } } }
+      );
+
+      expect(await service.deliver(makeMessage({ content: 'disk full' }))).toEqual({ success: true });
+      expect(received[0].body).toBe('alert: disk full');
+      expect(received[0].headers['content-type']).toMatch(/^text\/plain/);
+    });
+
+    it('uses the signature header of the endpoint, then security.auth.api', async () => {
+      await createService({ secret: SECRET, signature_header: 'X-Relay-Signature' }).deliver(makeMessage());
+      await createService({ secret: SECRET }, {
+        security: {
+          enable_hmac: false,
+          hmac_secret: '',
+          hide_sensitive: false,
+          rate_limit: { max: 100, window_ms: 60000 },
+          auth: { api: { enable: true, header: 'X-Relay-Signature' } },
+        },
+      }).deliver(makeMessage());
+
+      expect(received.map(request => request.headers['x-relay-signature'])).toEqual([
+        expect.stringMatching(/^sha256=/),
+        expect.stringMatching(/^sha256=/),
+      ]);
+    });
+
+    it('fails when the receiver rejects the signature', async () => {
+      const result = await createService({ secret: 'wrong-secret' }).deliver(makeMessage());
+
+      expect(result).toEqual({ success: false, error: 'Webhook responded with status 401', retryAfterMs: undefined });
+    });
+
+    it('adds custom headers and sends unsigned requests without a secret', async () => {
+      const result = await createService({ headers: { 'X-Team': 'ops' } }).deliver(makeMessage());
+
+      expect(result.success).toBe(false);
+      expect(received[0].headers['x-team']).toBe('ops');
+      expect(received[0].headers['x-signature']).toBeUndefined();
+    });
+  });
+
+  describe('status codes', () => {
+    it('honours Retry-After in seconds on 429', async () => {
+      reply = res => res.status(429).set('Retry-After', '30').end();
+      const result = await createService({ secret: SECRET }).deliver(makeMessage());
+
+      expect(result).toEqual({ success: false, error: 'Webhook responded with status 429', retryAfterMs: 30000 });
+    });
+
+    it('honours Retry-After as an HTTP date on 503', async () => {
+      const retryAt = new Date(Date.now() + 120000);
+      reply = res => res.status(503).set('Retry-After', retryAt.toUTCString()).end();
+      const result = await createService({ secret: SECRET }).deliver(makeMessage());
+
+      expect(result.retryAfterMs).toBeGreaterThan(115000);
+      expect(result.retryAfterMs).toBeLessThanOrEqual(120000);
+    });
+
+    it('ignores Retry-After on other errors', async () => {
+      reply = res => res.status(500).set('Retry-After', '30').end();
+
+      expect((await createService({ secret: SECRET }).deliver(makeMessage())).retryAfterMs).toBeUndefined();
+    });
+
+    it('only accepts the configured success statuses', async () => {
+      const service = createService({ secret: SECRET, success_status: [202] });
+      expect((await service.deliver(makeMessage())).success).toBe(false);
+
+      reply = res => res.status(202).end();
+      expect((await service.deliver(makeMessage())).success).toBe(true);
+    });
+  });
+
+  it('reports unknown channels and disabled delivery', async () => {
+    expect(await createService().deliver(makeMessage(), 'ops')).toEqual({ success: false, error: 'Unknown api channel: ops' });
+    expect(await createService({ enable: false }).deliver(makeMessage())).toEqual({ success: false, error: 'Webhook target is disabled' });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates, never negative', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    try {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter(1.5)).toBe(1500);
+      expect(parseRetryAfter('-5')).toBe(0);
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:01:00 GMT')).toBe(60000);
+      expect(parseRetryAfter('Wed, 31 Dec 2025 00:00:00 GMT')).toBe(0);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('')).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
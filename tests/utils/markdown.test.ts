@@ -0,0 +1,235 @@
+import { MarkdownFormat, parseInline, parseMarkdown, plainDocument, renderMarkdown } from '../../src/utils/markdown';
+
+/**
+ * Parse markdown and render it in one format
+ */
+function render(source: string, format: MarkdownFormat): string {
+  return renderMarkdown(parseMarkdown(source), format);
+}
+
+/**
+ * Milliseconds taken to parse the source and render it in every format
+ */
+function timeAllFormats(source: string): number {
+  const formats: MarkdownFormat[] = [
+    'markdown_v2', 'telegram_html', 'html', 'markdown', 'text', 'slack_mrkdwn', 'discord_markdown',
+    'lark_md', 'dingtalk_markdown', 'wecom_markdown',
+  ];
+  const start = Date.now();
+  const document = parseMarkdown(source);
+  formats.forEach(format => renderMarkdown(document, format));
+  return Date.now() - start;
+}
+
+describe('inline formatting', () => {
+  const source = '**bold** *em* ~~del~~ `code` [site](https://example.com)';
+
+  it.each<[MarkdownFormat, string]>([
+    ['markdown_v2', '*bold* _em_ ~del~ `code` [site](https://example.com)'],
+    ['telegram_html', '<b>bold</b> <i>em</i> <s>del</s> <code>code</code> <a href="https://example.com">site</a>'],
+    ['html', '<p><strong>bold</strong> <em>em</em> <del>del</del> <code>code</code> <a href="https://example.com">site</a></p>'],
+    ['markdown', '**bold** *em* ~~del~~ `code` [site](https://example.com)'],
+    ['text', 'bold em del code site (https://example.com)'],
+    ['slack_mrkdwn', '*bold* _em_ ~del~ `code` <https://example.com|site>'],
+    ['discord_markdown', '**bold** *em* ~~del~~ `code` [site](https://example.com)'],
+    ['lark_md', '**bold** *em* ~~del~~ `code` [site](https://example.com)'],
+    ['dingtalk_markdown', '**bold** *em* del code [site](https://example.com)'],
+    ['wecom_markdown', '**bold** em del `code` [site](https://example.com)'],
+  ])('renders %s', (format, expected) => {
+    expect(render(source, format)).toBe(expected);
+  });
+
+  it('nests strong and emphasis in triple delimiters', () => {
+    expect(parseInline('***both***')).toEqual([
+      { type: 'emphasis', children: [{ type: 'strong', children: [{ type: 'text', value: 'both' }] }] },
+    ]);
+  });
+
+  it('does not treat underscores inside words as emphasis', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', value: 'snake_case_name' }]);
+  });
+
+  it('keeps unmatched delimiters as text', () => {
+    expect(parseInline('**foo*')).toEqual([
+      { type: 'text', value: '*' },
+      { type: 'emphasis', children: [{ type: 'text', value: 'foo' }] },
+    ]);
+    expect(parseInline('a * b')).toEqual([{ type: 'text', value: 'a * b' }]);
+  });
+
+  it('lets code spans take precedence over emphasis and escapes', () => {
+    expect(parseInline('*a `*` b* `\\`')).toEqual([
+      { type: 'emphasis', children: [{ type: 'text', value: 'a ' }, { type: 'code', value: '*' }, { type: 'text', value: ' b' }] },
+      { type: 'text', value: ' ' },
+      { type: 'code', value: '\\' },
+    ]);
+  });
+
+  it('does not nest links', () => {
+    expect(render('[a [b](https://b) c](https://c)', 'text')).toBe('[a b (https://b) c](https://c)');
+  });
+
+  it('parses autolinks, bare URLs and images', () => {
+    expect(render('<https://a.example> <me@example.com> see www.example.org. ![logo](https://example.com/l.png)', 'html'))
+      .toBe('<p><a href="https://a.example">https://a.example</a> <a href="mailto:me@example.com">me@example.com</a> ' +
+        'see <a href="http://www.example.org">www.example.org</a>. <img src="https://example.com/l.png" alt="logo"></p>');
+  });
+
+  describe('parentheses in URLs', () => {
+    it('keeps balanced parentheses in bare URLs and drops unbalanced ones', () => {
+      expect(parseInline('https://example.com/path_(x).')).toEqual([
+        { type: 'link', url: 'https://example.com/path_(x)', children: [{ type: 'text', value: 'https://example.com/path_(x)' }] },
+        { type: 'text', value: '.' },
+      ]);
+      expect(render('(see https://example.com/a_(b)_c).', 'text')).toBe('(see https://example.com/a_(b)_c).');
+      expect(render('(see www.example.com/a)', 'html')).toBe('<p>(see <a href="http://www.example.com/a">www.example.com/a</a>)</p>');
+    });
+
+    it.each<[MarkdownFormat, string]>([
+      ['markdown_v2', '[https://example\\.com/path\\_\\(x\\)](https://example.com/path_(x\\))\\.'],
+      ['telegram_html', '<a href="https://example.com/path_(x)">https://example.com/path_(x)</a>.'],
+      ['markdown', '[https://example.com/path\\_(x)](<https://example.com/path_(x)>).'],
+      ['discord_markdown', '[https://example.com/path\\_(x)](https://example.com/path_(x)).'],
+    ])('renders a bare URL ending in a parenthesis for %s', (format, expected) => {
+      expect(render('https://example.com/path_(x).', format)).toBe(expected);
+    });
+
+    it.each<[MarkdownFormat, string]>([
+      ['markdown_v2', '[wiki](https://en.wikipedia.org/wiki/A_(b\\)) [odd](https://x.example/a\\)b)'],
+      ['discord_markdown', '[wiki](https://en.wikipedia.org/wiki/A_(b)) [odd](https://x.example/a%29b)'],
+      ['lark_md', '[wiki](https://en.wikipedia.org/wiki/A_(b)) [odd](https://x.example/a%29b)'],
+      ['dingtalk_markdown', '[wiki](https://en.wikipedia.org/wiki/A_(b)) [odd](https://x.example/a%29b)'],
+      ['wecom_markdown', '[wiki](https://en.wikipedia.org/wiki/A_(b)) [odd](https://x.example/a%29b)'],
+    ])('encodes only unbalanced parentheses in link URLs for %s', (format, expected) => {
+      expect(render('[wiki](https://en.wikipedia.org/wiki/A_(b)) [odd](<https://x.example/a)b>)', format)).toBe(expected);
+    });
+  });
+
+  it('turns hard and soft line breaks into breaks', () => {
+    expect(render('one  \ntwo\\\nthree\nfour', 'telegram_html')).toBe('one\ntwo\nthree\nfour');
+  });
+});
+
+describe('escaping and sanitizing', () => {
+  it('escapes MarkdownV2 special characters in text', () => {
+    expect(render('1 + 1 = 2. (really!) a_b', 'markdown_v2')).toBe('1 \\+ 1 \\= 2\\. \\(really\\!\\) a\\_b');
+  });
+
+  it('escapes HTML in text and code', () => {
+    expect(render('a < b & "c" `<i>`', 'html')).toBe('<p>a &lt; b &amp; &quot;c&quot; <code>&lt;i&gt;</code></p>');
+  });
+
+  it('escapes markup characters when rendering GitHub markdown', () => {
+    expect(render('\\*not em\\* and \\# text', 'markdown')).toBe('\\*not em\\* and # text');
+    expect(render('\\# not a heading', 'markdown')).toBe('\\# not a heading');
+  });
+
+  it('drops raw HTML and comments but keeps their text', () => {
+    expect(render('<script>alert(1)</script> <b>bold</b><!-- hidden -->', 'html')).toBe('<p>alert(1) bold</p>');
+    expect(render('<details>\n<summary>More</summary>\n</details>', 'text').trim()).toBe('More');
+  });
+
+  it('decodes entities before escaping', () => {
+    expect(render('&lt;tag&gt; &amp; &#65;', 'html')).toBe('<p>&lt;tag&gt; &amp; A</p>');
+  });
+
+  it('only links http, https and mailto URLs', () => {
+    expect(render('[click](javascript:alert(1))', 'html')).toBe('<p>click</p>');
+    expect(render('![x](data:image/png;base64,AAAA)', 'telegram_html')).toBe('x');
+    expect(render('[mail](mailto:a@example.com)', 'telegram_html')).toBe('<a href="mailto:a@example.com">mail</a>');
+  });
+});
+
+describe('blocks', () => {
+  it('renders headings per platform', () => {
+    expect(render('## Title ##', 'html')).toBe('<h2>Title</h2>');
+    expect(render('## **Title**', 'markdown_v2')).toBe('*Title*');
+    expect(render('Title\n===', 'slack_mrkdwn')).toBe('*Title*');
+  });
+
+  it('renders fenced code blocks', () => {
+    const source = '```ts\nconst a = `x`;\n```';
+    expect(render(source, 'telegram_html')).toBe('<pre><code class="language-ts">const a = `x`;</code></pre>');
+    expect(render(source, 'markdown_v2')).toBe('```ts\nconst a = \\`x\\`;\n```');
+    expect(render(source, 'dingtalk_markdown')).toBe('const a = `x`;');
+  });
+
+  it('renders nested lists and task lists', () => {
+    const source = '- [x] done\n- [ ] todo\n  1. first\n  2. second';
+    expect(render(source, 'markdown')).toBe('- [x] done\n- [ ] todo\n  1. first\n  2. second');
+    expect(render(source, 'telegram_html')).toBe('• ☑ done\n• ☐ todo\n  1. first\n  2. second');
+  });
+
+  it('keeps blank lines inside list items', () => {
+    const document = parseMarkdown('- one\n\n\n  still one\n- two');
+    expect(document).toHaveLength(1);
+    expect(document[0]).toMatchObject({ type: 'list', items: [{ children: [{}, {}] }, {}] });
+  });
+
+  it('renders blockquotes', () => {
+    expect(render('> quoted\n> > nested', 'markdown')).toBe('> quoted\n>\n> > nested');
+    expect(render('> quoted', 'markdown_v2')).toBe('>quoted');
+  });
+
+  it('renders tables as HTML, markdown or aligned text', () => {
+    const source = '| Name | Count |\n|:-----|------:|\n| a | 1 |\n| bbb | 22 |';
+    expect(render(source, 'markdown')).toBe('| Name | Count |\n| :--- | ---: |\n| a | 1 |\n| bbb | 22 |');
+    expect(render(source, 'text')).toBe('Name | Count\n-----+------\na    |     1\nbbb  |    22');
+    expect(render(source, 'html')).toContain('<th align="right">Count</th>');
+  });
+
+  it('keeps plain-text messages free of markup', () => {
+    expect(renderMarkdown(plainDocument('*not bold*\nline\n\nnext'), 'html')).toBe('<p>*not bold*<br>\nline</p>\n<p>next</p>');
+  });
+});
+
+describe('pathological input', () => {
+  it.each([
+    ['emphasis openers', '*a '.repeat(10000)],
+    ['underscore openers', '_a '.repeat(10000)],
+    ['strike openers', '~a '.repeat(10000)],
+    ['open brackets', '['.repeat(30000)],
+    ['unclosed link targets', '[a]('.repeat(7500)],
+    ['unclosed link titles', '[](a ('.repeat(5000)],
+    ['backtick runs', '` `` '.repeat(6000)],
+    ['comment openers', '<!--'.repeat(7500)],
+    ['email-like autolinks', `<a@${'b.'.repeat(15000)}`],
+    ['heading padding', `# a${' '.repeat(30000)}b`],
+    ['fence info strings', `\`\`\`${'a'.repeat(30000)}\``],
+    ['blank lines in a list item', `- a${'\n'.repeat(30000)}x`],
+    ['closing parentheses after a bare URL', `https://a${')'.repeat(30000)}`],
+    ['parentheses in bare URLs', `www.${'a('.repeat(15000)}`],
+  ])('parses %s in linear time', (_, source) => {
+    expect(timeAllFormats(source)).toBeLessThan(1000);
+  });
+
+  it('flattens deeply nested blockquotes', () => {
+    const source = `${'>'.repeat(5000)} deep`;
+    expect(timeAllFormats(source)).toBeLessThan(1000);
+
+    let depth = 0;
+    let blocks = parseMarkdown(source);
+    while (blocks[0]?.type === 'blockquote') {
+      blocks = blocks[0].children;
+      depth++;
+    }
+    expect(depth).toBeLessThanOrEqual(16);
+    expect(blocks[0]).toMatchObject({ type: 'paragraph' });
+  });
+
+  it('flattens deeply nested lists', () => {
+    expect(timeAllFormats(`${'- '.repeat(5000)}deep`)).toBeLessThan(1000);
+    expect(render(`${'- '.repeat(5000)}deep`, 'text')).toContain('deep');
+  });
+
+  it('flattens deeply nested emphasis and links', () => {
+    const source = `${'*_'.repeat(5000)}x${'_*'.repeat(5000)} ${'[a '.repeat(5000)}b${'](https://x)'.repeat(5000)}`;
+    expect(timeAllFormats(source)).toBeLessThan(1000);
+    expect(render(source, 'text')).toContain('x');
+  });
+
+  it('does not expand wide tables row by row', () => {
+    const source = `${'|'.repeat(5000)}\n|-|-|\n${'|\n'.repeat(5000)}`;
+    expect(timeAllFormats(source)).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,236 @@
+import { decodeWords, matchesAddress, parseAddressList, parseMail, parseMessageIds } from '../../src/utils/mime';
+
+/**
+ * Build a raw message from header and body lines joined with CRLF
+ */
+function raw(...lines: string[]): Buffer {
+  return Buffer.from(lines.join('\r\n'), 'latin1');
+}
+
+describe('parseMail', () => {
+  it('parses headers, addresses and threading ids', () => {
+    const mail = parseMail(raw(
+      'From: "Alice Example" <alice@example.com>',
+      'To: bob@example.com, "Carol, QA" <carol@example.com>',
+      'Cc: dave@example.com',
+      'Subject: Hello',
+      '  world',
+      'Message-ID: <abc@example.com>',
+      'In-Reply-To: <parent@example.com>',
+      'References: <root@example.com>',
+      '  <parent@example.com>',
+      'Date: Tue, 01 Oct 2024 10:00:00 +0000',
+      '',
+      'Body text',
+    ));
+
+    expect(mail.subject).toBe('Hello world');
+    expect(mail.from).toEqual({ name: 'Alice Example', address: 'alice@example.com' });
+    expect(mail.to).toEqual([
+      { address: 'bob@example.com' },
+      { name: 'Carol, QA', address: 'carol@example.com' },
+    ]);
+    expect(mail.cc).toEqual([{ address: 'dave@example.com' }]);
+    expect(mail.messageId).toBe('abc@example.com');
+    expect(mail.inReplyTo).toBe('parent@example.com');
+    expect(mail.references).toEqual(['root@example.com', 'parent@example.com']);
+    expect(mail.date?.toISOString()).toBe('2024-10-01T10:00:00.000Z');
+    expect(mail.text).toBe('Body text');
+  });
+
+  it('accepts bare LF line endings', () => {
+    const mail = parseMail(Buffer.from('Subject: LF\n\nline one\nline two'));
+    expect(mail.subject).toBe('LF');
+    expect(mail.text).toBe('line one\nline two');
+  });
+
+  it('ignores an invalid date', () => {
+    const mail = parseMail(raw('Date: not a date', '', 'x'));
+    expect(mail.date).toBeUndefined();
+  });
+
+  it('walks nested multipart bodies and collects attachments', () => {
+    const mail = parseMail(raw(
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      'preamble',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'plain body',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>html body</p>',
+      '--inner--',
+      '--outer',
+      'Content-Type: image/png; name="dot.png"',
+      'Content-Transfer-Encoding: base64',
+      'Content-ID: <img1@example.com>',
+      '',
+      'iVBORw0K',
+      'GgoAAAA=',
+      '--outer',
+      'Content-Type: text/plain',
+      'Content-Disposition: attachment; filename="notes.txt"',
+      '',
+      'attached text',
+      '--outer--',
+      'epilogue',
+    ));
+
+    expect(mail.text).toBe('plain body');
+    expect(mail.html).toBe('<p>html body</p>');
+    expect(mail.attachments).toHaveLength(2);
+    expect(mail.attachments[0]).toMatchObject({ filename: 'dot.png', contentType: 'image/png', contentId: 'img1@example.com' });
+    expect(mail.attachments[0].content).toEqual(Buffer.from('iVBORw0KGgoAAAA=', 'base64'));
+    expect(mail.attachments[1]).toMatchObject({ filename: 'notes.txt', contentType: 'text/plain' });
+    expect(mail.attachments[1].content.toString()).toBe('attached text');
+  });
+
+  it('names attachments without a filename', () => {
+    const mail = parseMail(raw(
+      'Content-Type: multipart/mixed; boundary=b',
+      '',
+      '--b',
+      'Content-Type: application/octet-stream',
+      '',
+      'data',
+      '--b--',
+    ));
+    expect(mail.attachments[0].filename).toBe('attachment-1');
+  });
+
+  it('stops descending into multipart bodies nested too deeply', () => {
+    const depth = 15;
+    const lines: string[] = ['Content-Type: multipart/mixed; boundary=b0', ''];
+    for (let i = 0; i < depth; i++) {
+      lines.push(`--b${i}`, `Content-Type: multipart/mixed; boundary=b${i + 1}`, '');
+    }
+    lines.push(`--b${depth}`, 'Content-Type: text/plain', '', 'deep');
+
+    expect(() => parseMail(raw(...lines))).not.toThrow();
+  });
+
+  it('decodes quoted-printable with soft line breaks', () => {
+    const mail = parseMail(raw(
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'caf=C3=A9 au =',
+      'lait =3D ok',
+    ));
+    expect(mail.text).toBe('café au lait = ok');
+  });
+
+  it('keeps malformed quoted-printable escapes literally', () => {
+    const mail = parseMail(raw(
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '100=ZZ and =4',
+    ));
+    expect(mail.text).toBe('100=ZZ and =4');
+  });
+
+  it('decodes base64 text bodies with line breaks', () => {
+    const encoded = Buffer.from('你好，世界').toString('base64');
+    const mail = parseMail(raw(
+      'Content-Type: text/plain; charset="UTF-8"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encoded.substring(0, 8),
+      encoded.substring(8),
+    ));
+    expect(mail.text).toBe('你好，世界');
+  });
+
+  it('decodes legacy Chinese charsets', () => {
+    const gbk = Buffer.from([0xc4, 0xe3, 0xba, 0xc3]);
+    const mail = parseMail(Buffer.concat([
+      raw('Content-Type: text/plain; charset=gbk', '', ''),
+      gbk,
+    ]));
+    expect(mail.text).toBe('你好');
+  });
+
+  it('falls back to UTF-8 for unknown charsets', () => {
+    const mail = parseMail(Buffer.concat([
+      raw('Content-Type: text/plain; charset=x-no-such-charset', '', ''),
+      Buffer.from('héllo'),
+    ]));
+    expect(mail.text).toBe('héllo');
+  });
+
+  it('decodes RFC 2231 filenames', () => {
+    const mail = parseMail(raw(
+      'Content-Type: multipart/mixed; boundary=b',
+      '',
+      '--b',
+      'Content-Type: application/pdf',
+      "Content-Disposition: attachment; filename*=utf-8''%E6%8A%A5%E5%91%8A.pdf",
+      '',
+      'pdf',
+      '--b--',
+    ));
+    expect(mail.attachments[0].filename).toBe('报告.pdf');
+  });
+
+  it('decodes RFC 2047 filenames', () => {
+    const mail = parseMail(raw(
+      'Content-Type: multipart/mixed; boundary=b',
+      '',
+      '--b',
+      'Content-Type: application/pdf; name="=?UTF-8?B?5oql5ZGKLnBkZg==?="',
+      '',
+      'pdf',
+      '--b--',
+    ));
+    expect(mail.attachments[0].filename).toBe('报告.pdf');
+  });
+});
+
+describe('decodeWords', () => {
+  it('decodes base64 and Q encoded words', () => {
+    expect(decodeWords('=?UTF-8?B?5L2g5aW9?=')).toBe('你好');
+    expect(decodeWords('=?iso-8859-1?Q?caf=E9_cr=E8me?=')).toBe('café crème');
+  });
+
+  it('drops whitespace between adjacent encoded words only', () => {
+    expect(decodeWords('=?UTF-8?Q?a?= =?UTF-8?Q?b?= c')).toBe('ab c');
+  });
+
+  it('decodes GBK encoded words', () => {
+    expect(decodeWords('=?gbk?B?xOO6ww==?=')).toBe('你好');
+  });
+
+  it('leaves plain text unchanged', () => {
+    expect(decodeWords('plain =? text')).toBe('plain =? text');
+  });
+});
+
+describe('address helpers', () => {
+  it('skips entries without an address', () => {
+    expect(parseAddressList('undisclosed-recipients:;, a@b.c')).toEqual([{ address: 'a@b.c' }]);
+  });
+
+  it('decodes encoded display names', () => {
+    expect(parseAddressList('=?UTF-8?B?5byg5LiJ?= <zhang@example.com>')).toEqual([
+      { name: '张三', address: 'zhang@example.com' },
+    ]);
+  });
+
+  it('matches addresses and domains case-insensitively', () => {
+    expect(matchesAddress('Bob@Example.com', ['bob@example.com'])).toBe(true);
+    expect(matchesAddress('carol@example.com', ['@example.com'])).toBe(true);
+    expect(matchesAddress('bob@sub.example.com', ['@example.com'])).toBe(false);
+    expect(matchesAddress('bob@example.org', ['@example.com', 'alice@example.org'])).toBe(false);
+  });
+
+  it('extracts message ids without brackets', () => {
+    expect(parseMessageIds('<a@x> junk <b@y>')).toEqual(['a@x', 'b@y']);
+    expect(parseMessageIds('no ids here')).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TtlStore } from '../../src/utils/ttlStore';
+
+describe('TtlStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsmrs-ttl-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('forgets keys after the TTL', () => {
+    const store = new TtlStore(1000);
+    store.add('github:1');
+
+    jest.advanceTimersByTime(1000);
+    expect(store.has('github:1')).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(store.has('github:1')).toBe(false);
+    expect(store.size).toBe(0);
+  });
+
+  it('removes expired keys in the periodic cleanup', () => {
+    const store = new TtlStore(1000);
+    store.add('a');
+    store.add('b');
+
+    jest.advanceTimersByTime(60000);
+    expect(store.size).toBe(0);
+  });
+
+  it('reloads unexpired keys from its snapshot', () => {
+    const filePath = path.join(dir, 'dedup.json');
+    const first = new TtlStore(60000, filePath);
+    first.add('github:1');
+    jest.advanceTimersByTime(30000);
+    first.add('github:2');
+    first.flush();
+
+    jest.advanceTimersByTime(40000);
+    const second = new TtlStore(60000, filePath);
+    expect(second.has('github:1')).toBe(false);
+    expect(second.has('github:2')).toBe(true);
+    expect(second.size).toBe(1);
+  });
+
+  it('writes the snapshot after the debounce delay', () => {
+    const filePath = path.join(dir, 'dedup.json');
+    const store = new TtlStore(60000, filePath);
+    store.add('telegram:update:5');
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect(Object.keys(JSON.parse(fs.readFileSync(filePath, 'utf8')))).toEqual(['telegram:update:5']);
+  });
+
+  it('starts empty when the snapshot is corrupt', () => {
+    const filePath = path.join(dir, 'dedup.json');
+    fs.writeFileSync(filePath, '{"github:1": 9');
+
+    expect(new TtlStore(60000, filePath).size).toBe(0);
+  });
+});